@@ -11,6 +11,8 @@ import Dashboard from "@/pages/dashboard";
 import AddPet from "@/pages/add-pet";
 import PetDetail from "@/pages/pet-detail";
 import Join from "@/pages/join";
+import Digests from "@/pages/digests";
+import AdminStorage from "@/pages/admin-storage";
 import NotFound from "@/pages/not-found";
 import { Loader2, PawPrint } from "lucide-react";
 
@@ -29,7 +31,7 @@ function LoadingScreen() {
 }
 
 function AuthenticatedRoutes() {
-  const { user, isLoading } = useAuth();
+  const { user, role, isLoading } = useAuth();
 
   if (isLoading) {
     return <LoadingScreen />;
@@ -44,18 +46,26 @@ function AuthenticatedRoutes() {
     );
   }
 
-  if (!user.role && !user.onboardingComplete) {
-    return <TrainerSetup />;
+  // People who signed in from an invite haven't picked a role yet; let them
+  // finish joining before asking them to set up as a trainer.
+  if (!role && !user.onboardingComplete) {
+    return (
+      <Switch>
+        <Route path="/join" component={Join} />
+        <Route component={TrainerSetup} />
+      </Switch>
+    );
   }
 
-  if (user.role === "TRAINER" && !user.onboardingComplete) {
+  if (role === "TRAINER" && !user.onboardingComplete) {
     return <TrainerSetup />;
   }
 
-  if (user.role === "OWNER" && !user.onboardingComplete) {
+  if (role === "OWNER" && !user.onboardingComplete) {
     return (
       <Switch>
         <Route path="/pets/new" component={AddPet} />
+        <Route path="/join" component={Join} />
         <Route>
           <AddPet />
         </Route>
@@ -70,6 +80,8 @@ function AuthenticatedRoutes() {
       <Route path="/pets/new" component={AddPet} />
       <Route path="/pets/:id" component={PetDetail} />
       <Route path="/join" component={Join} />
+      {(role === "TRAINER" || role === "ADMIN") && <Route path="/digests" component={Digests} />}
+      {role === "ADMIN" && <Route path="/admin/storage" component={AdminStorage} />}
       <Route component={NotFound} />
     </Switch>
   );
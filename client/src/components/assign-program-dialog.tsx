@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { GraduationCap, Loader2, Plus, Trash2 } from "lucide-react";
+import type {
+  TaskTemplateWithRelations,
+  TrainingProgramWithRelations,
+} from "@shared/schema";
+
+interface AssignProgramDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  petId: string;
+}
+
+type PhaseDraft = {
+  title: string;
+  durationWeeks: number;
+  templateIds: string[];
+};
+
+function emptyPhase(index: number): PhaseDraft {
+  return { title: `Phase ${index + 1}`, durationWeeks: 2, templateIds: [] };
+}
+
+export function AssignProgramDialog({ open, onOpenChange, petId }: AssignProgramDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"assign" | "create">("assign");
+  const [programId, setProgramId] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [phases, setPhases] = useState<PhaseDraft[]>([emptyPhase(0)]);
+
+  const { data: programs, isLoading: programsLoading } = useQuery<TrainingProgramWithRelations[]>({
+    queryKey: ["/api/programs"],
+    enabled: open,
+  });
+
+  const { data: templates } = useQuery<TaskTemplateWithRelations[]>({
+    queryKey: ["/api/templates"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setMode("assign");
+      setProgramId("");
+      setName("");
+      setDescription("");
+      setPhases([emptyPhase(0)]);
+    }
+  }, [open]);
+
+  const selectedProgram = programs?.find((program) => program.id === programId);
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/pets/${petId}/programs`, { programId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "programs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", petId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/timeline", petId] });
+      toast({
+        title: "Program assigned!",
+        description: "Tasks for the first phase have been created.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign program.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/programs", {
+        name,
+        description: description || null,
+        phases,
+      });
+      return response.json() as Promise<TrainingProgramWithRelations>;
+    },
+    onSuccess: (program) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/programs"] });
+      setProgramId(program.id);
+      setMode("assign");
+      toast({
+        title: "Program created!",
+        description: "You can now assign it to this pet.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create program.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePhase = (index: number, updates: Partial<PhaseDraft>) => {
+    setPhases((current) => current.map((phase, i) => (i === index ? { ...phase, ...updates } : phase)));
+  };
+
+  const toggleTemplate = (index: number, templateId: string) => {
+    const phase = phases[index];
+    const templateIds = phase.templateIds.includes(templateId)
+      ? phase.templateIds.filter((id) => id !== templateId)
+      : [...phase.templateIds, templateId];
+    updatePhase(index, { templateIds });
+  };
+
+  const canCreate =
+    name.trim().length > 0 &&
+    phases.length > 0 &&
+    phases.every((phase) => phase.title.trim().length > 0 && phase.durationWeeks >= 1 && phase.templateIds.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GraduationCap className="h-5 w-5 text-primary" />
+            {mode === "assign" ? "Assign Program" : "New Program"}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "assign"
+              ? "Programs create each phase's tasks automatically and close them when the next phase starts."
+              : "Build a program from phases. Each phase uses templates from your library."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === "assign" ? (
+          <div className="space-y-4">
+            {programsLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : programs && programs.length > 0 ? (
+              <div className="space-y-2">
+                <Label>Program</Label>
+                <Select value={programId} onValueChange={setProgramId}>
+                  <SelectTrigger data-testid="select-program">
+                    <SelectValue placeholder="Choose a program" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {programs.map((program) => (
+                      <SelectItem key={program.id} value={program.id}>
+                        {program.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Your workspace has no programs yet.
+              </p>
+            )}
+
+            {selectedProgram && (
+              <div className="space-y-2 rounded-md border p-3 text-sm">
+                {selectedProgram.description && (
+                  <p className="text-muted-foreground">{selectedProgram.description}</p>
+                )}
+                <ol className="space-y-1">
+                  {selectedProgram.phases?.map((phase, index) => (
+                    <li key={phase.id} data-testid={`text-program-phase-${index}`}>
+                      <span className="font-medium">
+                        {index + 1}. {phase.title}
+                      </span>{" "}
+                      <span className="text-muted-foreground">
+                        ({phase.durationWeeks} {phase.durationWeeks === 1 ? "week" : "weeks"},{" "}
+                        {phase.templates?.length || 0} {phase.templates?.length === 1 ? "task" : "tasks"})
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setMode("create")}
+              data-testid="button-new-program"
+            >
+              <Plus className="h-3 w-3" />
+              New Program
+            </Button>
+
+            <div className="flex gap-4 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-assign-program"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                className="flex-1 gap-2"
+                disabled={!programId || assignMutation.isPending}
+                onClick={() => assignMutation.mutate()}
+                data-testid="button-assign-program"
+              >
+                {assignMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Assigning...
+                  </>
+                ) : (
+                  "Assign"
+                )}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="program-name">Name</Label>
+              <Input
+                id="program-name"
+                placeholder="e.g., Puppy Foundations"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-program-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="program-description">Description</Label>
+              <Textarea
+                id="program-description"
+                placeholder="What this program covers"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-program-description"
+              />
+            </div>
+
+            {!templates || templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Save some tasks as templates first, then add them to phases here.
+              </p>
+            ) : (
+              phases.map((phase, index) => (
+                <div key={index} className="space-y-3 rounded-md border p-3" data-testid={`card-phase-draft-${index}`}>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={phase.title}
+                      onChange={(e) => updatePhase(index, { title: e.target.value })}
+                      data-testid={`input-phase-title-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      max={52}
+                      className="w-20"
+                      value={phase.durationWeeks}
+                      onChange={(e) => updatePhase(index, { durationWeeks: parseInt(e.target.value, 10) || 1 })}
+                      data-testid={`input-phase-weeks-${index}`}
+                    />
+                    <span className="text-sm text-muted-foreground">weeks</span>
+                    {phases.length > 1 && (
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setPhases((current) => current.filter((_, i) => i !== index))}
+                        data-testid={`button-remove-phase-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {templates.map((template) => (
+                      <label key={template.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={phase.templateIds.includes(template.id)}
+                          onCheckedChange={() => toggleTemplate(index, template.id)}
+                          data-testid={`checkbox-phase-${index}-template-${template.id}`}
+                        />
+                        {template.title}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setPhases((current) => [...current, emptyPhase(current.length)])}
+              data-testid="button-add-phase"
+            >
+              <Plus className="h-3 w-3" />
+              Add Phase
+            </Button>
+
+            <div className="flex gap-4 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setMode("assign")}
+                data-testid="button-back-to-assign"
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                className="flex-1 gap-2"
+                disabled={!canCreate || createMutation.isPending}
+                onClick={() => createMutation.mutate()}
+                data-testid="button-create-program"
+              >
+                {createMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  "Create Program"
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
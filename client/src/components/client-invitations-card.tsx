@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ChevronRight, Loader2, Mail, Send, UserPlus } from "lucide-react";
+import {
+  CLIENT_INVITATION_STATUS_LABELS,
+  MAX_STARTER_TASKS,
+  clientInvitationInputSchema,
+  type ClientInvitationInput,
+} from "@shared/invites";
+import type { ClientInvitationWithStatus, TaskTemplateWithRelations } from "@shared/schema";
+
+const speciesOptions = [
+  { value: "dog", label: "Dog" },
+  { value: "cat", label: "Cat" },
+  { value: "rabbit", label: "Rabbit" },
+  { value: "bird", label: "Bird" },
+  { value: "fish", label: "Fish" },
+  { value: "other", label: "Other" },
+];
+
+const emptyInvitation = (): ClientInvitationInput => ({
+  email: "",
+  petName: "",
+  petSpecies: "",
+  petBreed: "",
+  starterTemplateIds: [],
+});
+
+interface InviteClientDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function InviteClientDialog({ open, onOpenChange }: InviteClientDialogProps) {
+  const { toast } = useToast();
+  const [invitation, setInvitation] = useState<ClientInvitationInput>(emptyInvitation);
+  const starterTemplateIds = invitation.starterTemplateIds ?? [];
+
+  const { data: templates } = useQuery<TaskTemplateWithRelations[]>({
+    queryKey: ["/api/templates"],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: ClientInvitationInput) => {
+      await apiRequest("POST", "/api/workspaces/invitations", input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces/invitations"] });
+      toast({ title: "Invitation sent", description: `We emailed ${invitation.email}.` });
+      setInvitation(emptyInvitation());
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleTemplate = (templateId: string, checked: boolean) => {
+    setInvitation({
+      ...invitation,
+      starterTemplateIds: checked
+        ? [...starterTemplateIds, templateId]
+        : starterTemplateIds.filter((id) => id !== templateId),
+    });
+  };
+
+  const parsed = clientInvitationInputSchema.safeParse(invitation);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Invite a client</DialogTitle>
+          <DialogDescription>
+            Set up their pet now. When they sign in with this email, the pet and its starter homework are waiting for
+            them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="invitation-email">Client email</Label>
+            <Input
+              id="invitation-email"
+              type="email"
+              placeholder="client@example.com"
+              value={invitation.email}
+              onChange={(e) => setInvitation({ ...invitation, email: e.target.value })}
+              data-testid="input-invitation-email"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="invitation-pet-name">Pet name</Label>
+            <Input
+              id="invitation-pet-name"
+              placeholder="Buddy"
+              value={invitation.petName}
+              onChange={(e) => setInvitation({ ...invitation, petName: e.target.value })}
+              data-testid="input-invitation-pet-name"
+            />
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label>Species (optional)</Label>
+              <Select
+                value={invitation.petSpecies || undefined}
+                onValueChange={(petSpecies) => setInvitation({ ...invitation, petSpecies })}
+              >
+                <SelectTrigger data-testid="select-invitation-species">
+                  <SelectValue placeholder="Select species" />
+                </SelectTrigger>
+                <SelectContent>
+                  {speciesOptions.map((species) => (
+                    <SelectItem key={species.value} value={species.value}>
+                      {species.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="invitation-pet-breed">Breed (optional)</Label>
+              <Input
+                id="invitation-pet-breed"
+                placeholder="Labrador"
+                value={invitation.petBreed ?? ""}
+                onChange={(e) => setInvitation({ ...invitation, petBreed: e.target.value })}
+                data-testid="input-invitation-pet-breed"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Starter homework (optional)</Label>
+            {templates && templates.length > 0 ? (
+              <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+                {templates.map((template) => (
+                  <label key={template.id} className="flex items-start gap-2 text-sm" data-testid={`row-starter-template-${template.id}`}>
+                    <Checkbox
+                      checked={starterTemplateIds.includes(template.id)}
+                      onCheckedChange={(checked) => toggleTemplate(template.id, checked === true)}
+                      disabled={!starterTemplateIds.includes(template.id) && starterTemplateIds.length >= MAX_STARTER_TASKS}
+                      data-testid={`checkbox-starter-template-${template.id}`}
+                    />
+                    <span>
+                      {template.title}
+                      <span className="block text-xs text-muted-foreground">{template.frequency}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Save tasks as templates to offer them as starter homework.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-invitation">
+            Cancel
+          </Button>
+          <Button
+            className="gap-2"
+            onClick={() => parsed.success && createMutation.mutate(invitation)}
+            disabled={!parsed.success || createMutation.isPending}
+            data-testid="button-send-invitation"
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Send invitation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function InvitationRow({ invitation }: { invitation: ClientInvitationWithStatus }) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/workspaces/invitations/${invitation.id}/resend`);
+      return res.json() as Promise<ClientInvitationWithStatus[]>;
+    },
+    onSuccess: (invitations) => {
+      queryClient.setQueryData(["/api/workspaces/invitations"], invitations);
+      toast({ title: "Invitation resent", description: `We emailed ${invitation.email} again.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const detail =
+    invitation.status === "ACCEPTED" && invitation.acceptedAt
+      ? `Accepted ${format(new Date(invitation.acceptedAt), "MMM d, yyyy")}`
+      : `Sent ${format(new Date(invitation.lastSentAt), "MMM d")} · ${invitation.status === "EXPIRED" ? "Expired" : "Expires"} ${format(new Date(invitation.expiresAt), "MMM d, yyyy")}`;
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-md border p-3" data-testid={`row-invitation-${invitation.id}`}>
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="truncate font-medium">{invitation.petName}</span>
+          <Badge
+            variant={invitation.status === "PENDING" ? "default" : "secondary"}
+            className="text-xs"
+            data-testid={`badge-invitation-status-${invitation.id}`}
+          >
+            {CLIENT_INVITATION_STATUS_LABELS[invitation.status]}
+          </Badge>
+        </div>
+        <p className="truncate text-sm text-muted-foreground">{invitation.email}</p>
+        <p className="text-xs text-muted-foreground">
+          {detail}
+          {invitation.starterTemplateIds.length > 0 &&
+            ` · ${invitation.starterTemplateIds.length} starter task${invitation.starterTemplateIds.length !== 1 ? "s" : ""}`}
+        </p>
+      </div>
+      {invitation.status === "ACCEPTED" ? (
+        invitation.petId && (
+          <Link href={`/pets/${invitation.petId}`}>
+            <Button variant="ghost" size="icon" className="h-8 w-8" data-testid={`link-invitation-pet-${invitation.id}`}>
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Open pet</span>
+            </Button>
+          </Link>
+        )
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="shrink-0 gap-1"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+          data-testid={`button-resend-invitation-${invitation.id}`}
+        >
+          {resendMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          Resend
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function ClientInvitationsCard() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: invitations } = useQuery<ClientInvitationWithStatus[]>({
+    queryKey: ["/api/workspaces/invitations"],
+  });
+
+  if (!invitations) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Mail className="h-5 w-5 text-primary" />
+            <CardTitle className="text-base">Invite by Email</CardTitle>
+          </div>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setDialogOpen(true)} data-testid="button-invite-client">
+            <UserPlus className="h-4 w-4" />
+            Invite client
+          </Button>
+        </div>
+        <CardDescription>
+          Already know the client and their pet? Set the pet up with starter homework and email them an invitation.
+        </CardDescription>
+      </CardHeader>
+      {invitations.length > 0 && (
+        <CardContent className="space-y-3">
+          {invitations.map((invitation) => (
+            <InvitationRow key={invitation.id} invitation={invitation} />
+          ))}
+        </CardContent>
+      )}
+      <InviteClientDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+}
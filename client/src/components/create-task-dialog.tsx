@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -30,14 +30,37 @@ import {
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, ClipboardList, Upload, X, Image, Video, Pencil } from "lucide-react";
-import type { HomeworkTaskWithRelations, TaskMedia } from "@shared/schema";
+import { Loader2, ClipboardList, Upload, X, Image, Pencil, BookOpen } from "lucide-react";
+import type { HomeworkTaskWithRelations, TaskMedia, TaskTemplateWithRelations } from "@shared/schema";
+import { responsiveImageProps } from "@shared/media";
+import { VideoThumbnail } from "@/components/video-preview";
+import { UploadTile } from "@/components/upload-tile";
+import { useResumableUploads } from "@/hooks/use-resumable-uploads";
+import {
+  WEEKDAYS,
+  RECURRENCE_FREQUENCIES,
+  getTaskRecurrence,
+  rebaseRecurrence,
+  toDateKey,
+  type RecurrenceRule,
+} from "@shared/recurrence";
 
 const taskSchema = z.object({
   title: z.string().min(1, "Title is required").max(200),
   instructions: z.string().min(1, "Instructions are required").max(2000),
-  frequency: z.string().min(1, "Frequency is required"),
+  freq: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.coerce.number().int().min(1, "Must be at least 1").max(52),
+  byWeekday: z.array(z.enum(WEEKDAYS)),
+  timesPerDay: z.coerce.number().int().min(1, "Must be at least 1").max(10),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().optional(),
   expectedDurationMins: z.coerce.number().min(1).max(240).optional().or(z.literal("")),
+}).refine((data) => data.freq !== "WEEKLY" || data.byWeekday.length > 0, {
+  message: "Pick at least one day",
+  path: ["byWeekday"],
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -49,65 +72,108 @@ interface CreateTaskDialogProps {
   editTask?: HomeworkTaskWithRelations | null;
 }
 
-interface PendingUpload {
-  file: File;
-  preview: string;
-  mediaType: "IMAGE" | "VIDEO";
+const repeatOptions: { value: RecurrenceRule["freq"]; label: string }[] = [
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "AS_NEEDED", label: "As needed" },
+];
+
+function emptyFormValues(): TaskFormData {
+  return {
+    title: "",
+    instructions: "",
+    freq: "DAILY",
+    interval: 1,
+    byWeekday: [],
+    timesPerDay: 1,
+    startDate: toDateKey(new Date()),
+    endDate: "",
+    expectedDurationMins: "",
+  };
 }
 
-const frequencyOptions = [
-  { value: "daily", label: "Daily" },
-  { value: "2x/day", label: "Twice a day" },
-  { value: "3x/week", label: "3 times per week" },
-  { value: "weekly", label: "Weekly" },
-  { value: "as-needed", label: "As needed" },
-];
+function toRecurrenceRule(data: TaskFormData): RecurrenceRule {
+  return {
+    freq: data.freq,
+    interval: Number(data.interval),
+    byWeekday: data.freq === "WEEKLY" ? data.byWeekday : null,
+    timesPerDay: Number(data.timesPerDay),
+    startDate: data.startDate,
+    endDate: data.endDate || null,
+  };
+}
 
 export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: CreateTaskDialogProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const uploads = useResumableUploads(petId);
   const [existingMedia, setExistingMedia] = useState<TaskMedia[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
   const isEditing = !!editTask;
 
+  const { data: templates } = useQuery<TaskTemplateWithRelations[]>({
+    queryKey: ["/api/templates"],
+    enabled: open && !isEditing,
+  });
+
+  const selectedTemplate = templates?.find((t) => t.id === selectedTemplateId);
+
   const form = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
-    defaultValues: {
-      title: "",
-      instructions: "",
-      frequency: "",
-      expectedDurationMins: "",
-    },
+    defaultValues: emptyFormValues(),
   });
 
+  const repeat = form.watch("freq");
+
   useEffect(() => {
     if (open && editTask) {
+      const rule = getTaskRecurrence(editTask);
       form.reset({
         title: editTask.title,
         instructions: editTask.instructions,
-        frequency: editTask.frequency,
+        freq: rule.freq,
+        interval: rule.interval,
+        byWeekday: rule.byWeekday || [],
+        timesPerDay: rule.timesPerDay,
+        startDate: rule.startDate,
+        endDate: rule.endDate || "",
         expectedDurationMins: editTask.expectedDurationMins || "",
       });
       setExistingMedia(editTask.media || []);
     } else if (open && !editTask) {
-      form.reset({
-        title: "",
-        instructions: "",
-        frequency: "",
-        expectedDurationMins: "",
-      });
+      form.reset(emptyFormValues());
       setExistingMedia([]);
     }
     if (!open) {
-      setPendingUploads([]);
+      uploads.reset();
+      setSelectedTemplateId("");
     }
   }, [open, editTask]);
 
+  const applyTemplateToForm = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates?.find((t) => t.id === templateId);
+    if (!template) return;
+
+    const rule = rebaseRecurrence(getTaskRecurrence(template), toDateKey(new Date()));
+    form.reset({
+      title: template.title,
+      instructions: template.instructions,
+      freq: rule.freq,
+      interval: rule.interval,
+      byWeekday: rule.byWeekday || [],
+      timesPerDay: rule.timesPerDay,
+      startDate: rule.startDate,
+      endDate: rule.endDate || "",
+      expectedDurationMins: template.expectedDurationMins || "",
+    });
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
 
-    const newFiles: PendingUpload[] = [];
+    const newFiles: File[] = [];
     for (const file of Array.from(files)) {
       const isVideo = file.type.startsWith("video/");
       const isImage = file.type.startsWith("image/");
@@ -121,37 +187,15 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
         continue;
       }
 
-      if (file.size > 50 * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: "Files must be under 50MB.",
-          variant: "destructive",
-        });
-        continue;
-      }
-
-      newFiles.push({
-        file,
-        preview: URL.createObjectURL(file),
-        mediaType: isVideo ? "VIDEO" : "IMAGE",
-      });
+      newFiles.push(file);
     }
 
-    setPendingUploads((prev) => [...prev, ...newFiles]);
+    uploads.addFiles(newFiles);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const removePendingFile = (index: number) => {
-    setPendingUploads((prev) => {
-      const newFiles = [...prev];
-      URL.revokeObjectURL(newFiles[index].preview);
-      newFiles.splice(index, 1);
-      return newFiles;
-    });
-  };
-
   const deleteExistingMediaMutation = useMutation({
     mutationFn: async (mediaId: string) => {
       if (!editTask) return;
@@ -177,35 +221,35 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
         const response = await apiRequest("PATCH", `/api/tasks/${editTask.id}`, {
           title: data.title,
           instructions: data.instructions,
-          frequency: data.frequency,
+          recurrence: toRecurrenceRule(data),
           expectedDurationMins: data.expectedDurationMins ? Number(data.expectedDurationMins) : null,
         });
         taskId = editTask.id;
+      } else if (selectedTemplate) {
+        const response = await apiRequest("POST", `/api/templates/${selectedTemplate.id}/apply`, {
+          petId,
+          title: data.title,
+          instructions: data.instructions,
+          recurrence: toRecurrenceRule(data),
+          expectedDurationMins: data.expectedDurationMins ? Number(data.expectedDurationMins) : null,
+        });
+        const result = await response.json();
+        taskId = result.id;
       } else {
         const response = await apiRequest("POST", "/api/tasks", {
           petId,
           title: data.title,
           instructions: data.instructions,
-          frequency: data.frequency,
+          recurrence: toRecurrenceRule(data),
           expectedDurationMins: data.expectedDurationMins ? Number(data.expectedDurationMins) : null,
         });
         const result = await response.json();
         taskId = result.id;
       }
 
-      for (const pendingFile of pendingUploads) {
-        const formData = new FormData();
-        formData.append("file", pendingFile.file);
-
-        const uploadResponse = await fetch(`/api/tasks/${taskId}/media`, {
-          method: "POST",
-          body: formData,
-          credentials: "include",
-        });
-
-        if (!uploadResponse.ok) {
-          throw new Error("Failed to upload demonstration media");
-        }
+      for (const item of uploads.items) {
+        if (!item.uploadId) continue;
+        await apiRequest("POST", `/api/tasks/${taskId}/media`, { uploadId: item.uploadId });
       }
 
       return taskId;
@@ -220,7 +264,8 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
           : "The homework task has been assigned.",
       });
       form.reset();
-      setPendingUploads([]);
+      uploads.reset();
+      setSelectedTemplateId("");
       onOpenChange(false);
     },
     onError: (error: Error) => {
@@ -257,6 +302,31 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {!isEditing && templates && templates.length > 0 && (
+              <div className="space-y-2">
+                <FormLabel className="flex items-center gap-1">
+                  <BookOpen className="h-4 w-4" />
+                  Start from a template
+                </FormLabel>
+                <Select value={selectedTemplateId} onValueChange={applyTemplateToForm}>
+                  <SelectTrigger data-testid="select-template">
+                    <SelectValue placeholder="Choose a saved task..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem
+                        key={template.id}
+                        value={template.id}
+                        data-testid={`option-template-${template.id}`}
+                      >
+                        {template.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="title"
@@ -297,10 +367,10 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
             <div className="grid gap-4 sm:grid-cols-2">
               <FormField
                 control={form.control}
-                name="frequency"
+                name="freq"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Frequency *</FormLabel>
+                    <FormLabel>Repeats *</FormLabel>
                     <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-frequency">
@@ -308,7 +378,7 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {frequencyOptions.map((option) => (
+                        {repeatOptions.map((option) => (
                           <SelectItem key={option.value} value={option.value}>
                             {option.label}
                           </SelectItem>
@@ -342,6 +412,121 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
               />
             </div>
 
+            {repeat !== "AS_NEEDED" && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Every ({repeat === "WEEKLY" ? "weeks" : "days"})
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={52}
+                          {...field}
+                          data-testid="input-interval"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="timesPerDay"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Times per day</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={10}
+                          {...field}
+                          data-testid="input-times-per-day"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {repeat === "WEEKLY" && (
+              <FormField
+                control={form.control}
+                name="byWeekday"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>On these days *</FormLabel>
+                    <div className="flex flex-wrap gap-1">
+                      {WEEKDAYS.map((day) => {
+                        const isSelected = field.value.includes(day);
+                        return (
+                          <Button
+                            key={day}
+                            type="button"
+                            size="sm"
+                            variant={isSelected ? "default" : "outline"}
+                            className={`text-xs h-7 px-2 min-h-0 toggle-elevate ${isSelected ? "toggle-elevated" : ""}`}
+                            onClick={() =>
+                              field.onChange(
+                                isSelected
+                                  ? field.value.filter((d) => d !== day)
+                                  : WEEKDAYS.filter((d) => d === day || field.value.includes(d)),
+                              )
+                            }
+                            data-testid={`button-weekday-${day.toLowerCase()}`}
+                          >
+                            {day}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {repeat !== "AS_NEEDED" && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-start-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-end-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <FormLabel>Demonstration Media (Optional)</FormLabel>
               <p className="text-xs text-muted-foreground">
@@ -357,62 +542,65 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
                 data-testid="input-task-media"
               />
 
-              {(existingMedia.length > 0 || pendingUploads.length > 0) && (
+              {(existingMedia.length > 0 || uploads.items.length > 0 || (selectedTemplate?.media?.length ?? 0) > 0) && (
                 <div className="grid grid-cols-3 gap-2">
-                  {existingMedia.map((media) => (
+                  {selectedTemplate?.media?.map((media) => (
                     <div
                       key={media.id}
                       className="relative aspect-square overflow-hidden rounded-lg border"
+                      data-testid={`template-media-${media.id}`}
                     >
                       {media.mediaType === "IMAGE" ? (
                         <img
-                          src={media.filePath}
+                          {...responsiveImageProps(media, "(min-width: 640px) 160px, 33vw")}
+                          loading="lazy"
                           alt={media.fileName || "Demo"}
                           className="h-full w-full object-cover"
                         />
                       ) : (
-                        <div className="flex h-full w-full items-center justify-center bg-muted">
-                          <Video className="h-8 w-8 text-muted-foreground" />
-                        </div>
+                        <VideoThumbnail media={media} iconClassName="h-8 w-8" />
                       )}
-                      <button
-                        type="button"
-                        onClick={() => deleteExistingMediaMutation.mutate(media.id)}
-                        className="absolute right-1 top-1 rounded-full bg-destructive p-1 text-destructive-foreground"
-                        data-testid={`button-remove-existing-media-${media.id}`}
-                      >
-                        <X className="h-3 w-3" />
-                      </button>
                     </div>
                   ))}
-                  {pendingUploads.map((file, index) => (
+                  {existingMedia.map((media) => (
                     <div
-                      key={`pending-${index}`}
-                      className="relative aspect-square overflow-hidden rounded-lg border border-dashed"
+                      key={media.id}
+                      className="relative aspect-square overflow-hidden rounded-lg border"
                     >
-                      {file.mediaType === "IMAGE" ? (
+                      {media.mediaType === "IMAGE" ? (
                         <img
-                          src={file.preview}
-                          alt={`Upload ${index + 1}`}
+                          {...responsiveImageProps(media, "(min-width: 640px) 160px, 33vw")}
+                          loading="lazy"
+                          alt={media.fileName || "Demo"}
                           className="h-full w-full object-cover"
                         />
                       ) : (
-                        <div className="flex h-full w-full items-center justify-center bg-muted">
-                          <Video className="h-8 w-8 text-muted-foreground" />
-                        </div>
+                        <VideoThumbnail media={media} iconClassName="h-8 w-8" />
                       )}
                       <button
                         type="button"
-                        onClick={() => removePendingFile(index)}
+                        onClick={() => deleteExistingMediaMutation.mutate(media.id)}
                         className="absolute right-1 top-1 rounded-full bg-destructive p-1 text-destructive-foreground"
-                        data-testid={`button-remove-pending-media-${index}`}
+                        data-testid={`button-remove-existing-media-${media.id}`}
                       >
                         <X className="h-3 w-3" />
                       </button>
                     </div>
                   ))}
+                  {uploads.items.map((item, index) => (
+                    <UploadTile
+                      key={item.id}
+                      item={item}
+                      onRetry={() => uploads.retry(item.id)}
+                      onRemove={() => uploads.remove(item.id)}
+                      testId={`pending-media-${index}`}
+                    />
+                  ))}
                 </div>
               )}
+              {uploads.hasFailed && (
+                <p className="text-xs text-destructive">Retry or remove the files that failed to upload.</p>
+              )}
 
               <Button
                 type="button"
@@ -439,7 +627,7 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
               <Button
                 type="submit"
                 className="flex-1 gap-2"
-                disabled={taskMutation.isPending}
+                disabled={taskMutation.isPending || uploads.isUploading || uploads.hasFailed}
                 data-testid={isEditing ? "button-update-task" : "button-create-task"}
               >
                 {taskMutation.isPending ? (
@@ -447,6 +635,11 @@ export function CreateTaskDialog({ open, onOpenChange, petId, editTask }: Create
                     <Loader2 className="h-4 w-4 animate-spin" />
                     {isEditing ? "Updating..." : "Creating..."}
                   </>
+                ) : uploads.isUploading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Uploading...
+                  </>
                 ) : isEditing ? (
                   "Update Task"
                 ) : (
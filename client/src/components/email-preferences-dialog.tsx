@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { EMAIL_EVENTS, type EmailEvent } from "@shared/schema";
+
+const emailEventCopy: Record<EmailEvent, { label: string; description: string }> = {
+  TASK_ASSIGNED: {
+    label: "New homework",
+    description: "When a trainer assigns a new task to your pet.",
+  },
+  SUBMISSION_RECEIVED: {
+    label: "Homework submissions",
+    description: "When an owner submits homework for you to review.",
+  },
+  TRAINER_COMMENTED: {
+    label: "Trainer feedback",
+    description: "When a trainer comments on a homework submission.",
+  },
+  HOMEWORK_REMINDER: {
+    label: "Homework reminders",
+    description: "On days your pet has homework due. Timing is set under Reminders.",
+  },
+  WEEKLY_DIGEST: {
+    label: "Weekly digest",
+    description: "A weekly summary of activity across your workspace.",
+  },
+};
+
+interface EmailPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EmailPreferencesDialog({ open, onOpenChange }: EmailPreferencesDialogProps) {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [optOuts, setOptOuts] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setOptOuts(user?.emailOptOuts || []);
+    }
+  }, [open, user]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", "/api/auth/email-preferences", { emailOptOuts: optOuts });
+    },
+    onSuccess: async () => {
+      await refetchUser();
+      toast({ title: "Email preferences saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save email preferences.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (event: EmailEvent, enabled: boolean) => {
+    setOptOuts((current) =>
+      enabled ? current.filter((e) => e !== event) : Array.from(new Set([...current, event])),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Email Notifications</DialogTitle>
+          <DialogDescription>
+            {user?.email ? `Choose which emails we send to ${user.email}.` : "Choose which emails we send you."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {EMAIL_EVENTS.map((event) => (
+            <div key={event} className="flex items-start justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={`email-pref-${event}`}>{emailEventCopy[event].label}</Label>
+                <p className="text-sm text-muted-foreground">{emailEventCopy[event].description}</p>
+              </div>
+              <Switch
+                id={`email-pref-${event}`}
+                checked={!optOuts.includes(event)}
+                onCheckedChange={(checked) => toggle(event, checked)}
+                data-testid={`switch-email-${event.toLowerCase()}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-email-preferences">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-email-preferences"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
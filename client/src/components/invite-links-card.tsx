@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { endOfDay, format, parseISO } from "date-fns";
+import { QRCodeSVG } from "qrcode.react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Ban, Check, Copy, LinkIcon, Loader2, Plus, QrCode, RefreshCw } from "lucide-react";
+import { INVITE_STATUS_LABELS, inviteInputSchema, type InviteInput } from "@shared/invites";
+import type { User, WorkspaceInviteWithMembers } from "@shared/schema";
+
+function displayName(user?: User | null): string {
+  if (!user) return "Unknown";
+  return user.firstName ? `${user.firstName} ${user.lastName || ""}`.trim() : user.email || "Unknown";
+}
+
+function inviteUrl(invite: WorkspaceInviteWithMembers): string {
+  return `${window.location.origin}/join?token=${invite.token}`;
+}
+
+function InviteLinkRow({ invite }: { invite: WorkspaceInviteWithMembers }) {
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+  const [showQR, setShowQR] = useState(false);
+  const isActive = invite.status === "ACTIVE";
+
+  const onSuccess = (invites: WorkspaceInviteWithMembers[]) => {
+    queryClient.setQueryData(["/api/workspaces/invites"], invites);
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/workspaces/invites/${invite.id}/rotate`);
+      return res.json() as Promise<WorkspaceInviteWithMembers[]>;
+    },
+    onSuccess: (invites) => {
+      onSuccess(invites);
+      toast({ title: "Link rotated", description: "The old link no longer works." });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/workspaces/invites/${invite.id}/revoke`);
+      return res.json() as Promise<WorkspaceInviteWithMembers[]>;
+    },
+    onSuccess: (invites) => {
+      onSuccess(invites);
+      toast({ title: "Link revoked" });
+    },
+    onError,
+  });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      setCopied(true);
+      toast({ title: "Link copied!", description: "Share this link with pet owners." });
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: "Could not copy", description: "Please copy the link manually.", variant: "destructive" });
+    }
+  };
+
+  const details = [
+    invite.maxUses !== null ? `${invite.useCount} of ${invite.maxUses} uses` : `${invite.useCount} use${invite.useCount !== 1 ? "s" : ""}`,
+    invite.expiresAt ? `${isActive ? "Expires" : "Expired"} ${format(new Date(invite.expiresAt), "MMM d, yyyy")}` : "No expiry",
+  ];
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`row-invite-${invite.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="truncate font-medium">{invite.label}</span>
+            <Badge variant={isActive ? "default" : "secondary"} className="text-xs" data-testid={`badge-invite-status-${invite.id}`}>
+              {INVITE_STATUS_LABELS[invite.status]}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">{details.join(" · ")}</p>
+        </div>
+        <div className="flex shrink-0 gap-1">
+          {invite.status !== "REVOKED" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              data-testid={`button-rotate-invite-${invite.id}`}
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span className="sr-only">Rotate</span>
+            </Button>
+          )}
+          {invite.status !== "REVOKED" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => revokeMutation.mutate()}
+              disabled={revokeMutation.isPending}
+              data-testid={`button-revoke-invite-${invite.id}`}
+            >
+              <Ban className="h-4 w-4" />
+              <span className="sr-only">Revoke</span>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isActive && (
+        <div className="flex gap-2">
+          <div className="flex-1 truncate rounded-md border bg-muted/50 px-3 py-2 text-sm font-mono" data-testid={`text-invite-link-${invite.id}`}>
+            {inviteUrl(invite)}
+          </div>
+          <Button variant="outline" size="icon" onClick={handleCopy} data-testid={`button-copy-invite-${invite.id}`}>
+            {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setShowQR(!showQR)} data-testid={`button-show-qr-${invite.id}`}>
+            <QrCode className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      {isActive && showQR && (
+        <div className="flex justify-center rounded-md border bg-white p-4">
+          <QRCodeSVG value={inviteUrl(invite)} size={200} />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground" data-testid={`text-invite-members-${invite.id}`}>
+        {invite.members.length > 0
+          ? `Joined: ${invite.members.map((member) => displayName(member.user)).join(", ")}`
+          : "No one has joined through this link yet."}
+      </p>
+    </div>
+  );
+}
+
+function NewInviteForm({ onDone }: { onDone: () => void }) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async (input: InviteInput) => {
+      await apiRequest("POST", "/api/workspaces/invites", input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces/invites"] });
+      toast({ title: "Invite link created" });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Links work until the end of the chosen day.
+  const parsed = inviteInputSchema.safeParse({
+    label,
+    expiresAt: expiresOn ? endOfDay(parseISO(expiresOn)).toISOString() : null,
+    maxUses: maxUses ? Number(maxUses) : null,
+  });
+
+  return (
+    <div className="space-y-3 rounded-md border p-3" data-testid="form-new-invite">
+      <div className="space-y-1.5">
+        <Label htmlFor="invite-label">Name</Label>
+        <Input
+          id="invite-label"
+          placeholder="Puppy class March"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          data-testid="input-invite-label"
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="invite-expires">Expires on (optional)</Label>
+          <Input
+            id="invite-expires"
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            data-testid="input-invite-expires"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="invite-max-uses">Max uses (optional)</Label>
+          <Input
+            id="invite-max-uses"
+            type="number"
+            min={1}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            data-testid="input-invite-max-uses"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone} data-testid="button-cancel-invite">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => parsed.success && createMutation.mutate(parsed.data)}
+          disabled={!parsed.success || createMutation.isPending}
+          data-testid="button-create-invite"
+        >
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Create link
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function InviteLinksCard() {
+  const [creating, setCreating] = useState(false);
+
+  const { data: invites } = useQuery<WorkspaceInviteWithMembers[]>({
+    queryKey: ["/api/workspaces/invites"],
+  });
+
+  if (!invites) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <LinkIcon className="h-5 w-5 text-primary" />
+            <CardTitle className="text-base">Invite Pet Owners</CardTitle>
+          </div>
+          {!creating && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => setCreating(true)} data-testid="button-new-invite">
+              <Plus className="h-4 w-4" />
+              New link
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Share a link with pet owners so they can join your workspace. Give each class or campaign its own link, and
+          rotate or revoke one if it gets shared too widely.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {creating && <NewInviteForm onDone={() => setCreating(false)} />}
+        {invites.length > 0 ? (
+          invites.map((invite) => <InviteLinkRow key={invite.id} invite={invite} />)
+        ) : (
+          !creating && <p className="text-sm text-muted-foreground">Create a link to start inviting pet owners.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
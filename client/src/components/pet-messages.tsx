@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Mail, Paperclip, Send, User, X } from "lucide-react";
+import { format } from "date-fns";
+import type { PetMessageWithRelations } from "@shared/schema";
+import { responsiveImageProps, videoSource } from "@shared/media";
+import { VideoThumbnail } from "@/components/video-preview";
+
+interface PetMessagesProps {
+  petId: string;
+  currentUserId?: string;
+}
+
+export function PetMessages({ petId, currentUserId }: PetMessagesProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: messages, isLoading } = useQuery<PetMessageWithRelations[]>({
+    queryKey: ["/api/pets", petId, "messages"],
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/pets/${petId}/messages/read`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/pets", petId, "messages", "unread"], { count: 0 });
+    },
+  });
+
+  useEffect(() => {
+    if (messages) {
+      markReadMutation.mutate();
+      bottomRef.current?.scrollIntoView({ block: "nearest" });
+    }
+  }, [messages?.length]);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("body", body);
+      for (const file of files) {
+        formData.append("files", file);
+      }
+
+      const response = await fetch(`/api/pets/${petId}/messages`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to send message");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "messages"] });
+      setBody("");
+      setFiles([]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send message.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const accepted = selected.filter((file) => {
+      if (file.size > 50 * 1024 * 1024) {
+        toast({
+          title: "File too large",
+          description: `${file.name} is over 50MB.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+      return true;
+    });
+    setFiles((prev) => [...prev, ...accepted].slice(0, 5));
+    if (e.target) e.target.value = "";
+  };
+
+  const canSend = (body.trim().length > 0 || files.length > 0) && !sendMutation.isPending;
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-2/3" />
+            <Skeleton className="ml-auto h-12 w-2/3" />
+          </div>
+        ) : messages && messages.length > 0 ? (
+          <div className="max-h-[28rem] space-y-3 overflow-y-auto" data-testid="list-pet-messages">
+            {messages.map((message) => {
+              const isMine = message.senderId === currentUserId;
+              return (
+                <div
+                  key={message.id}
+                  className={`flex gap-2 ${isMine ? "flex-row-reverse" : ""}`}
+                  data-testid={`message-${message.id}`}
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={message.sender?.profileImageUrl || undefined} />
+                    <AvatarFallback>
+                      <User className="h-4 w-4" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className={`max-w-[75%] space-y-1 ${isMine ? "items-end text-right" : ""}`}>
+                    <p className="text-xs text-muted-foreground">
+                      {message.sender?.firstName || (message.senderRole === "OWNER" ? "Owner" : "Trainer")}
+                      {" · "}
+                      {format(new Date(message.createdAt), "MMM d, h:mm a")}
+                    </p>
+                    {message.body && (
+                      <div
+                        className={`inline-block whitespace-pre-wrap rounded-lg px-3 py-2 text-left text-sm ${isMine ? "bg-primary text-primary-foreground" : "bg-muted"}`}
+                      >
+                        {message.body}
+                      </div>
+                    )}
+                    {message.media && message.media.length > 0 && (
+                      <div className={`flex flex-wrap gap-2 ${isMine ? "justify-end" : ""}`}>
+                        {message.media.map((media) => (
+                          <a
+                            key={media.id}
+                            href={media.mediaType === "VIDEO" ? videoSource(media) : media.filePath}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block h-24 w-24 overflow-hidden rounded-md border hover-elevate"
+                            data-testid={`message-media-${media.id}`}
+                          >
+                            {media.mediaType === "IMAGE" ? (
+                              <img
+                                {...responsiveImageProps(media, "96px")}
+                                loading="lazy"
+                                alt={media.fileName || "Attachment"}
+                                className="h-full w-full object-cover"
+                              />
+                            ) : (
+                              <VideoThumbnail media={media} />
+                            )}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <div ref={bottomRef} />
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <Mail className="mb-3 h-10 w-10 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              No messages yet. Start the conversation below.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center gap-1 rounded-md border bg-muted/30 px-2 py-1 text-xs"
+                >
+                  <span className="max-w-[10rem] truncate">{file.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-message-file-${index}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <Textarea
+            placeholder="Write a message..."
+            className="min-h-16 resize-none"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            data-testid="input-pet-message"
+          />
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,video/*"
+              multiple
+              className="hidden"
+              onChange={handleFileSelect}
+              data-testid="input-pet-message-files"
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={files.length >= 5}
+              data-testid="button-attach-message-file"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+            <div className="flex-1" />
+            <Button
+              type="button"
+              size="sm"
+              disabled={!canSend}
+              onClick={() => sendMutation.mutate()}
+              data-testid="button-send-pet-message"
+            >
+              {sendMutation.isPending ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-1 h-4 w-4" />
+              )}
+              Send
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Moon, BellOff } from "lucide-react";
+import { format } from "date-fns";
+import { SNOOZE_OPTIONS_DAYS, type ReminderSettingsInput } from "@shared/reminders";
+import type { ReminderSettings } from "@shared/schema";
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+interface ReminderSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReminderSettingsDialog({ open, onOpenChange }: ReminderSettingsDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ReminderSettingsInput | null>(null);
+
+  const { data: settings, isLoading } = useQuery<ReminderSettings>({
+    queryKey: ["/api/reminders/settings"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && settings) {
+      setForm({
+        enabled: settings.enabled,
+        reminderTime: settings.reminderTime,
+        quietHoursStart: settings.quietHoursStart,
+        quietHoursEnd: settings.quietHoursEnd,
+        timezone: settings.timezone,
+      });
+    }
+  }, [open, settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: ReminderSettingsInput) => {
+      await apiRequest("PUT", "/api/reminders/settings", input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders/settings"] });
+      toast({ title: "Reminder settings saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save reminder settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: async (days: number | null) => {
+      await apiRequest("POST", "/api/reminders/snooze", { days });
+    },
+    onSuccess: (_, days) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders/settings"] });
+      toast({ title: days ? "Reminders snoozed" : "Reminders resumed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const snoozedUntil = settings?.snoozedUntil ? new Date(settings.snoozedUntil) : null;
+  const isSnoozed = !!snoozedUntil && snoozedUntil > new Date();
+  const quietHoursOn = !!form?.quietHoursStart && !!form?.quietHoursEnd;
+
+  const update = (changes: Partial<ReminderSettingsInput>) => {
+    setForm((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Homework Reminders</DialogTitle>
+          <DialogDescription>
+            We'll remind you on days your pets have homework due, using each task's preferred days or schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !form ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reminders-enabled">Send reminders</Label>
+              <Switch
+                id="reminders-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => update({ enabled: checked })}
+                data-testid="switch-reminders-enabled"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reminder-time">Reminder time</Label>
+              <Input
+                id="reminder-time"
+                type="time"
+                value={form.reminderTime}
+                onChange={(e) => update({ reminderTime: e.target.value })}
+                disabled={!form.enabled}
+                data-testid="input-reminder-time"
+              />
+              <p className="text-xs text-muted-foreground">Times are in {browserTimezone}.</p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="quiet-hours" className="flex items-center gap-1.5">
+                  <Moon className="h-4 w-4" />
+                  Quiet hours
+                </Label>
+                <Switch
+                  id="quiet-hours"
+                  checked={quietHoursOn}
+                  onCheckedChange={(checked) =>
+                    update(checked ? { quietHoursStart: "21:00", quietHoursEnd: "08:00" } : { quietHoursStart: null, quietHoursEnd: null })
+                  }
+                  disabled={!form.enabled}
+                  data-testid="switch-quiet-hours"
+                />
+              </div>
+              {quietHoursOn && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={form.quietHoursStart || ""}
+                    onChange={(e) => update({ quietHoursStart: e.target.value })}
+                    data-testid="input-quiet-hours-start"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    value={form.quietHoursEnd || ""}
+                    onChange={(e) => update({ quietHoursEnd: e.target.value })}
+                    data-testid="input-quiet-hours-end"
+                  />
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1.5">
+                <BellOff className="h-4 w-4" />
+                Snooze
+              </Label>
+              {isSnoozed ? (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-muted-foreground" data-testid="text-snoozed-until">
+                    Snoozed until {format(snoozedUntil!, "EEE, MMM d 'at' h:mm a")}
+                  </p>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => snoozeMutation.mutate(null)}
+                    disabled={snoozeMutation.isPending}
+                    data-testid="button-resume-reminders"
+                  >
+                    Resume
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {SNOOZE_OPTIONS_DAYS.map((days) => (
+                    <Button
+                      key={days}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => snoozeMutation.mutate(days)}
+                      disabled={snoozeMutation.isPending || !form.enabled}
+                      data-testid={`button-snooze-${days}`}
+                    >
+                      {days === 7 ? "1 week" : days === 1 ? "1 day" : `${days} days`}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-reminders">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => form && saveMutation.mutate({ ...form, timezone: browserTimezone })}
+            disabled={!form || saveMutation.isPending}
+            data-testid="button-save-reminders"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Trash2, UserPlus } from "lucide-react";
+import { STAFF_ROLE_LABELS, addStaffInputSchema, type AddStaffInput } from "@shared/staff";
+import { WORKSPACE_STAFF_ROLES, type PetWithRelations, type User, type WorkspaceStaff, type WorkspaceStaffRole } from "@shared/schema";
+
+interface StaffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function displayName(user?: User | null): string {
+  if (!user) return "Unknown";
+  return user.firstName ? `${user.firstName} ${user.lastName || ""}`.trim() : user.email || "Unknown";
+}
+
+export function StaffDialog({ open, onOpenChange }: StaffDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [newStaff, setNewStaff] = useState<AddStaffInput>({ email: "", role: "ASSISTANT" });
+
+  const { data: staff, isLoading, error } = useQuery<WorkspaceStaff>({
+    queryKey: ["/api/workspaces/staff"],
+    enabled: open,
+  });
+
+  const isHeadTrainer = staff?.myRole === "HEAD_TRAINER";
+
+  const { data: pets } = useQuery<PetWithRelations[]>({
+    queryKey: ["/api/pets"],
+    enabled: open && isHeadTrainer,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces/staff"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (input: AddStaffInput) => {
+      await apiRequest("POST", "/api/workspaces/staff", input);
+    },
+    onSuccess: () => {
+      refresh();
+      setNewStaff({ email: "", role: "ASSISTANT" });
+      toast({ title: "Staff member added" });
+    },
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: WorkspaceStaffRole }) => {
+      await apiRequest("PATCH", `/api/workspaces/staff/${memberId}`, { role });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      await apiRequest("DELETE", `/api/workspaces/staff/${memberId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Staff member removed", description: "Their pets have been assigned to you." });
+    },
+    onError,
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (staffSeeAllPets: boolean) => {
+      await apiRequest("PUT", "/api/workspaces/staff-settings", { staffSeeAllPets });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ petId, trainerId }: { petId: string; trainerId: string }) => {
+      await apiRequest("PUT", `/api/pets/${petId}/assigned-trainer`, { trainerId });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const parsedNewStaff = addStaffInputSchema.safeParse(newStaff);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Team</DialogTitle>
+          <DialogDescription>
+            Trainers who work in your workspace. Head trainers manage the team and decide who looks after each pet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Set up your workspace to manage your team.</p>
+        ) : isLoading || !staff ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            <div className="space-y-2">
+              {staff.members.map((member) => (
+                <div key={member.id} className="flex items-center gap-3" data-testid={`row-staff-${member.id}`}>
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.user?.profileImageUrl || undefined} />
+                    <AvatarFallback>{displayName(member.user).charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-medium">{displayName(member.user)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {member.assignedPets} pet{member.assignedPets !== 1 ? "s" : ""}
+                    </div>
+                  </div>
+                  {isHeadTrainer ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => roleMutation.mutate({ memberId: member.id, role: role as WorkspaceStaffRole })}
+                      disabled={roleMutation.isPending}
+                    >
+                      <SelectTrigger className="h-8 w-36" data-testid={`select-staff-role-${member.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSPACE_STAFF_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {STAFF_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {STAFF_ROLE_LABELS[member.role as WorkspaceStaffRole]}
+                    </span>
+                  )}
+                  {isHeadTrainer && member.userId !== user?.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeMutation.mutate(member.id)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-staff-${member.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isHeadTrainer && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="staff-email">Add a trainer</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="staff-email"
+                      type="email"
+                      placeholder="trainer@example.com"
+                      value={newStaff.email}
+                      onChange={(e) => setNewStaff({ ...newStaff, email: e.target.value })}
+                      data-testid="input-staff-email"
+                    />
+                    <Select
+                      value={newStaff.role}
+                      onValueChange={(role) => setNewStaff({ ...newStaff, role: role as WorkspaceStaffRole })}
+                    >
+                      <SelectTrigger className="w-36" data-testid="select-new-staff-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSPACE_STAFF_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {STAFF_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      onClick={() => parsedNewStaff.success && addMutation.mutate(parsedNewStaff.data)}
+                      disabled={!parsedNewStaff.success || addMutation.isPending}
+                      data-testid="button-add-staff"
+                    >
+                      {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                      <span className="sr-only">Add</span>
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">They need to have signed in to PawSync once.</p>
+                </div>
+
+                <Separator />
+
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="staff-see-all-pets">Share clients with assistants</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Assistants can review every pet in the workspace, not just the ones assigned to them.
+                    </p>
+                  </div>
+                  <Switch
+                    id="staff-see-all-pets"
+                    checked={staff.staffSeeAllPets}
+                    onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+                    disabled={settingsMutation.isPending}
+                    data-testid="switch-staff-see-all-pets"
+                  />
+                </div>
+
+                {pets && pets.length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="space-y-2">
+                      <Label>Pet assignments</Label>
+                      {pets.map((pet) => (
+                        <div key={pet.id} className="flex items-center justify-between gap-3" data-testid={`row-pet-assignment-${pet.id}`}>
+                          <div className="min-w-0">
+                            <div className="truncate text-sm">{pet.name}</div>
+                            <div className="truncate text-xs text-muted-foreground">{displayName(pet.owner)}</div>
+                          </div>
+                          <Select
+                            value={pet.trainerId ?? undefined}
+                            onValueChange={(trainerId) => assignMutation.mutate({ petId: pet.id, trainerId })}
+                            disabled={assignMutation.isPending}
+                          >
+                            <SelectTrigger className="h-8 w-44" data-testid={`select-pet-trainer-${pet.id}`}>
+                              <SelectValue placeholder="Unassigned" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {staff.members.map((member) => (
+                                <SelectItem key={member.userId} value={member.userId}>
+                                  {displayName(member.user)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -24,10 +24,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
-import { Loader2, CheckCircle2, MessageCircle, Image, Video, Send, User, Paperclip, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, CheckCircle2, MessageCircle, Image, Video, Send, User, Paperclip, X, AlertCircle, RotateCcw, History, Reply } from "lucide-react";
 import { format } from "date-fns";
-import type { HomeworkSubmissionWithRelations } from "@shared/schema";
+import type { HomeworkSubmissionWithRelations, TrainerCommentWithRelations } from "@shared/schema";
+import { responsiveImageProps, videoSource } from "@shared/media";
+import { SubmissionStatusBadge, submissionStatusLabels } from "@/components/submission-status-badge";
+import { VideoThumbnail } from "@/components/video-preview";
 
 const commentSchema = z.object({
   comment: z.string().min(1, "Comment is required").max(1000),
@@ -35,27 +38,124 @@ const commentSchema = z.object({
 
 type CommentFormData = z.infer<typeof commentSchema>;
 
+const authorRoleLabels: Record<string, string> = {
+  TRAINER: "Trainer",
+  OWNER: "Owner",
+  ADMIN: "Admin",
+};
+
+function authorName(comment: TrainerCommentWithRelations) {
+  if (comment.author?.firstName) {
+    return `${comment.author.firstName} ${comment.author.lastName || ""}`.trim();
+  }
+  return authorRoleLabels[comment.authorRole] || "User";
+}
+
+function CommentCard({
+  comment,
+  onSelectMedia,
+  onReply,
+}: {
+  comment: TrainerCommentWithRelations;
+  onSelectMedia: (filePath: string) => void;
+  onReply: () => void;
+}) {
+  return (
+    <Card data-testid={`comment-${comment.id}`}>
+      <CardContent className="p-3">
+        <div className="flex items-start gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={comment.author?.profileImageUrl || undefined} />
+            <AvatarFallback>
+              <User className="h-4 w-4" />
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{authorName(comment)}</p>
+              <Badge variant={comment.authorRole === "OWNER" ? "outline" : "secondary"} className="text-xs">
+                {authorRoleLabels[comment.authorRole] || comment.authorRole}
+              </Badge>
+            </div>
+            <p className="text-sm">{comment.comment}</p>
+            {comment.media && comment.media.length > 0 && (
+              <div className="grid grid-cols-2 gap-2">
+                {comment.media.map((media) => (
+                  <div 
+                    key={media.id}
+                    className="relative aspect-video cursor-pointer overflow-hidden rounded-md border hover-elevate"
+                    onClick={() => onSelectMedia(media.mediaType === "VIDEO" ? videoSource(media) : media.filePath)}
+                    data-testid={`comment-media-${media.id}`}
+                  >
+                    {media.mediaType === "IMAGE" ? (
+                      <img
+                        {...responsiveImageProps(media, "(min-width: 640px) 240px, 50vw")}
+                        loading="lazy"
+                        alt={media.fileName || "Comment attachment"}
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <VideoThumbnail media={media} />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(comment.createdAt), "MMM d, h:mm a")}
+              </p>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-muted-foreground"
+                onClick={onReply}
+                data-testid={`button-reply-${comment.id}`}
+              >
+                <Reply className="mr-1 h-3 w-3" />
+                Reply
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 interface SubmissionDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   submission: HomeworkSubmissionWithRelations | null;
   isTrainer: boolean;
   petId: string;
+  onResubmit?: (submission: HomeworkSubmissionWithRelations) => void;
 }
 
 export function SubmissionDetailDialog({ 
   open, 
   onOpenChange, 
-  submission, 
+  submission: initialSubmission,
   isTrainer,
-  petId 
+  petId,
+  onResubmit,
 }: SubmissionDetailDialogProps) {
   const { toast } = useToast();
+  const [reviewComment, setReviewComment] = useState("");
+  const [replyTo, setReplyTo] = useState<TrainerCommentWithRelations | null>(null);
   const [selectedMedia, setSelectedMedia] = useState<string | null>(null);
   const [attachedFile, setAttachedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const { data: latestSubmission } = useQuery<HomeworkSubmissionWithRelations>({
+    queryKey: ["/api/submissions", initialSubmission?.id],
+    enabled: open && !!initialSubmission,
+  });
+
+  const submission = latestSubmission || initialSubmission;
+
   const form = useForm<CommentFormData>({
     resolver: zodResolver(commentSchema),
     defaultValues: {
@@ -69,6 +169,9 @@ export function SubmissionDetailDialog({
       
       const formData = new FormData();
       formData.append("comment", data.comment);
+      if (replyTo) {
+        formData.append("parentCommentId", replyTo.id);
+      }
       if (attachedFile) {
         formData.append("file", attachedFile);
       }
@@ -91,9 +194,10 @@ export function SubmissionDetailDialog({
       queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
       toast({
         title: "Comment added!",
-        description: "Your feedback has been sent.",
+        description: isTrainer ? "Your feedback has been sent." : "Your message has been sent.",
       });
       form.reset();
+      setReplyTo(null);
       setAttachedFile(null);
       setFilePreview(null);
     },
@@ -106,6 +210,35 @@ export function SubmissionDetailDialog({
     },
   });
 
+  const reviewMutation = useMutation({
+    mutationFn: async (status: "APPROVED" | "NEEDS_WORK") => {
+      if (!submission) throw new Error("No submission selected");
+      const response = await apiRequest("POST", `/api/submissions/${submission.id}/review`, {
+        status,
+        comment: reviewComment,
+      });
+      return response.json();
+    },
+    onSuccess: (_, status) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timeline", petId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
+      toast({
+        title: status === "APPROVED" ? "Submission approved!" : "Marked as needing work",
+        description: status === "APPROVED"
+          ? "The owner will see your approval."
+          : "The owner can resubmit this task.",
+      });
+      setReviewComment("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review submission.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: CommentFormData) => {
     commentMutation.mutate(data);
   };
@@ -133,6 +266,16 @@ export function SubmissionDetailDialog({
 
   if (!submission) return null;
 
+  const comments = submission.comments || [];
+  const topLevelComments = comments.filter((c) => !c.parentCommentId);
+  const repliesByParent = new Map<string, TrainerCommentWithRelations[]>();
+  for (const comment of comments) {
+    if (!comment.parentCommentId) continue;
+    const replies = repliesByParent.get(comment.parentCommentId) || [];
+    replies.push(comment);
+    repliesByParent.set(comment.parentCommentId, replies);
+  }
+
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -147,6 +290,15 @@ export function SubmissionDetailDialog({
             </DialogDescription>
           </DialogHeader>
 
+          <div className="flex flex-wrap items-center gap-2">
+            <SubmissionStatusBadge status={submission.status} />
+            {submission.resubmissionOf && (
+              <span className="text-xs text-muted-foreground" data-testid="text-resubmission-of">
+                Resubmission of {format(new Date(submission.resubmissionOf.submittedAt), "MMM d")} attempt
+              </span>
+            )}
+          </div>
+
           <div className="space-y-4">
             <div className="flex items-center gap-3">
               <Avatar className="h-10 w-10">
@@ -179,19 +331,47 @@ export function SubmissionDetailDialog({
                     <div 
                       key={media.id}
                       className="relative aspect-square cursor-pointer overflow-hidden rounded-lg border hover-elevate"
-                      onClick={() => setSelectedMedia(media.filePath)}
+                      onClick={() => setSelectedMedia(media.mediaType === "VIDEO" ? videoSource(media) : media.filePath)}
                       data-testid={`media-${media.id}`}
                     >
                       {media.mediaType === "IMAGE" ? (
                         <img
-                          src={media.filePath}
+                          {...responsiveImageProps(media, "(min-width: 640px) 160px, 33vw")}
+                          loading="lazy"
                           alt={media.fileName || "Submission photo"}
                           className="h-full w-full object-cover"
                         />
                       ) : (
-                        <div className="flex h-full w-full items-center justify-center bg-muted">
-                          <Video className="h-8 w-8 text-muted-foreground" />
-                        </div>
+                        <VideoThumbnail media={media} iconClassName="h-8 w-8" />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {submission.statusHistory && submission.statusHistory.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <History className="h-4 w-4 text-muted-foreground" />
+                  <p className="text-sm font-medium">Review History</p>
+                </div>
+                <div className="space-y-2">
+                  {submission.statusHistory.map((event) => (
+                    <div key={event.id} className="rounded-md border p-2 text-sm" data-testid={`review-event-${event.id}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {submissionStatusLabels[event.status] || event.status}
+                          {event.changedBy?.firstName && (
+                            <span className="font-normal text-muted-foreground"> by {event.changedBy.firstName}</span>
+                          )}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(event.createdAt), "MMM d, h:mm a")}
+                        </span>
+                      </div>
+                      {event.comment && (
+                        <p className="mt-1 text-muted-foreground">{event.comment}</p>
                       )}
                     </div>
                   ))}
@@ -199,149 +379,170 @@ export function SubmissionDetailDialog({
               </div>
             )}
 
+            {isTrainer && submission.status !== "RESUBMITTED" && (
+              <div className="space-y-2">
+                <Textarea
+                  placeholder="Optional note with your review..."
+                  className="min-h-10 resize-none"
+                  value={reviewComment}
+                  onChange={(e) => setReviewComment(e.target.value)}
+                  data-testid="input-review-comment"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1 gap-1"
+                    disabled={reviewMutation.isPending || submission.status === "NEEDS_WORK"}
+                    onClick={() => reviewMutation.mutate("NEEDS_WORK")}
+                    data-testid="button-review-needs-work"
+                  >
+                    <AlertCircle className="h-4 w-4" />
+                    Needs Work
+                  </Button>
+                  <Button
+                    type="button"
+                    className="flex-1 gap-1"
+                    disabled={reviewMutation.isPending || submission.status === "APPROVED"}
+                    onClick={() => reviewMutation.mutate("APPROVED")}
+                    data-testid="button-review-approve"
+                  >
+                    <CheckCircle2 className="h-4 w-4" />
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {!isTrainer && submission.status === "NEEDS_WORK" && onResubmit && (
+              <Button
+                type="button"
+                className="w-full gap-2"
+                onClick={() => onResubmit(submission)}
+                data-testid="button-resubmit"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Resubmit
+              </Button>
+            )}
+
             <Separator />
 
             <div className="space-y-3">
               <div className="flex items-center gap-2">
                 <MessageCircle className="h-4 w-4 text-muted-foreground" />
-                <p className="text-sm font-medium">Trainer Feedback</p>
+                <p className="text-sm font-medium">Conversation</p>
               </div>
 
-              {submission.comments && submission.comments.length > 0 ? (
+              {topLevelComments.length > 0 ? (
                 <div className="space-y-3">
-                  {submission.comments.map((comment) => (
-                    <Card key={comment.id} data-testid={`comment-${comment.id}`}>
-                      <CardContent className="p-3">
-                        <div className="flex items-start gap-3">
-                          <Avatar className="h-8 w-8">
-                            <AvatarImage src={comment.trainer?.profileImageUrl || undefined} />
-                            <AvatarFallback>
-                              <User className="h-4 w-4" />
-                            </AvatarFallback>
-                          </Avatar>
-                          <div className="flex-1 space-y-2">
-                            <div className="flex items-center justify-between">
-                              <p className="text-sm font-medium">
-                                {comment.trainer?.firstName ? `${comment.trainer.firstName} ${comment.trainer.lastName || ''}`.trim() : "Trainer"}
-                              </p>
-                              <Badge variant="secondary" className="text-xs">
-                                Trainer
-                              </Badge>
-                            </div>
-                            <p className="text-sm">{comment.comment}</p>
-                            {comment.media && comment.media.length > 0 && (
-                              <div className="grid grid-cols-2 gap-2">
-                                {comment.media.map((media) => (
-                                  <div 
-                                    key={media.id}
-                                    className="relative aspect-video cursor-pointer overflow-hidden rounded-md border hover-elevate"
-                                    onClick={() => setSelectedMedia(media.filePath)}
-                                    data-testid={`comment-media-${media.id}`}
-                                  >
-                                    {media.mediaType === "IMAGE" ? (
-                                      <img
-                                        src={media.filePath}
-                                        alt={media.fileName || "Feedback attachment"}
-                                        className="h-full w-full object-cover"
-                                      />
-                                    ) : (
-                                      <div className="flex h-full w-full items-center justify-center bg-muted">
-                                        <Video className="h-6 w-6 text-muted-foreground" />
-                                      </div>
-                                    )}
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                            <p className="text-xs text-muted-foreground">
-                              {format(new Date(comment.createdAt), "MMM d, h:mm a")}
-                            </p>
-                          </div>
+                  {topLevelComments.map((comment) => (
+                    <div key={comment.id} className="space-y-2">
+                      <CommentCard
+                        comment={comment}
+                        onSelectMedia={setSelectedMedia}
+                        onReply={() => setReplyTo(comment)}
+                      />
+                      {repliesByParent.get(comment.id)?.map((reply) => (
+                        <div key={reply.id} className="ml-8">
+                          <CommentCard
+                            comment={reply}
+                            onSelectMedia={setSelectedMedia}
+                            onReply={() => setReplyTo(comment)}
+                          />
                         </div>
-                      </CardContent>
-                    </Card>
+                      ))}
+                    </div>
                   ))}
                 </div>
               ) : (
                 <p className="text-sm text-muted-foreground">
-                  {isTrainer ? "Add your feedback below." : "No feedback yet."}
+                  {isTrainer ? "Add your feedback below." : "No messages yet. Ask your trainer a question below."}
                 </p>
               )}
 
-              {isTrainer && (
-                <Form {...form}>
-                  <form 
-                    onSubmit={form.handleSubmit(onSubmit)} 
-                    className="space-y-2"
-                  >
-                    <FormField
-                      control={form.control}
-                      name="comment"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Add your feedback..."
-                              className="min-h-10 resize-none"
-                              {...field}
-                              data-testid="input-comment"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    {attachedFile && (
-                      <div className="flex items-center gap-2 rounded-md border bg-muted/30 p-2">
-                        {filePreview ? (
-                          <img src={filePreview} alt="Preview" className="h-10 w-10 rounded object-cover" />
-                        ) : (
-                          <div className="flex h-10 w-10 items-center justify-center rounded bg-muted">
-                            <Video className="h-5 w-5 text-muted-foreground" />
-                          </div>
-                        )}
-                        <span className="flex-1 truncate text-xs text-muted-foreground">{attachedFile.name}</span>
-                        <Button type="button" size="icon" variant="ghost" onClick={removeAttachment} data-testid="button-remove-attachment">
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    )}
-                    <div className="flex items-center gap-2">
-                      <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept="image/*,video/*"
-                        className="hidden"
-                        onChange={handleFileSelect}
-                        data-testid="input-comment-file"
-                      />
-                      <Button
-                        type="button"
-                        size="icon"
-                        variant="outline"
-                        onClick={() => fileInputRef.current?.click()}
-                        data-testid="button-attach-file"
-                      >
-                        <Paperclip className="h-4 w-4" />
+              <Form {...form}>
+                <form 
+                  onSubmit={form.handleSubmit(onSubmit)} 
+                  className="space-y-2"
+                >
+                  {replyTo && (
+                    <div className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-2 py-1 text-xs text-muted-foreground">
+                      <span className="truncate" data-testid="text-replying-to">
+                        Replying to {authorName(replyTo)}: "{replyTo.comment}"
+                      </span>
+                      <Button type="button" size="icon" variant="ghost" className="h-6 w-6" onClick={() => setReplyTo(null)} data-testid="button-cancel-reply">
+                        <X className="h-3 w-3" />
                       </Button>
-                      <div className="flex-1" />
-                      <Button
-                        type="submit"
-                        size="sm"
-                        disabled={commentMutation.isPending}
-                        data-testid="button-send-comment"
-                      >
-                        {commentMutation.isPending ? (
-                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
-                        ) : (
-                          <Send className="mr-1 h-4 w-4" />
-                        )}
-                        Send
+                    </div>
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="comment"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Textarea 
+                            placeholder={isTrainer ? "Add your feedback..." : "Write a message to your trainer..."}
+                            className="min-h-10 resize-none"
+                            {...field}
+                            data-testid="input-comment"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {attachedFile && (
+                    <div className="flex items-center gap-2 rounded-md border bg-muted/30 p-2">
+                      {filePreview ? (
+                        <img src={filePreview} alt="Preview" className="h-10 w-10 rounded object-cover" />
+                      ) : (
+                        <div className="flex h-10 w-10 items-center justify-center rounded bg-muted">
+                          <Video className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                      )}
+                      <span className="flex-1 truncate text-xs text-muted-foreground">{attachedFile.name}</span>
+                      <Button type="button" size="icon" variant="ghost" onClick={removeAttachment} data-testid="button-remove-attachment">
+                        <X className="h-4 w-4" />
                       </Button>
                     </div>
-                  </form>
-                </Form>
-              )}
+                  )}
+                  <div className="flex items-center gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*,video/*"
+                      className="hidden"
+                      onChange={handleFileSelect}
+                      data-testid="input-comment-file"
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="outline"
+                      onClick={() => fileInputRef.current?.click()}
+                      data-testid="button-attach-file"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
+                    <div className="flex-1" />
+                    <Button
+                      type="submit"
+                      size="sm"
+                      disabled={commentMutation.isPending}
+                      data-testid="button-send-comment"
+                    >
+                      {commentMutation.isPending ? (
+                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="mr-1 h-4 w-4" />
+                      )}
+                      Send
+                    </Button>
+                  </div>
+                </form>
+              </Form>
             </div>
           </div>
         </DialogContent>
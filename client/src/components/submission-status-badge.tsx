@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Clock, RotateCcw, AlertCircle } from "lucide-react";
+
+export const submissionStatusLabels: Record<string, string> = {
+  COMPLETED: "Awaiting review",
+  APPROVED: "Approved",
+  NEEDS_WORK: "Needs work",
+  RESUBMITTED: "Resubmitted",
+};
+
+const statusStyles: Record<string, { className: string; icon: typeof Clock }> = {
+  COMPLETED: { className: "text-muted-foreground", icon: Clock },
+  APPROVED: { className: "border-green-500/40 text-green-600 dark:text-green-400", icon: CheckCircle2 },
+  NEEDS_WORK: { className: "border-amber-500/40 text-amber-600 dark:text-amber-400", icon: AlertCircle },
+  RESUBMITTED: { className: "text-muted-foreground", icon: RotateCcw },
+};
+
+export function SubmissionStatusBadge({ status }: { status: string }) {
+  const style = statusStyles[status] || statusStyles.COMPLETED;
+  const Icon = style.icon;
+  return (
+    <Badge variant="outline" className={`text-xs ${style.className}`} data-testid={`badge-submission-status-${status.toLowerCase()}`}>
+      <Icon className="mr-1 h-3 w-3" />
+      {submissionStatusLabels[status] || status}
+    </Badge>
+  );
+}
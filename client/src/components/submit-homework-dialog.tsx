@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useRef, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -29,8 +29,12 @@ import {
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, CheckCircle2, Upload, X, Video } from "lucide-react";
-import type { HomeworkTaskWithRelations } from "@shared/schema";
+import { Loader2, CheckCircle2, Upload } from "lucide-react";
+import type { HomeworkTaskWithRelations, HomeworkSubmissionWithRelations } from "@shared/schema";
+import { responsiveImageProps } from "@shared/media";
+import { VideoPlayer } from "@/components/video-preview";
+import { UploadTile } from "@/components/upload-tile";
+import { useResumableUploads } from "@/hooks/use-resumable-uploads";
 
 const submitHomeworkSchema = z.object({
   taskId: z.string().min(1, "Please select a task"),
@@ -44,19 +48,13 @@ interface SubmitHomeworkDialogProps {
   onOpenChange: (open: boolean) => void;
   petId: string;
   preselectedTask?: HomeworkTaskWithRelations | null;
+  resubmissionOf?: HomeworkSubmissionWithRelations | null;
 }
 
-interface UploadedFile {
-  file: File;
-  preview: string;
-  mediaType: "IMAGE" | "VIDEO";
-}
-
-export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTask }: SubmitHomeworkDialogProps) {
+export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTask, resubmissionOf }: SubmitHomeworkDialogProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
+  const uploads = useResumableUploads(petId);
 
   const { data: tasks } = useQuery<HomeworkTaskWithRelations[]>({
     queryKey: ["/api/tasks", petId],
@@ -76,12 +74,12 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
   useEffect(() => {
     if (open) {
       form.reset({
-        taskId: preselectedTask?.id || "",
+        taskId: resubmissionOf?.taskId || preselectedTask?.id || "",
         note: "",
       });
-      setUploadedFiles([]);
+      uploads.reset();
     }
-  }, [open, preselectedTask]);
+  }, [open, preselectedTask, resubmissionOf]);
 
   const selectedTaskId = form.watch("taskId");
   const selectedTask = activeTasks.find(t => t.id === selectedTaskId);
@@ -90,7 +88,7 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
     const files = event.target.files;
     if (!files) return;
 
-    const newFiles: UploadedFile[] = [];
+    const newFiles: File[] = [];
     for (const file of Array.from(files)) {
       const isVideo = file.type.startsWith("video/");
       const isImage = file.type.startsWith("image/");
@@ -104,68 +102,24 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
         continue;
       }
 
-      if (file.size > 50 * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: "Files must be under 50MB.",
-          variant: "destructive",
-        });
-        continue;
-      }
-
-      newFiles.push({
-        file,
-        preview: URL.createObjectURL(file),
-        mediaType: isVideo ? "VIDEO" : "IMAGE",
-      });
+      newFiles.push(file);
     }
 
-    setUploadedFiles((prev) => [...prev, ...newFiles]);
+    uploads.addFiles(newFiles);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const removeFile = (index: number) => {
-    setUploadedFiles((prev) => {
-      const newFiles = [...prev];
-      URL.revokeObjectURL(newFiles[index].preview);
-      newFiles.splice(index, 1);
-      return newFiles;
-    });
-  };
-
   const submitMutation = useMutation({
     mutationFn: async (data: SubmitHomeworkFormData) => {
-      setIsUploading(true);
-      const mediaData: { filePath: string; mediaType: string; fileName: string }[] = [];
-
-      for (const uploadedFile of uploadedFiles) {
-        const formData = new FormData();
-        formData.append("file", uploadedFile.file);
-
-        const uploadResponse = await fetch("/api/upload", {
-          method: "POST",
-          body: formData,
-          credentials: "include",
-        });
-
-        if (!uploadResponse.ok) {
-          throw new Error("Failed to upload file");
-        }
-
-        const uploadResult = await uploadResponse.json();
-        mediaData.push({
-          filePath: uploadResult.filePath,
-          mediaType: uploadedFile.mediaType,
-          fileName: uploadedFile.file.name,
-        });
-      }
+      const mediaData = uploads.uploadIds.map((uploadId) => ({ uploadId }));
 
       const response = await apiRequest("POST", "/api/submissions", {
         taskId: data.taskId,
         note: data.note || null,
         media: mediaData,
+        resubmissionOfId: resubmissionOf?.id || null,
       });
 
       return response;
@@ -173,12 +127,15 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/timeline", petId] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks", petId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
       toast({
-        title: "Homework submitted!",
-        description: "Great job completing your training task.",
+        title: resubmissionOf ? "Homework resubmitted!" : "Homework submitted!",
+        description: resubmissionOf
+          ? "Your trainer will review the new attempt."
+          : "Great job completing your training task.",
       });
       form.reset();
-      setUploadedFiles([]);
+      uploads.reset();
       onOpenChange(false);
     },
     onError: (error: Error) => {
@@ -188,9 +145,6 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      setIsUploading(false);
-    },
   });
 
   const onSubmit = (data: SubmitHomeworkFormData) => {
@@ -200,8 +154,7 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
   const handleClose = () => {
     if (!submitMutation.isPending) {
       form.reset();
-      uploadedFiles.forEach((file) => URL.revokeObjectURL(file.preview));
-      setUploadedFiles([]);
+      uploads.reset();
       onOpenChange(false);
     }
   };
@@ -212,10 +165,12 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <CheckCircle2 className="h-5 w-5 text-green-500" />
-            Submit Homework
+            {resubmissionOf ? "Resubmit Homework" : "Submit Homework"}
           </DialogTitle>
           <DialogDescription>
-            {preselectedTask
+            {resubmissionOf
+              ? `Send a new attempt for "${resubmissionOf.task?.title || preselectedTask?.title}"`
+              : preselectedTask
               ? `Submit your completion of "${preselectedTask.title}"`
               : "Select a task and submit your completion proof."}
           </DialogDescription>
@@ -229,7 +184,7 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Task *</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={!!resubmissionOf}>
                     <FormControl>
                       <SelectTrigger data-testid="select-task">
                         <SelectValue placeholder="Select a task..." />
@@ -256,16 +211,13 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
                     <div key={media.id} className="aspect-square overflow-hidden rounded-md border">
                       {media.mediaType === "IMAGE" ? (
                         <img
-                          src={media.filePath}
+                          {...responsiveImageProps(media, "(min-width: 640px) 160px, 33vw")}
+                          loading="lazy"
                           alt={media.fileName || "Demo"}
                           className="h-full w-full object-cover"
                         />
                       ) : (
-                        <video
-                          src={media.filePath}
-                          className="h-full w-full object-cover"
-                          controls
-                        />
+                        <VideoPlayer media={media} className="h-full w-full object-cover" />
                       )}
                     </div>
                   ))}
@@ -304,36 +256,22 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
                 data-testid="input-file"
               />
               
-              {uploadedFiles.length > 0 && (
+              {uploads.items.length > 0 && (
                 <div className="grid grid-cols-3 gap-2">
-                  {uploadedFiles.map((file, index) => (
-                    <div 
-                      key={index} 
-                      className="relative aspect-square overflow-hidden rounded-lg border"
-                    >
-                      {file.mediaType === "IMAGE" ? (
-                        <img
-                          src={file.preview}
-                          alt={`Upload ${index + 1}`}
-                          className="h-full w-full object-cover"
-                        />
-                      ) : (
-                        <div className="flex h-full w-full items-center justify-center bg-muted">
-                          <Video className="h-8 w-8 text-muted-foreground" />
-                        </div>
-                      )}
-                      <button
-                        type="button"
-                        onClick={() => removeFile(index)}
-                        className="absolute right-1 top-1 rounded-full bg-destructive p-1 text-destructive-foreground"
-                        data-testid={`button-remove-file-${index}`}
-                      >
-                        <X className="h-3 w-3" />
-                      </button>
-                    </div>
+                  {uploads.items.map((item, index) => (
+                    <UploadTile
+                      key={item.id}
+                      item={item}
+                      onRetry={() => uploads.retry(item.id)}
+                      onRemove={() => uploads.remove(item.id)}
+                      testId={`upload-file-${index}`}
+                    />
                   ))}
                 </div>
               )}
+              {uploads.hasFailed && (
+                <p className="text-xs text-destructive">Retry or remove the files that failed to upload.</p>
+              )}
 
               <Button
                 type="button"
@@ -361,13 +299,13 @@ export function SubmitHomeworkDialog({ open, onOpenChange, petId, preselectedTas
               <Button
                 type="submit"
                 className="flex-1 gap-2"
-                disabled={submitMutation.isPending}
+                disabled={submitMutation.isPending || uploads.isUploading || uploads.hasFailed}
                 data-testid="button-submit-homework"
               >
-                {submitMutation.isPending ? (
+                {submitMutation.isPending || uploads.isUploading ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    {isUploading ? "Uploading..." : "Submitting..."}
+                    {uploads.isUploading ? "Uploading..." : "Submitting..."}
                   </>
                 ) : (
                   <>
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { MAX_UPLOAD_MB_LIMIT, formatBytes, uploadSettingsInputSchema, type UploadSettingsInput } from "@shared/media";
+import type { WorkspaceStorageUsage } from "@shared/schema";
+
+interface UploadSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UploadSettingsDialog({ open, onOpenChange }: UploadSettingsDialogProps) {
+  const { toast } = useToast();
+  const [maxUploadMb, setMaxUploadMb] = useState("");
+
+  const { data: settings, isLoading, error } = useQuery<UploadSettingsInput>({
+    queryKey: ["/api/workspaces/upload-settings"],
+    enabled: open,
+  });
+
+  const { data: usage } = useQuery<WorkspaceStorageUsage>({
+    queryKey: ["/api/workspaces/storage-usage"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && settings) {
+      setMaxUploadMb(String(settings.maxUploadMb));
+    }
+  }, [open, settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: UploadSettingsInput) => {
+      await apiRequest("PUT", "/api/workspaces/upload-settings", input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces/upload-settings"] });
+      toast({ title: "Upload settings saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save upload settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parsed = uploadSettingsInputSchema.safeParse({ maxUploadMb: Number(maxUploadMb) });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Storage & Uploads</DialogTitle>
+          <DialogDescription>
+            How much space your clients' photos and videos use, and the largest file that can be attached.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Set up your workspace to change upload settings.</p>
+        ) : isLoading || !settings ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            {usage && (
+              <div className="space-y-3" data-testid="section-storage-usage">
+                <div className="space-y-1.5">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">Storage used</span>
+                    <span className="text-muted-foreground" data-testid="text-storage-used">
+                      {formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)}
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)} className="h-2" />
+                </div>
+                {usage.pets.length > 0 ? (
+                  <div className="max-h-48 space-y-1 overflow-y-auto">
+                    {usage.pets.map((pet) => (
+                      <div
+                        key={pet.petId}
+                        className="flex items-center justify-between gap-2 text-sm"
+                        data-testid={`row-pet-storage-${pet.petId}`}
+                      >
+                        <span className="truncate">{pet.petName}</span>
+                        <span className="shrink-0 text-muted-foreground">
+                          {formatBytes(pet.bytes)} · {pet.files} file{pet.files !== 1 ? "s" : ""}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No pets in your workspace yet.</p>
+                )}
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="max-upload-mb">Maximum file size (MB)</Label>
+              <Input
+                id="max-upload-mb"
+                type="number"
+                min={1}
+                max={MAX_UPLOAD_MB_LIMIT}
+                value={maxUploadMb}
+                onChange={(e) => setMaxUploadMb(e.target.value)}
+                data-testid="input-max-upload-mb"
+              />
+              <p className="text-xs text-muted-foreground">
+                Up to {MAX_UPLOAD_MB_LIMIT} MB. Large videos upload in chunks and resume after a dropped connection.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-upload-settings">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => parsed.success && saveMutation.mutate(parsed.data)}
+            disabled={!settings || !parsed.success || saveMutation.isPending}
+            data-testid="button-save-upload-settings"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { AlertCircle, RotateCw, Video, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { UploadItem } from "@/hooks/use-resumable-uploads";
+
+// Preview square for a file picked in a dialog, with its upload progress and a
+// retry button if it failed.
+export function UploadTile({
+  item,
+  onRetry,
+  onRemove,
+  testId,
+}: {
+  item: UploadItem;
+  onRetry: () => void;
+  onRemove: () => void;
+  testId: string;
+}) {
+  return (
+    <div
+      className={cn(
+        "relative aspect-square overflow-hidden rounded-lg border",
+        item.status !== "done" && "border-dashed",
+        item.status === "error" && "border-destructive",
+      )}
+      data-testid={testId}
+    >
+      {item.mediaType === "IMAGE" ? (
+        <img src={item.preview} alt={item.file.name} className="h-full w-full object-cover" />
+      ) : (
+        <div className="flex h-full w-full items-center justify-center bg-muted">
+          <Video className="h-8 w-8 text-muted-foreground" />
+        </div>
+      )}
+
+      {item.status === "uploading" && (
+        <div className="absolute inset-x-0 bottom-0 space-y-1 bg-black/60 p-1.5">
+          <Progress value={item.progress} className="h-1.5" />
+          <p className="text-center text-[10px] font-medium text-white">{item.progress}%</p>
+        </div>
+      )}
+
+      {item.status === "error" && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-black/60 p-2 text-center">
+          <AlertCircle className="h-4 w-4 text-white" />
+          <p className="line-clamp-2 text-[10px] text-white" title={item.error}>
+            {item.error}
+          </p>
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={onRetry}
+            data-testid={`${testId}-retry`}
+          >
+            <RotateCw className="h-3 w-3" />
+            Retry
+          </Button>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute right-1 top-1 rounded-full bg-destructive p-1 text-destructive-foreground"
+        data-testid={`${testId}-remove`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Loader2, Play, Video } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatVideoDuration, isMediaProcessing, videoSource, type PlayableMedia } from "@shared/media";
+
+function ProcessingBadge({ compact = false }: { compact?: boolean }) {
+  return (
+    <span
+      className="absolute left-1 top-1 flex items-center gap-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] font-medium text-white"
+      data-testid="badge-video-processing"
+    >
+      <Loader2 className="h-3 w-3 animate-spin" />
+      {!compact && "Processing"}
+    </span>
+  );
+}
+
+// Inline player. While the transcode is running the original upload is played,
+// which works in browsers that support its format.
+export function VideoPlayer({ media, className }: { media: PlayableMedia; className?: string }) {
+  return (
+    <div className="relative h-full w-full">
+      <video
+        src={videoSource(media)}
+        poster={media.posterPath || undefined}
+        preload="metadata"
+        className={className}
+        controls
+      />
+      {isMediaProcessing(media) && <ProcessingBadge />}
+    </div>
+  );
+}
+
+// Static preview for grids and attachment strips: the poster frame with the
+// duration once processed, otherwise a video icon.
+export function VideoThumbnail({
+  media,
+  iconClassName = "h-6 w-6",
+  compact = false,
+}: {
+  media: PlayableMedia;
+  iconClassName?: string;
+  compact?: boolean;
+}) {
+  return (
+    <div className="relative flex h-full w-full items-center justify-center bg-muted">
+      {media.posterPath ? (
+        <>
+          <img src={media.posterPath} alt="" loading="lazy" className="h-full w-full object-cover" />
+          <span className="absolute inset-0 flex items-center justify-center">
+            <Play className={cn("fill-white text-white drop-shadow", iconClassName)} />
+          </span>
+        </>
+      ) : (
+        <Video className={cn("text-muted-foreground", iconClassName)} />
+      )}
+      {media.durationMs ? (
+        <span className="absolute bottom-1 right-1 rounded bg-black/60 px-1 text-[10px] font-medium text-white">
+          {formatVideoDuration(media.durationMs)}
+        </span>
+      ) : null}
+      {isMediaProcessing(media) && <ProcessingBadge compact={compact} />}
+    </div>
+  );
+}
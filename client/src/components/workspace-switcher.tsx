@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { MEMBERSHIP_ROLE_LABELS } from "@shared/staff";
+
+// Shown to people in more than one workspace, e.g. a trainer whose own dog is
+// in a colleague's class. Switching changes the role the app uses everywhere.
+export function WorkspaceSwitcher() {
+  const { workspace, switchWorkspace } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (!workspace || workspace.memberships.length < 2) {
+    return null;
+  }
+
+  const handleChange = async (workspaceId: string) => {
+    setIsSwitching(true);
+    try {
+      await switchWorkspace(workspaceId);
+      queryClient.invalidateQueries();
+      navigate("/dashboard");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to switch workspace",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <Select value={workspace.activeWorkspaceId ?? undefined} onValueChange={handleChange} disabled={isSwitching}>
+      <SelectTrigger className="h-9 w-44 sm:w-56" data-testid="select-workspace">
+        <SelectValue placeholder="Choose a workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {workspace.memberships.map((membership) => (
+          <SelectItem
+            key={membership.workspaceId}
+            value={membership.workspaceId}
+            data-testid={`option-workspace-${membership.workspaceId}`}
+          >
+            {membership.name} · {MEMBERSHIP_ROLE_LABELS[membership.role] ?? membership.role}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { PET_EVENT_TYPES, type PetEvent } from "@shared/schema";
+
+// Keeps an open pet page in sync with changes made by the other participant
+// by invalidating the queries each server-sent event affects.
+export function usePetEvents(petId: string | undefined) {
+  useEffect(() => {
+    if (!petId || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(`/api/pets/${petId}/events`, { withCredentials: true });
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      let event: PetEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/timeline", petId] });
+
+      if (event.type.startsWith("task.")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks", petId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "programs"] });
+      }
+
+      // A finished transcode can land in task demos, submissions, comments or chat.
+      if (event.type === "media.processed") {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks", petId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "messages"] });
+      }
+
+      if (event.submissionId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/submissions", event.submissionId] });
+      }
+    };
+
+    for (const type of PET_EVENT_TYPES) {
+      source.addEventListener(type, handleEvent);
+    }
+
+    return () => {
+      source.close();
+    };
+  }, [petId]);
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError, uploadResumable } from "@/lib/resumable-upload";
+import type { UploadedMedia } from "@shared/media";
+
+export type UploadItemStatus = "uploading" | "done" | "error";
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  preview: string;
+  mediaType: "IMAGE" | "VIDEO";
+  progress: number;
+  status: UploadItemStatus;
+  error?: string;
+  uploadId?: string;
+  media?: UploadedMedia;
+}
+
+let nextItemId = 0;
+
+// Starts uploading files as soon as they're picked so a long video is already
+// on the server by the time the form is submitted. Each file reports its own
+// progress and can be retried on its own.
+export function useResumableUploads(petId: string) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const updateItem = useCallback((id: string, updates: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  }, []);
+
+  const start = useCallback(
+    (item: UploadItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      updateItem(item.id, { status: "uploading", error: undefined });
+
+      uploadResumable(item.file, {
+        petId,
+        signal: controller.signal,
+        onProgress: (uploaded, total) => updateItem(item.id, { progress: total ? Math.round((uploaded / total) * 100) : 100 }),
+      })
+        .then(({ uploadId, media }) => updateItem(item.id, { status: "done", progress: 100, uploadId, media }))
+        .catch((error: Error) => {
+          if (isAbortError(error)) return;
+          updateItem(item.id, { status: "error", error: error.message || "Upload failed" });
+        })
+        .finally(() => {
+          if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+        });
+    },
+    [petId, updateItem],
+  );
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      const added = files.map<UploadItem>((file) => ({
+        id: `upload-${nextItemId++}`,
+        file,
+        preview: URL.createObjectURL(file),
+        mediaType: file.type.startsWith("video/") ? "VIDEO" : "IMAGE",
+        progress: 0,
+        status: "uploading",
+      }));
+      setItems((prev) => [...prev, ...added]);
+      added.forEach(start);
+    },
+    [start],
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      const item = items.find((i) => i.id === id);
+      if (item && item.status === "error") start(item);
+    },
+    [items, start],
+  );
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+    setItems((prev) => {
+      const item = prev.find((i) => i.id === id);
+      if (item) URL.revokeObjectURL(item.preview);
+      return prev.filter((i) => i.id !== id);
+    });
+  }, []);
+
+  // Cancels anything still in flight, e.g. when the dialog is closed.
+  const reset = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort());
+    controllers.current.clear();
+    setItems((prev) => {
+      prev.forEach((item) => URL.revokeObjectURL(item.preview));
+      return [];
+    });
+  }, []);
+
+  useEffect(() => () => controllers.current.forEach((controller) => controller.abort()), []);
+
+  return {
+    items,
+    addFiles,
+    retry,
+    remove,
+    reset,
+    isUploading: items.some((item) => item.status === "uploading"),
+    hasFailed: items.some((item) => item.status === "error"),
+    uploadIds: items.flatMap((item) => (item.uploadId ? [item.uploadId] : [])),
+  };
+}
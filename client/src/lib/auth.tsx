@@ -1,20 +1,34 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
-import type { User } from "@shared/schema";
+import type { User, WorkspaceContext } from "@shared/schema";
 
 interface AuthContextType {
   user: User | null;
+  // Role in the active workspace (TRAINER, OWNER or ADMIN); use this rather
+  // than user.role, which is only the role the user signed up with.
+  role: string | null;
+  workspace: WorkspaceContext | null;
   isLoading: boolean;
-  login: () => void;
+  // Pass returnTo to come back to the current page after signing in.
+  login: (returnTo?: string) => void;
   logout: () => void;
   refetchUser: () => Promise<void>;
+  switchWorkspace: (workspaceId: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [workspace, setWorkspace] = useState<WorkspaceContext | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  const fetchWorkspaceContext = async () => {
+    const response = await fetch("/api/workspaces/context", {
+      credentials: "include",
+    });
+    setWorkspace(response.ok ? await response.json() : null);
+  };
+
   const fetchUser = async () => {
     try {
       const response = await fetch("/api/auth/user", {
@@ -22,12 +36,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
       if (response.ok) {
         const userData = await response.json();
+        await fetchWorkspaceContext();
         setUser(userData);
       } else {
         setUser(null);
+        setWorkspace(null);
       }
     } catch {
       setUser(null);
+      setWorkspace(null);
     } finally {
       setIsLoading(false);
     }
@@ -37,8 +54,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     fetchUser();
   }, []);
 
-  const login = () => {
-    window.location.href = "/api/login";
+  const login = (returnTo?: string) => {
+    window.location.href = returnTo ? `/api/login?returnTo=${encodeURIComponent(returnTo)}` : "/api/login";
   };
 
   const logout = () => {
@@ -49,8 +66,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await fetchUser();
   };
 
+  const switchWorkspace = async (workspaceId: string) => {
+    const response = await fetch("/api/workspaces/active", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workspaceId }),
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || "Failed to switch workspace");
+    }
+    setWorkspace(await response.json());
+  };
+
+  const role = workspace ? workspace.role : user?.role ?? null;
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout, refetchUser }}>
+    <AuthContext.Provider value={{ user, role, workspace, isLoading, login, logout, refetchUser, switchWorkspace }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,220 @@
+import { RESUMABLE_CHUNK_BYTES, type UploadedMedia } from "@shared/media";
+
+// Client for the server's tus-style /api/uploads endpoints. Files are sent in
+// chunks; a dropped connection is retried from the last byte the server has,
+// and the upload id is kept in localStorage so a reload can pick up where it
+// left off.
+
+const STORAGE_PREFIX = "pawsync-upload:";
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 20000];
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+interface UploadStatus {
+  id: string;
+  offset: number;
+  completed: boolean;
+  media: UploadedMedia | null;
+}
+
+export interface CompletedUpload {
+  uploadId: string;
+  media: UploadedMedia;
+}
+
+export interface ResumableUploadOptions {
+  petId: string;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+function storageKey(petId: string, file: File): string {
+  return `${STORAGE_PREFIX}${petId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function abortError(): DOMException {
+  return new DOMException("Upload cancelled", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+}
+
+async function createUpload(file: File, petId: string, signal?: AbortSignal): Promise<UploadStatus> {
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ petId, fileName: file.name, mimeType: file.type, size: file.size }),
+    credentials: "include",
+    signal,
+  });
+  if (!res.ok) {
+    throw new UploadError(await errorMessage(res, "Failed to start upload"), res.status >= 500);
+  }
+  return res.json();
+}
+
+// Where the server says the upload stands, or null if it no longer exists.
+async function fetchOffset(id: string, signal?: AbortSignal): Promise<number | null> {
+  const res = await fetch(`/api/uploads/${id}`, { method: "HEAD", credentials: "include", signal });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new UploadError("Failed to check upload progress", true);
+  return Number(res.headers.get("Upload-Offset") || 0);
+}
+
+async function fetchStatus(id: string, signal?: AbortSignal): Promise<UploadStatus> {
+  const res = await fetch(`/api/uploads/${id}`, { credentials: "include", signal });
+  if (!res.ok) throw new UploadError(await errorMessage(res, "Failed to check upload progress"), res.status >= 500);
+  return res.json();
+}
+
+// XHR rather than fetch so progress is reported within a chunk.
+function sendChunk(
+  id: string,
+  offset: number,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<UploadStatus> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", `/api/uploads/${id}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    xhr.responseType = "json";
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      settle();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as UploadStatus);
+      } else if (xhr.status === 409) {
+        // The server has a different offset; the caller re-syncs and continues.
+        resolve({ id, offset: Number(xhr.getResponseHeader("Upload-Offset") || 0), completed: false, media: null });
+      } else {
+        const message = (xhr.response as { message?: string } | null)?.message || "Failed to upload chunk";
+        reject(new UploadError(message, xhr.status >= 500 || xhr.status === 423));
+      }
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new UploadError("Network error while uploading", true));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(abortError());
+    };
+
+    xhr.send(chunk);
+  });
+}
+
+// Uploads a file, resuming a previous attempt for the same file and pet if the
+// server still has it. Resolves with the stored media, ready to attach to a
+// submission or message, and the upload id that task media is attached by.
+export async function uploadResumable(file: File, options: ResumableUploadOptions): Promise<CompletedUpload> {
+  const { petId, onProgress, signal } = options;
+  const key = storageKey(petId, file);
+  let id: string | null = null;
+  let offset = 0;
+
+  try {
+    const savedId = localStorage.getItem(key);
+    if (savedId) {
+      const savedOffset = await fetchOffset(savedId, signal);
+      if (savedOffset === null) {
+        localStorage.removeItem(key);
+      } else {
+        id = savedId;
+        offset = savedOffset;
+      }
+    }
+
+    if (!id) {
+      const created = await createUpload(file, petId, signal);
+      id = created.id;
+      offset = created.offset;
+      localStorage.setItem(key, id);
+    }
+
+    onProgress?.(offset, file.size);
+    let attempt = 0;
+    while (true) {
+      // Every byte is already there, e.g. the page reloaded as the last chunk
+      // finished. If the server couldn't store the file yet (the virus scanner
+      // was down), the empty chunk below asks it to try again.
+      if (offset >= file.size) {
+        const status = await fetchStatus(id, signal);
+        if (status.completed && status.media) {
+          localStorage.removeItem(key);
+          return { uploadId: id, media: status.media };
+        }
+      }
+
+      const chunk = file.slice(offset, Math.min(offset + RESUMABLE_CHUNK_BYTES, file.size));
+      try {
+        const chunkStart = offset;
+        const status = await sendChunk(id, offset, chunk, (loaded) => onProgress?.(chunkStart + loaded, file.size), signal);
+        if (status.completed && status.media) {
+          localStorage.removeItem(key);
+          onProgress?.(file.size, file.size);
+          return { uploadId: id, media: status.media };
+        }
+        offset = status.offset;
+        attempt = 0;
+      } catch (error) {
+        if (!(error instanceof UploadError) || !error.retryable || attempt >= RETRY_DELAYS_MS.length) {
+          throw error;
+        }
+        await wait(RETRY_DELAYS_MS[attempt++], signal);
+        const serverOffset = await fetchOffset(id, signal).catch(() => offset);
+        if (serverOffset === null) {
+          // Expired, or the server refused the file (wrong type or flagged by the virus scanner).
+          localStorage.removeItem(key);
+          throw new UploadError(error.message || "Upload expired, please try again", false);
+        }
+        offset = serverOffset;
+      }
+      onProgress?.(offset, file.size);
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      // Cancelled by the user: free the staged bytes on the server.
+      localStorage.removeItem(key);
+      if (id) fetch(`/api/uploads/${id}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+    }
+    throw error;
+  }
+}
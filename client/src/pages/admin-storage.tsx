@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, HardDrive, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { DEFAULT_STORAGE_QUOTA_MB, formatBytes, type StorageQuotaInput } from "@shared/media";
+import type { ReclaimedMediaReport, WorkspaceStorageUsage } from "@shared/schema";
+
+const reasonLabels: Record<string, string> = {
+  ORPHANED: "Orphaned upload",
+  DELETED: "Deleted media",
+};
+
+type ReconcileResult = {
+  checked: number;
+  reclaimedFiles: number;
+  reclaimedBytes: number;
+};
+
+function StatCard({ title, bytes, files, testId }: { title: string; bytes: number; files: number; testId: string }) {
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{formatBytes(bytes)}</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 text-sm text-muted-foreground">
+        {files} file{files !== 1 ? "s" : ""}
+      </CardContent>
+    </Card>
+  );
+}
+
+function QuotaEditor({ usage }: { usage: WorkspaceStorageUsage }) {
+  const { toast } = useToast();
+  const currentMb = Math.round(usage.quotaBytes / (1024 * 1024));
+  const [quotaMb, setQuotaMb] = useState(String(currentMb));
+
+  useEffect(() => {
+    setQuotaMb(String(currentMb));
+  }, [currentMb]);
+
+  const quotaMutation = useMutation({
+    mutationFn: async (input: StorageQuotaInput) => {
+      await apiRequest("PUT", `/api/admin/workspaces/${usage.workspaceId}/storage-quota`, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/workspaces/storage"] });
+      toast({ title: "Quota updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const value = Number(quotaMb);
+  const isValid = Number.isInteger(value) && value >= 1;
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <Input
+        type="number"
+        min={1}
+        value={quotaMb}
+        onChange={(e) => setQuotaMb(e.target.value)}
+        className="h-8 w-24"
+        aria-label="Quota in MB"
+        data-testid={`input-quota-${usage.workspaceId}`}
+      />
+      <span className="text-xs text-muted-foreground">MB</span>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => quotaMutation.mutate({ storageQuotaMb: value === DEFAULT_STORAGE_QUOTA_MB ? null : value })}
+        disabled={!isValid || value === currentMb || quotaMutation.isPending}
+        data-testid={`button-save-quota-${usage.workspaceId}`}
+      >
+        {quotaMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+      </Button>
+    </div>
+  );
+}
+
+export default function AdminStorage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<ReclaimedMediaReport>({
+    queryKey: ["/api/admin/media/reclaimed"],
+  });
+
+  const { data: workspaceUsage, isLoading: isUsageLoading } = useQuery<WorkspaceStorageUsage[]>({
+    queryKey: ["/api/admin/workspaces/storage"],
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/media/reconcile");
+      return (await res.json()) as ReconcileResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/media/reclaimed"] });
+      toast({
+        title: "Cleanup finished",
+        description:
+          result.reclaimedFiles > 0
+            ? `Removed ${result.reclaimedFiles} orphaned upload${result.reclaimedFiles !== 1 ? "s" : ""} (${formatBytes(result.reclaimedBytes)}).`
+            : `Checked ${result.checked} upload${result.checked !== 1 ? "s" : ""}, nothing to remove.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto flex h-16 items-center justify-between gap-4 px-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")} data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <span className="text-xl font-bold">Media Storage</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Workspace usage</CardTitle>
+            <CardDescription>
+              Media stored for each trainer's pets. Uploads that would go over the quota are refused.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isUsageLoading || !workspaceUsage ? (
+              <Skeleton className="h-32 w-full" />
+            ) : workspaceUsage.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No workspaces yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Workspace</TableHead>
+                    <TableHead className="text-right">Pets</TableHead>
+                    <TableHead className="w-[220px]">Used</TableHead>
+                    <TableHead className="text-right">Quota</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workspaceUsage.map((usage) => (
+                    <TableRow key={usage.workspaceId} data-testid={`row-workspace-storage-${usage.workspaceId}`}>
+                      <TableCell>
+                        <div className="font-medium">{usage.workspaceName}</div>
+                        {usage.trainerName && <div className="text-xs text-muted-foreground">{usage.trainerName}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{usage.pets.length}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <Progress value={Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)} className="h-2" />
+                          <div className="text-xs text-muted-foreground">
+                            {formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)} · {usage.files} file
+                            {usage.files !== 1 ? "s" : ""}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <QuotaEditor usage={usage} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl font-bold">
+              <HardDrive className="h-6 w-6 text-muted-foreground" />
+              Reclaimed space
+            </h1>
+            <p className="text-muted-foreground">
+              Files removed when media is deleted, and uploads that were never attached to anything.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => reconcileMutation.mutate()}
+            disabled={reconcileMutation.isPending}
+            data-testid="button-run-cleanup"
+          >
+            {reconcileMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+            Clean up orphans now
+          </Button>
+        </div>
+
+        {isLoading || !report ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <StatCard title="Total reclaimed" bytes={report.totalBytes} files={report.totalFiles} testId="stat-total-reclaimed" />
+              <StatCard
+                title="Last 30 days"
+                bytes={report.last30Days.bytes}
+                files={report.last30Days.files}
+                testId="stat-recent-reclaimed"
+              />
+              <StatCard
+                title="Orphaned uploads"
+                bytes={report.byReason.ORPHANED.bytes}
+                files={report.byReason.ORPHANED.files}
+                testId="stat-orphaned-reclaimed"
+              />
+              <StatCard
+                title="Deleted media"
+                bytes={report.byReason.DELETED.bytes}
+                files={report.byReason.DELETED.files}
+                testId="stat-deleted-reclaimed"
+              />
+            </div>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Recently removed</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.recent.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No files have been removed yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>File</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Size</TableHead>
+                        <TableHead className="text-right">Removed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.recent.map((item) => (
+                        <TableRow key={item.id} data-testid={`row-reclaimed-${item.id}`}>
+                          <TableCell className="max-w-[240px] truncate font-mono text-xs">{item.filePath}</TableCell>
+                          <TableCell>
+                            <Badge variant={item.reason === "ORPHANED" ? "secondary" : "outline"}>
+                              {reasonLabels[item.reason] || item.reason}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{formatBytes(item.bytes)}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {format(new Date(item.reclaimedAt), "MMM d, h:mm a")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -8,8 +8,14 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/lib/auth";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { useToast } from "@/hooks/use-toast";
-import { QRCodeSVG } from "qrcode.react";
+import { NotificationBell } from "@/components/notification-bell";
+import { EmailPreferencesDialog } from "@/components/email-preferences-dialog";
+import { ReminderSettingsDialog } from "@/components/reminder-settings-dialog";
+import { UploadSettingsDialog } from "@/components/upload-settings-dialog";
+import { StaffDialog } from "@/components/staff-dialog";
+import { WorkspaceSwitcher } from "@/components/workspace-switcher";
+import { InviteLinksCard } from "@/components/invite-links-card";
+import { ClientInvitationsCard } from "@/components/client-invitations-card";
 import {
   PawPrint,
   Plus,
@@ -20,10 +26,12 @@ import {
   Rabbit,
   ClipboardList,
   User,
-  Copy,
-  Check,
-  QrCode,
-  LinkIcon
+  Mail,
+  AlarmClock,
+  Newspaper,
+  HardDrive,
+  FileUp,
+  Users
 } from "lucide-react";
 import type { PetWithRelations } from "@shared/schema";
 
@@ -33,11 +41,12 @@ const speciesIcons: Record<string, typeof Dog> = {
   rabbit: Rabbit,
 };
 
-function PetCard({ pet, userRole }: { pet: PetWithRelations; userRole: string }) {
+function PetCard({ pet, userRole, userId }: { pet: PetWithRelations; userRole: string; userId?: string }) {
   const [, navigate] = useLocation();
   const SpeciesIcon = speciesIcons[pet.species?.toLowerCase() || ""] || PawPrint;
   const showOwner = userRole === "TRAINER" || userRole === "ADMIN";
-  const showTrainer = userRole === "OWNER" || userRole === "ADMIN";
+  // Trainers see who looks after pets assigned to their colleagues.
+  const showTrainer = userRole === "OWNER" || userRole === "ADMIN" || (userRole === "TRAINER" && pet.trainerId !== userId);
 
   return (
     <Card 
@@ -111,79 +120,24 @@ function PetCardSkeleton() {
   );
 }
 
-function InviteSection() {
-  const { toast } = useToast();
-  const [copied, setCopied] = useState(false);
-  const [showQR, setShowQR] = useState(false);
-
-  const { data: invite } = useQuery<{ inviteToken: string; workspaceId: string; businessName: string | null }>({
-    queryKey: ["/api/workspaces/invite"],
-  });
-
-  if (!invite) return null;
-
-  const inviteUrl = `${window.location.origin}/join?token=${invite.inviteToken}`;
-
-  const handleCopy = async () => {
-    try {
-      await navigator.clipboard.writeText(inviteUrl);
-      setCopied(true);
-      toast({ title: "Link copied!", description: "Share this link with pet owners." });
-      setTimeout(() => setCopied(false), 2000);
-    } catch {
-      toast({ title: "Could not copy", description: "Please copy the link manually.", variant: "destructive" });
-    }
-  };
-
-  return (
-    <Card className="mb-6">
-      <CardHeader className="pb-3">
-        <div className="flex items-center gap-2">
-          <LinkIcon className="h-5 w-5 text-primary" />
-          <CardTitle className="text-base">Invite Pet Owners</CardTitle>
-        </div>
-        <CardDescription>
-          Share this link with pet owners so they can join your workspace.
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-3">
-        <div className="flex gap-2">
-          <div className="flex-1 truncate rounded-md border bg-muted/50 px-3 py-2 text-sm font-mono" data-testid="text-invite-link">
-            {inviteUrl}
-          </div>
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={handleCopy}
-            data-testid="button-copy-invite"
-          >
-            {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
-          </Button>
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={() => setShowQR(!showQR)}
-            data-testid="button-show-qr"
-          >
-            <QrCode className="h-4 w-4" />
-          </Button>
-        </div>
-        {showQR && (
-          <div className="flex justify-center rounded-md border bg-white p-4">
-            <QRCodeSVG value={inviteUrl} size={200} />
-          </div>
-        )}
-      </CardContent>
-    </Card>
-  );
-}
-
 export default function Dashboard() {
-  const { user, logout } = useAuth();
+  const { user, role, logout } = useAuth();
   const [, navigate] = useLocation();
-  const isAdmin = user?.role === "ADMIN";
-  const isTrainer = user?.role === "TRAINER" || isAdmin;
-  const isOwner = user?.role === "OWNER" || isAdmin;
+  const search = useSearch();
+  const [emailPreferencesOpen, setEmailPreferencesOpen] = useState(false);
+  const [reminderSettingsOpen, setReminderSettingsOpen] = useState(false);
+  const [uploadSettingsOpen, setUploadSettingsOpen] = useState(false);
+  const [staffOpen, setStaffOpen] = useState(false);
+
+  useEffect(() => {
+    if (new URLSearchParams(search).get("preferences") === "email") {
+      setEmailPreferencesOpen(true);
+      navigate("/dashboard", { replace: true });
+    }
+  }, [search, navigate]);
+  const isAdmin = role === "ADMIN";
+  const isTrainer = role === "TRAINER" || isAdmin;
+  const isOwner = role === "OWNER" || isAdmin;
 
   const { data: pets, isLoading } = useQuery<PetWithRelations[]>({
     queryKey: ["/api/pets"],
@@ -200,6 +154,50 @@ export default function Dashboard() {
             <span className="text-xl font-bold">PawSync</span>
           </div>
           <div className="flex items-center gap-2">
+            <WorkspaceSwitcher />
+            <NotificationBell />
+            {isOwner && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setReminderSettingsOpen(true)}
+                data-testid="button-reminder-settings"
+              >
+                <AlarmClock className="h-5 w-5" />
+                <span className="sr-only">Homework reminders</span>
+              </Button>
+            )}
+            {isTrainer && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setStaffOpen(true)}
+                data-testid="button-staff"
+              >
+                <Users className="h-5 w-5" />
+                <span className="sr-only">Team</span>
+              </Button>
+            )}
+            {isTrainer && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setUploadSettingsOpen(true)}
+                data-testid="button-upload-settings"
+              >
+                <FileUp className="h-5 w-5" />
+                <span className="sr-only">Storage and uploads</span>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setEmailPreferencesOpen(true)}
+              data-testid="button-email-preferences"
+            >
+              <Mail className="h-5 w-5" />
+              <span className="sr-only">Email preferences</span>
+            </Button>
             <ThemeToggle />
             <Button 
               variant="ghost" 
@@ -227,6 +225,28 @@ export default function Dashboard() {
                 : "Manage your pets and their training"}
             </p>
           </div>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => navigate("/admin/storage")}
+              data-testid="button-admin-storage"
+            >
+              <HardDrive className="h-4 w-4" />
+              Storage
+            </Button>
+          )}
+          {isTrainer && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => navigate("/digests")}
+              data-testid="button-weekly-digest"
+            >
+              <Newspaper className="h-4 w-4" />
+              Weekly Digest
+            </Button>
+          )}
           {isOwner && (
             <Button 
               className="gap-2"
@@ -261,7 +281,8 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
-        {isTrainer && <InviteSection />}
+        {isTrainer && <InviteLinksCard />}
+        {isTrainer && <ClientInvitationsCard />}
 
         <div className="mb-4 flex items-center gap-2">
           <ClipboardList className="h-5 w-5 text-muted-foreground" />
@@ -279,7 +300,7 @@ export default function Dashboard() {
         ) : pets && pets.length > 0 ? (
           <div className="space-y-4">
             {pets.map((pet) => (
-              <PetCard key={pet.id} pet={pet} userRole={user?.role || "OWNER"} />
+              <PetCard key={pet.id} pet={pet} userRole={role || "OWNER"} userId={user?.id} />
             ))}
           </div>
         ) : (
@@ -310,6 +331,11 @@ export default function Dashboard() {
           </Card>
         )}
       </main>
+
+      <EmailPreferencesDialog open={emailPreferencesOpen} onOpenChange={setEmailPreferencesOpen} />
+      {isOwner && <ReminderSettingsDialog open={reminderSettingsOpen} onOpenChange={setReminderSettingsOpen} />}
+      {isTrainer && <UploadSettingsDialog open={uploadSettingsOpen} onOpenChange={setUploadSettingsOpen} />}
+      {isTrainer && <StaffDialog open={staffOpen} onOpenChange={setStaffOpen} />}
     </div>
   );
 }
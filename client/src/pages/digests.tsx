@@ -0,0 +1,382 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ArrowLeft,
+  Download,
+  Eye,
+  Inbox,
+  Loader2,
+  MessageCircleQuestion,
+  MoonStar,
+  ClipboardX,
+} from "lucide-react";
+import { format } from "date-fns";
+import { WEEKDAYS } from "@shared/recurrence";
+import type { DigestSettingsInput, WorkspaceDigestData } from "@shared/digest";
+import type { WorkspaceDigest } from "@shared/schema";
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+const formatDay = (value: string) => format(new Date(value), "EEE, MMM d");
+
+function DigestSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<DigestSettingsInput | null>(null);
+
+  const { data: settings } = useQuery<DigestSettingsInput>({
+    queryKey: ["/api/digests/settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        enabled: settings.enabled,
+        weekday: settings.weekday,
+        sendTime: settings.sendTime,
+        timezone: settings.timezone,
+      });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: DigestSettingsInput) => {
+      await apiRequest("PUT", "/api/digests/settings", input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/digests/settings"] });
+      toast({ title: "Digest schedule saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!form) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <Card data-testid="card-digest-settings">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Schedule</CardTitle>
+        <CardDescription>When your weekly digest is delivered. Times are in {browserTimezone}.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="digest-enabled">Send weekly digest</Label>
+          <Switch
+            id="digest-enabled"
+            checked={form.enabled}
+            onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+            data-testid="switch-digest-enabled"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Day</Label>
+            <Select
+              value={form.weekday}
+              onValueChange={(value) => setForm({ ...form, weekday: value as DigestSettingsInput["weekday"] })}
+              disabled={!form.enabled}
+            >
+              <SelectTrigger data-testid="select-digest-weekday">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAYS.map((day) => (
+                  <SelectItem key={day} value={day}>
+                    {day}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="digest-time">Time</Label>
+            <Input
+              id="digest-time"
+              type="time"
+              value={form.sendTime}
+              onChange={(e) => setForm({ ...form, sendTime: e.target.value })}
+              disabled={!form.enabled}
+              data-testid="input-digest-time"
+            />
+          </div>
+        </div>
+        <Button
+          className="w-full"
+          onClick={() => saveMutation.mutate({ ...form, timezone: browserTimezone })}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-digest-settings"
+        >
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Schedule
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DigestSection({
+  title,
+  icon: Icon,
+  empty,
+  rows,
+  testId,
+}: {
+  title: string;
+  icon: typeof Inbox;
+  empty: string;
+  rows: { key: string; href: string; primary: string; secondary: string; meta: string }[];
+  testId: string;
+}) {
+  const [, navigate] = useLocation();
+
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Icon className="h-4 w-4 text-primary" />
+          {title}
+          <Badge variant="secondary">{rows.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{empty}</p>
+        ) : (
+          <div className="divide-y">
+            {rows.map((row) => (
+              <button
+                key={row.key}
+                className="flex w-full items-center justify-between gap-3 py-2 text-left hover-elevate"
+                onClick={() => navigate(row.href)}
+                data-testid={`${testId}-row-${row.key}`}
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{row.primary}</p>
+                  <p className="truncate text-xs text-muted-foreground">{row.secondary}</p>
+                </div>
+                <span className="flex-shrink-0 text-xs text-muted-foreground">{row.meta}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DigestView({ data }: { data: WorkspaceDigestData }) {
+  return (
+    <div className="space-y-4">
+      <DigestSection
+        title="Submissions received"
+        icon={Inbox}
+        empty="No submissions this week."
+        testId="digest-submissions-received"
+        rows={data.submissionsReceived.map((s) => ({
+          key: s.submissionId,
+          href: `/pets/${s.petId}?submission=${s.submissionId}`,
+          primary: s.petName,
+          secondary: s.taskTitle,
+          meta: formatDay(s.submittedAt),
+        }))}
+      />
+      <DigestSection
+        title="Waiting for your reply"
+        icon={MessageCircleQuestion}
+        empty="Every submission has a response."
+        testId="digest-unanswered"
+        rows={data.unansweredSubmissions.map((s) => ({
+          key: s.submissionId,
+          href: `/pets/${s.petId}?submission=${s.submissionId}`,
+          primary: s.petName,
+          secondary: s.taskTitle,
+          meta: formatDay(s.submittedAt),
+        }))}
+      />
+      <DigestSection
+        title="Pets with no activity"
+        icon={MoonStar}
+        empty="Every pet with homework submitted something."
+        testId="digest-inactive-pets"
+        rows={data.inactivePets.map((p) => ({
+          key: p.petId,
+          href: `/pets/${p.petId}`,
+          primary: p.petName,
+          secondary: `${p.ownerName || "Unknown owner"} · ${p.activeTaskCount} active task${p.activeTaskCount === 1 ? "" : "s"}`,
+          meta: p.lastSubmissionAt ? `Last ${formatDay(p.lastSubmissionAt)}` : "Never submitted",
+        }))}
+      />
+      <DigestSection
+        title="Tasks never submitted"
+        icon={ClipboardX}
+        empty="Every active task has at least one submission."
+        testId="digest-idle-tasks"
+        rows={data.tasksWithoutSubmissions.map((t) => ({
+          key: t.taskId,
+          href: `/pets/${t.petId}`,
+          primary: t.taskTitle,
+          secondary: t.petName,
+          meta: `Assigned ${formatDay(t.createdAt)}`,
+        }))}
+      />
+    </div>
+  );
+}
+
+export default function Digests() {
+  const [, navigate] = useLocation();
+  const search = useSearch();
+  const requestedId = new URLSearchParams(search).get("id");
+  const [selectedId, setSelectedId] = useState<string | null>(requestedId);
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => {
+    if (requestedId) {
+      setSelectedId(requestedId);
+      setShowPreview(false);
+    }
+  }, [requestedId]);
+
+  const { data: digests, isLoading } = useQuery<WorkspaceDigest[]>({
+    queryKey: ["/api/digests"],
+  });
+
+  const { data: preview, isFetching: isPreviewLoading } = useQuery<WorkspaceDigestData>({
+    queryKey: ["/api/digests/preview"],
+    enabled: showPreview,
+    staleTime: 0,
+  });
+
+  const selected = digests?.find((d) => d.id === selectedId) ?? (showPreview ? undefined : digests?.[0]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto flex h-16 items-center justify-between gap-4 px-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")} data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <span className="text-xl font-bold">Weekly Digest</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto grid gap-6 px-4 py-6 lg:grid-cols-[280px_1fr]">
+        <div className="space-y-4">
+          <DigestSettingsCard />
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Past digests</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              <Button
+                variant={showPreview ? "secondary" : "ghost"}
+                className="w-full justify-start gap-2"
+                onClick={() => {
+                  setShowPreview(true);
+                  setSelectedId(null);
+                }}
+                data-testid="button-digest-preview"
+              >
+                <Eye className="h-4 w-4" />
+                This week so far
+              </Button>
+              {isLoading ? (
+                <Skeleton className="h-9 w-full" />
+              ) : (
+                digests?.map((digest) => (
+                  <Button
+                    key={digest.id}
+                    variant={!showPreview && selected?.id === digest.id ? "secondary" : "ghost"}
+                    className="w-full justify-start"
+                    onClick={() => {
+                      setShowPreview(false);
+                      setSelectedId(digest.id);
+                    }}
+                    data-testid={`button-digest-${digest.id}`}
+                  >
+                    Week ending {formatDay(digest.data.periodEnd)}
+                  </Button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          {showPreview ? (
+            isPreviewLoading || !preview ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Live view of {formatDay(preview.periodStart)} – {formatDay(preview.periodEnd)} across {preview.petCount} pets.
+                </p>
+                <DigestView data={preview} />
+              </>
+            )
+          ) : selected ? (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {formatDay(selected.data.periodStart)} – {formatDay(selected.data.periodEnd)} across {selected.data.petCount} pets
+                </p>
+                <Button variant="outline" size="sm" className="gap-2" asChild>
+                  <a href={`/api/digests/${selected.id}/download`} data-testid="button-download-digest">
+                    <Download className="h-4 w-4" />
+                    Download HTML
+                  </a>
+                </Button>
+              </div>
+              <DigestView data={selected.data} />
+            </>
+          ) : (
+            !isLoading && (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center gap-3 py-12 text-center">
+                  <Inbox className="h-10 w-10 text-muted-foreground" />
+                  <p className="text-muted-foreground">
+                    No digests yet. Your first one arrives on your scheduled day.
+                  </p>
+                  <Button variant="outline" onClick={() => setShowPreview(true)}>
+                    See this week so far
+                  </Button>
+                </CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -5,45 +5,59 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
+import { queryClient } from "@/lib/queryClient";
 import { PawPrint, Loader2, CheckCircle2, XCircle, GraduationCap } from "lucide-react";
 
 export default function Join() {
   const search = useSearch();
   const params = new URLSearchParams(search);
   const token = params.get("token");
+  // Emailed invitations come with a pet the trainer has already set up.
+  const invitationToken = params.get("invitation");
   const [, navigate] = useLocation();
   const { user, login, refetchUser } = useAuth();
   const { toast } = useToast();
 
   const { data: validation, isLoading: validating, error: validationError } = useQuery({
-    queryKey: ["/api/workspaces/validate", token],
+    queryKey: invitationToken ? ["/api/workspaces/invitations/validate", invitationToken] : ["/api/workspaces/validate", token],
     queryFn: async () => {
-      if (!token) throw new Error("No token");
-      const res = await fetch(`/api/workspaces/validate/${token}`);
-      if (!res.ok) throw new Error("Invalid invite link");
-      return res.json() as Promise<{ workspaceId: string; trainerName: string; businessName: string | null }>;
+      const res = await fetch(
+        invitationToken ? `/api/workspaces/invitations/validate/${invitationToken}` : `/api/workspaces/validate/${token}`,
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || "This invite link is no longer valid. Please ask your trainer for a new one.");
+      }
+      return res.json() as Promise<{
+        workspaceId: string;
+        trainerName: string;
+        businessName: string | null;
+        email?: string;
+        petName?: string;
+      }>;
     },
-    enabled: !!token,
+    enabled: !!(token || invitationToken),
     retry: false,
   });
 
   const joinMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch("/api/workspaces/join", {
+      const res = await fetch(invitationToken ? "/api/workspaces/invitations/accept" : "/api/workspaces/join", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ token }),
+        body: JSON.stringify({ token: invitationToken ?? token }),
         credentials: "include",
       });
       if (!res.ok) {
         const data = await res.json();
         throw new Error(data.message || "Failed to join");
       }
-      return res.json();
+      return res.json() as Promise<{ workspaceId: string; petId?: string }>;
     },
-    onSuccess: async () => {
+    onSuccess: async (result) => {
       await refetchUser();
-      navigate("/pets/new");
+      queryClient.invalidateQueries();
+      navigate(result.petId ? `/pets/${result.petId}` : "/pets/new");
     },
     onError: (error: Error) => {
       toast({
@@ -54,7 +68,7 @@ export default function Join() {
     },
   });
 
-  if (!token) {
+  if (!token && !invitationToken) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center px-4">
         <Card className="w-full max-w-md text-center">
@@ -88,8 +102,8 @@ export default function Join() {
               <XCircle className="h-6 w-6 text-destructive" />
             </div>
             <CardTitle>Invalid Invite</CardTitle>
-            <CardDescription>
-              This invite link is no longer valid. Please ask your trainer for a new one.
+            <CardDescription data-testid="text-invite-error">
+              {validationError?.message || "This invite link is no longer valid. Please ask your trainer for a new one."}
             </CardDescription>
           </CardHeader>
         </Card>
@@ -114,13 +128,17 @@ export default function Join() {
               {validation.businessName && (
                 <span className="block mt-1 text-sm">{validation.businessName}</span>
               )}
-              <span className="block mt-2">has invited you to join their training workspace.</span>
+              <span className="block mt-2">
+                {validation.petName
+                  ? `has set up ${validation.petName} for you. Sign in as ${validation.email} to accept.`
+                  : "has invited you to join their training workspace."}
+              </span>
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Button
               className="w-full"
-              onClick={login}
+              onClick={() => login(`/join?${search}`)}
               data-testid="button-login-join"
             >
               Sign In to Continue
@@ -148,7 +166,9 @@ export default function Join() {
               <span className="block mt-1">{validation.businessName}</span>
             )}
             <span className="block mt-2">
-              Join this training workspace to add your pet and start tracking homework.
+              {validation.petName
+                ? `${validation.petName}'s profile and homework are ready. Accept to start tracking training.`
+                : "Join this training workspace to add your pet and start tracking homework."}
             </span>
           </CardDescription>
         </CardHeader>
@@ -167,7 +187,7 @@ export default function Join() {
             ) : (
               <>
                 <PawPrint className="h-4 w-4" />
-                Join Workspace
+                {invitationToken ? "Accept Invitation" : "Join Workspace"}
               </>
             )}
           </Button>
@@ -55,7 +55,7 @@ export default function Landing() {
           <div className="flex items-center gap-2">
             <ThemeToggle />
             <Button 
-              onClick={login} 
+              onClick={() => login()} 
               disabled={isLoading}
               data-testid="button-login-header"
             >
@@ -85,7 +85,7 @@ export default function Landing() {
                 <div className="flex flex-wrap gap-4">
                   <Button 
                     size="lg" 
-                    onClick={login}
+                    onClick={() => login()}
                     disabled={isLoading}
                     className="gap-2"
                     data-testid="button-get-started"
@@ -247,7 +247,7 @@ export default function Landing() {
               </p>
               <Button 
                 size="lg" 
-                onClick={login}
+                onClick={() => login()}
                 disabled={isLoading}
                 className="gap-2"
                 data-testid="button-cta-bottom"
@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -43,18 +43,43 @@ import {
   ChevronDown,
   ChevronRight,
   BarChart3,
+  BookmarkPlus,
+  AlertCircle,
+  RotateCcw,
+  GraduationCap,
+  Mail,
+  SkipForward,
+  Pause,
 } from "lucide-react";
 import type {
   PetWithRelations,
   HomeworkTaskWithRelations,
   HomeworkSubmissionWithRelations,
   TimelineItem,
+  PetProgramWithRelations,
+  SubmissionStatusEventWithRelations,
 } from "@shared/schema";
 import { CreateTaskDialog } from "@/components/create-task-dialog";
 import { SubmitHomeworkDialog } from "@/components/submit-homework-dialog";
 import { SubmissionDetailDialog } from "@/components/submission-detail-dialog";
 import { AssignTrainerDialog } from "@/components/assign-trainer-dialog";
 import { EditPetDialog } from "@/components/edit-pet-dialog";
+import { AssignProgramDialog } from "@/components/assign-program-dialog";
+import { PetMessages } from "@/components/pet-messages";
+import { VideoPlayer, VideoThumbnail } from "@/components/video-preview";
+import { usePetEvents } from "@/hooks/use-pet-events";
+import {
+  SubmissionStatusBadge,
+  submissionStatusLabels,
+} from "@/components/submission-status-badge";
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  getTaskRecurrence,
+  toDateKey,
+} from "@shared/recurrence";
+import { computeCompliance } from "@shared/compliance";
+import { responsiveImageProps, videoSource } from "@shared/media";
 import {
   format,
   isThisWeek,
@@ -70,6 +95,8 @@ import {
   subMonths,
   getDay,
   isToday,
+  addWeeks,
+  differenceInCalendarWeeks,
 } from "date-fns";
 
 const speciesIcons: Record<string, typeof Dog> = {
@@ -78,8 +105,6 @@ const speciesIcons: Record<string, typeof Dog> = {
   rabbit: Rabbit,
 };
 
-const ALL_DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
-
 function PreferredDaysSelector({
   task,
   isOwner,
@@ -143,9 +168,10 @@ function PreferredDaysSelector({
       <p className="text-xs text-muted-foreground mb-1.5 flex items-center gap-1">
         <CalendarDays className="h-3 w-3" />
         Preferred days
+        <span className="text-muted-foreground/70">· reminders go out on these days</span>
       </p>
       <div className="flex flex-wrap gap-1">
-        {ALL_DAYS.map((day) => {
+        {WEEKDAYS.map((day) => {
           const isSelected = selectedDays.includes(day);
           return (
             <Button
@@ -173,6 +199,7 @@ function TaskCard({
   onSubmit,
   onEdit,
   onArchive,
+  onSaveTemplate,
 }: {
   task: HomeworkTaskWithRelations;
   isOwner: boolean;
@@ -180,6 +207,7 @@ function TaskCard({
   onSubmit: (task: HomeworkTaskWithRelations) => void;
   onEdit: (task: HomeworkTaskWithRelations) => void;
   onArchive: (task: HomeworkTaskWithRelations) => void;
+  onSaveTemplate: (task: HomeworkTaskWithRelations) => void;
 }) {
   const [showMedia, setShowMedia] = useState(false);
   const hasMedia = task.media && task.media.length > 0;
@@ -215,7 +243,7 @@ function TaskCard({
             <div className="flex flex-wrap items-center gap-2">
               <Badge variant="secondary">
                 <Clock className="mr-1 h-3 w-3" />
-                {task.frequency}
+                {describeRecurrence(getTaskRecurrence(task))}
               </Badge>
               {task.expectedDurationMins && (
                 <Badge variant="outline">{task.expectedDurationMins} min</Badge>
@@ -248,6 +276,17 @@ function TaskCard({
                 <Pencil className="h-4 w-4" />
               </Button>
             )}
+            {isTrainer && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onSaveTemplate(task)}
+                title="Save as template"
+                data-testid={`button-save-template-${task.id}`}
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+            )}
             {isTrainer && (
               <Button
                 size="icon"
@@ -286,16 +325,13 @@ function TaskCard({
               >
                 {media.mediaType === "IMAGE" ? (
                   <img
-                    src={media.filePath}
+                    {...responsiveImageProps(media, "(min-width: 768px) 200px, 33vw")}
+                    loading="lazy"
                     alt={media.fileName || "Demo"}
                     className="h-full w-full object-cover"
                   />
                 ) : (
-                  <video
-                    src={media.filePath}
-                    className="h-full w-full object-cover"
-                    controls
-                  />
+                  <VideoPlayer media={media} className="h-full w-full object-cover" />
                 )}
               </div>
             ))}
@@ -446,6 +482,7 @@ function ProgressView({
                             </p>
                           )}
                           <div className="flex items-center gap-2 mt-1">
+                            <SubmissionStatusBadge status={sub.status} />
                             {sub.media && sub.media.length > 0 && (
                               <Badge variant="outline" className="text-xs">
                                 {sub.media.some(
@@ -503,56 +540,20 @@ function CalendarView({
 
   const startPadding = getDay(monthStart);
 
-  const getSubmissionsForDay = (day: Date) => {
-    return submissions.filter((sub) =>
-      isSameDay(new Date(sub.submittedAt), day),
-    );
-  };
+  const compliance = computeCompliance(tasks, submissions, monthStart, monthEnd);
+  const complianceByDate = new Map(
+    compliance.days.map((dayCompliance) => [dayCompliance.date, dayCompliance]),
+  );
 
-  const dayNameToNumber: Record<string, number> = {
-    Sun: 0,
-    Mon: 1,
-    Tue: 2,
-    Wed: 3,
-    Thu: 4,
-    Fri: 5,
-    Sat: 6,
-  };
+  const getDayCompliance = (day: Date) =>
+    complianceByDate.get(toDateKey(day)) ??
+    computeCompliance(tasks, submissions, day, day).days[0];
 
-  const getTasksForDay = (day: Date) => {
-    const dayOfWeek = getDay(day);
-    return tasks.filter((task) => {
-      if (task.preferredDays && task.preferredDays.length > 0) {
-        return task.preferredDays.some((d) => dayNameToNumber[d] === dayOfWeek);
-      }
-      const freq = task.frequency?.toLowerCase() || "";
-      if (freq === "daily") return true;
-      if (freq === "3x/week" || freq === "3x per week") {
-        return dayOfWeek === 1 || dayOfWeek === 3 || dayOfWeek === 5;
-      }
-      if (freq === "2x/week" || freq === "2x per week") {
-        return dayOfWeek === 2 || dayOfWeek === 5;
-      }
-      if (freq === "weekly") {
-        return dayOfWeek === 1;
-      }
-      return true;
+  const getTasksForDay = (day: Date) =>
+    getDayCompliance(day).tasks.flatMap((entry) => {
+      const task = tasks.find((t) => t.id === entry.taskId);
+      return task ? [{ task, wasCompleted: entry.completed >= entry.expected }] : [];
     });
-  };
-
-  const getDayStatus = (day: Date) => {
-    const tasksForDay = getTasksForDay(day);
-    const subsForDay = getSubmissionsForDay(day);
-
-    if (tasksForDay.length === 0) return "none";
-    if (day > new Date()) return "future";
-    const completedTaskCount = tasksForDay.filter((task) =>
-      subsForDay.some((sub) => sub.taskId === task.id),
-    ).length;
-    if (completedTaskCount >= tasksForDay.length) return "complete";
-    if (completedTaskCount > 0) return "partial";
-    return "missed";
-  };
 
   const weekDays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -597,9 +598,7 @@ function CalendarView({
           ))}
 
           {days.map((day) => {
-            const status = getDayStatus(day);
-            const tasksForDay = getTasksForDay(day);
-            const subsForDay = getSubmissionsForDay(day);
+            const { status } = getDayCompliance(day);
             const isSelected = selectedDay && isSameDay(day, selectedDay);
 
             return (
@@ -615,7 +614,7 @@ function CalendarView({
                 `}
               >
                 <span>{format(day, "d")}</span>
-                {tasksForDay.length > 0 && (
+                {status !== "none" && (
                   <div className="absolute bottom-1 flex gap-0.5">
                     {status === "complete" && (
                       <div className="w-1.5 h-1.5 rounded-full bg-green-500" />
@@ -659,11 +658,7 @@ function CalendarView({
 
             {getTasksForDay(selectedDay).length > 0 ? (
               <div className="space-y-2">
-                {getTasksForDay(selectedDay).map((task) => {
-                  const wasCompleted = getSubmissionsForDay(selectedDay).some(
-                    (sub) => sub.taskId === task.id,
-                  );
-
+                {getTasksForDay(selectedDay).map(({ task, wasCompleted }) => {
                   return (
                     <div
                       key={task.id}
@@ -745,7 +740,9 @@ function TimelineItemCard({
       queryClient.invalidateQueries({ queryKey: ["/api/timeline", petId] });
       toast({
         title: "Comment added!",
-        description: "Your feedback has been sent.",
+        description: isTrainer
+          ? "Your feedback has been sent."
+          : "Your message has been sent.",
       });
       setCommentText("");
       setIsCommenting(false);
@@ -803,7 +800,14 @@ function TimelineItemCard({
               <p className="text-xs text-muted-foreground">
                 {format(new Date(item.date), "MMM d, h:mm a")}
               </p>
-              <p className="font-medium">Task completed</p>
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">
+                  {submission.resubmissionOfId
+                    ? "Task resubmitted"
+                    : "Task completed"}
+                </p>
+                <SubmissionStatusBadge status={submission.status} />
+              </div>
               <p className="text-sm text-muted-foreground">
                 {submission.task?.title}
               </p>
@@ -836,12 +840,21 @@ function TimelineItemCard({
             {submission.comments && submission.comments.length > 0 && (
               <div className="mt-3 border-t pt-3 space-y-2">
                 {submission.comments.map((comment: any) => (
-                  <div key={comment.id} className="flex gap-2 text-sm">
+                  <div
+                    key={comment.id}
+                    className={`flex gap-2 text-sm ${comment.parentCommentId ? "ml-6" : ""}`}
+                  >
                     <MessageCircle className="h-4 w-4 text-blue-500 flex-shrink-0 mt-0.5" />
                     <div className="flex-1 space-y-1">
                       <div>
-                        <span className="font-medium text-blue-600 dark:text-blue-400">
-                          {comment.trainer?.firstName || "Trainer"}:
+                        <span
+                          className={`font-medium ${comment.authorRole === "OWNER" ? "text-foreground" : "text-blue-600 dark:text-blue-400"}`}
+                        >
+                          {comment.author?.firstName ||
+                            (comment.authorRole === "OWNER"
+                              ? "Owner"
+                              : "Trainer")}
+                          :
                         </span>{" "}
                         <span className="text-muted-foreground">
                           {comment.comment}
@@ -857,14 +870,13 @@ function TimelineItemCard({
                             >
                               {media.mediaType === "IMAGE" ? (
                                 <img
-                                  src={media.filePath}
+                                  {...responsiveImageProps(media, "64px")}
+                                  loading="lazy"
                                   alt={media.fileName || "Attachment"}
                                   className="h-full w-full object-cover"
                                 />
                               ) : (
-                                <div className="flex h-full w-full items-center justify-center bg-muted">
-                                  <Video className="h-4 w-4 text-muted-foreground" />
-                                </div>
+                                <VideoThumbnail media={media} iconClassName="h-4 w-4" compact />
                               )}
                             </div>
                           ))}
@@ -876,68 +888,107 @@ function TimelineItemCard({
               </div>
             )}
 
-            {/* Inline comment input for trainers */}
-            {isTrainer && (
-              <div className="mt-3 border-t pt-3">
-                {isCommenting ? (
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="Add your feedback..."
-                      value={commentText}
-                      onChange={(e) => setCommentText(e.target.value)}
-                      className="flex-1"
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter" && commentText.trim()) {
-                          commentMutation.mutate(submission.id);
-                        }
-                      }}
-                      data-testid={`input-inline-comment-${submission.id}`}
-                    />
-                    <Button
-                      size="icon"
-                      disabled={
-                        !commentText.trim() || commentMutation.isPending
+            {/* Inline comment input, open to both trainers and owners */}
+            <div className="mt-3 border-t pt-3">
+              {isCommenting ? (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder={
+                      isTrainer
+                        ? "Add your feedback..."
+                        : "Write a message to your trainer..."
+                    }
+                    value={commentText}
+                    onChange={(e) => setCommentText(e.target.value)}
+                    className="flex-1"
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && commentText.trim()) {
+                        commentMutation.mutate(submission.id);
                       }
-                      onClick={() => commentMutation.mutate(submission.id)}
-                      data-testid={`button-send-inline-comment-${submission.id}`}
-                    >
-                      {commentMutation.isPending ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <Send className="h-4 w-4" />
-                      )}
-                    </Button>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => {
-                        setIsCommenting(false);
-                        setCommentText("");
-                      }}
-                    >
-                      ×
-                    </Button>
-                  </div>
-                ) : (
+                    }}
+                    data-testid={`input-inline-comment-${submission.id}`}
+                  />
                   <Button
+                    size="icon"
+                    disabled={
+                      !commentText.trim() || commentMutation.isPending
+                    }
+                    onClick={() => commentMutation.mutate(submission.id)}
+                    data-testid={`button-send-inline-comment-${submission.id}`}
+                  >
+                    {commentMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    size="icon"
                     variant="ghost"
-                    size="sm"
-                    className="text-muted-foreground"
-                    onClick={() => setIsCommenting(true)}
-                    data-testid={`button-add-comment-${submission.id}`}
+                    onClick={() => {
+                      setIsCommenting(false);
+                      setCommentText("");
+                    }}
                   >
-                    <MessageCircle className="mr-1 h-4 w-4" />
-                    Add Feedback
+                    ×
                   </Button>
-                )}
-              </div>
-            )}
+                </div>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground"
+                  onClick={() => setIsCommenting(true)}
+                  data-testid={`button-add-comment-${submission.id}`}
+                >
+                  <MessageCircle className="mr-1 h-4 w-4" />
+                  {isTrainer ? "Add Feedback" : "Reply"}
+                </Button>
+              )}
+            </div>
           </CardContent>
         </Card>
       </div>
     );
   }
 
+  if (item.type === "review") {
+    const event = item.data as SubmissionStatusEventWithRelations;
+    const isNeedsWork = event.status === "NEEDS_WORK";
+    return (
+      <div className="flex gap-4" data-testid={`timeline-review-${event.id}`}>
+        <div className="flex flex-col items-center">
+          <div
+            className={`flex h-8 w-8 items-center justify-center rounded-full ${isNeedsWork ? "bg-amber-500/10" : "bg-green-500/10"}`}
+          >
+            {isNeedsWork ? (
+              <AlertCircle className="h-4 w-4 text-amber-500" />
+            ) : event.status === "RESUBMITTED" ? (
+              <RotateCcw className="h-4 w-4 text-muted-foreground" />
+            ) : (
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+            )}
+          </div>
+          <div className="flex-1 w-px bg-border" />
+        </div>
+        <div className="flex-1 pb-6 space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(item.date), "MMM d, h:mm a")}
+          </p>
+          <p className="font-medium">
+            {submissionStatusLabels[event.status] || event.status}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {event.submission?.task?.title}
+          </p>
+          {event.comment && (
+            <p className="text-sm text-muted-foreground">"{event.comment}"</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (item.type === "comment") {
     const comment = item.data as any;
     return (
@@ -955,28 +1006,31 @@ function TimelineItemCard({
           <p className="text-xs text-muted-foreground">
             {format(new Date(item.date), "MMM d, h:mm a")}
           </p>
-          <p className="font-medium">Trainer feedback</p>
+          <p className="font-medium">
+            {comment.authorRole === "OWNER"
+              ? "Owner reply"
+              : "Trainer feedback"}
+          </p>
           <p className="text-sm text-muted-foreground">"{comment.comment}"</p>
           {comment.media && comment.media.length > 0 && (
             <div className="flex gap-2 pt-1">
               {comment.media.map((media: any) => (
                 <a
                   key={media.id}
-                  href={media.filePath}
+                  href={media.mediaType === "VIDEO" ? videoSource(media) : media.filePath}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="block h-16 w-16 overflow-hidden rounded-md border cursor-pointer hover-elevate"
                 >
                   {media.mediaType === "IMAGE" ? (
                     <img
-                      src={media.filePath}
+                      {...responsiveImageProps(media, "64px")}
+                      loading="lazy"
                       alt={media.fileName || "Attachment"}
                       className="h-full w-full object-cover"
                     />
                   ) : (
-                    <div className="flex h-full w-full items-center justify-center bg-muted">
-                      <Video className="h-4 w-4 text-muted-foreground" />
-                    </div>
+                    <VideoThumbnail media={media} iconClassName="h-4 w-4" compact />
                   )}
                 </a>
               ))}
@@ -990,10 +1044,99 @@ function TimelineItemCard({
   return null;
 }
 
+function ProgramCard({
+  petProgram,
+  isTrainer,
+  onAdvance,
+  onToggleHold,
+  isUpdating,
+}: {
+  petProgram: PetProgramWithRelations;
+  isTrainer: boolean;
+  onAdvance: () => void;
+  onToggleHold: () => void;
+  isUpdating: boolean;
+}) {
+  const phases = petProgram.program?.phases || [];
+  const phase = phases[petProgram.currentPhaseIndex];
+  const isHeld = petProgram.status === "ON_HOLD";
+  const isCompleted = petProgram.status === "COMPLETED";
+  const phaseStart = new Date(petProgram.phaseStartedAt);
+  const weekOfPhase = phase
+    ? Math.min(
+        differenceInCalendarWeeks(
+          isHeld && petProgram.heldAt ? new Date(petProgram.heldAt) : new Date(),
+          phaseStart,
+        ) + 1,
+        phase.durationWeeks,
+      )
+    : 0;
+
+  return (
+    <div
+      className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between"
+      data-testid={`card-pet-program-${petProgram.id}`}
+    >
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <GraduationCap className="h-4 w-4 text-primary" />
+          <span className="font-medium">{petProgram.program?.name}</span>
+          {isHeld && <Badge variant="outline">On hold</Badge>}
+          {isCompleted && <Badge variant="secondary">Completed</Badge>}
+        </div>
+        {isCompleted ? (
+          <p className="text-sm text-muted-foreground">
+            Finished all {phases.length} phases
+            {petProgram.completedAt &&
+              ` on ${format(new Date(petProgram.completedAt), "MMM d, yyyy")}`}
+          </p>
+        ) : phase ? (
+          <>
+            <p className="text-sm" data-testid={`text-program-phase-${petProgram.id}`}>
+              Phase {petProgram.currentPhaseIndex + 1} of {phases.length}: {phase.title}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Week {weekOfPhase} of {phase.durationWeeks}
+              {!isHeld &&
+                ` · next phase ${format(addWeeks(phaseStart, phase.durationWeeks), "MMM d")}`}
+            </p>
+          </>
+        ) : null}
+      </div>
+      {isTrainer && !isCompleted && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={onToggleHold}
+            disabled={isUpdating}
+            data-testid={`button-hold-program-${petProgram.id}`}
+          >
+            {isHeld ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+            {isHeld ? "Resume" : "Hold"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={onAdvance}
+            disabled={isUpdating}
+            data-testid={`button-advance-program-${petProgram.id}`}
+          >
+            <SkipForward className="h-3 w-3" />
+            {petProgram.currentPhaseIndex + 1 >= phases.length ? "Complete" : "Next Phase"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function PetDetail() {
   const params = useParams<{ id: string }>();
   const [, navigate] = useLocation();
-  const { user } = useAuth();
+  const { user, role } = useAuth();
   const { toast } = useToast();
   const [createTaskOpen, setCreateTaskOpen] = useState(false);
   const [editTask, setEditTask] = useState<HomeworkTaskWithRelations | null>(
@@ -1003,19 +1146,24 @@ export default function PetDetail() {
   const [submissionDetailOpen, setSubmissionDetailOpen] = useState(false);
   const [assignTrainerOpen, setAssignTrainerOpen] = useState(false);
   const [editPetOpen, setEditPetOpen] = useState(false);
+  const [assignProgramOpen, setAssignProgramOpen] = useState(false);
   const [selectedTask, setSelectedTask] =
     useState<HomeworkTaskWithRelations | null>(null);
   const [selectedSubmission, setSelectedSubmission] =
     useState<HomeworkSubmissionWithRelations | null>(null);
+  const [resubmissionOf, setResubmissionOf] =
+    useState<HomeworkSubmissionWithRelations | null>(null);
 
-  const isAdmin = user?.role === "ADMIN";
-  const isTrainer = user?.role === "TRAINER" || isAdmin;
-  const isOwner = user?.role === "OWNER" || isAdmin;
+  const isAdmin = role === "ADMIN";
+  const isTrainer = role === "TRAINER" || isAdmin;
+  const isOwner = role === "OWNER" || isAdmin;
 
   const { data: pet, isLoading: petLoading } = useQuery<PetWithRelations>({
     queryKey: ["/api/pets", params.id],
   });
 
+  usePetEvents(params.id);
+
   const { data: tasks, isLoading: tasksLoading } = useQuery<
     HomeworkTaskWithRelations[]
   >({
@@ -1028,6 +1176,69 @@ export default function PetDetail() {
     queryKey: ["/api/timeline", params.id],
   });
 
+  // Notifications deep-link to a submission with ?submission=<id>.
+  const linkedSubmissionId = new URLSearchParams(useSearch()).get("submission");
+  const { data: linkedSubmission } =
+    useQuery<HomeworkSubmissionWithRelations>({
+      queryKey: ["/api/submissions", linkedSubmissionId],
+      enabled: !!linkedSubmissionId,
+    });
+
+  useEffect(() => {
+    if (linkedSubmission) {
+      setSelectedSubmission(linkedSubmission);
+      setSubmissionDetailOpen(true);
+    }
+  }, [linkedSubmission?.id]);
+
+  const { data: unreadMessages } = useQuery<{ count: number }>({
+    queryKey: ["/api/pets", params.id, "messages", "unread"],
+  });
+
+  const { data: petPrograms } = useQuery<PetProgramWithRelations[]>({
+    queryKey: ["/api/pets", params.id, "programs"],
+  });
+
+  const programActionMutation = useMutation({
+    mutationFn: async ({
+      petProgramId,
+      action,
+    }: {
+      petProgramId: string;
+      action: "advance" | "hold" | "resume";
+    }) => {
+      const response =
+        action === "advance"
+          ? await apiRequest("POST", `/api/pet-programs/${petProgramId}/advance`)
+          : await apiRequest("POST", `/api/pet-programs/${petProgramId}/hold`, {
+              held: action === "hold",
+            });
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/pets", params.id, "programs"],
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", params.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/timeline", params.id] });
+      toast({
+        title:
+          variables.action === "advance"
+            ? "Phase advanced!"
+            : variables.action === "hold"
+              ? "Program on hold"
+              : "Program resumed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update program.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const archiveMutation = useMutation({
     mutationFn: async ({
       taskId,
@@ -1060,6 +1271,27 @@ export default function PetDetail() {
     },
   });
 
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/template`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: "Saved as template!",
+        description: "You can reuse this task for other pets.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const SpeciesIcon =
     speciesIcons[pet?.species?.toLowerCase() || ""] || PawPrint;
   const activeTasks = tasks?.filter((t) => t.isActive) || [];
@@ -1079,6 +1311,17 @@ export default function PetDetail() {
     archiveMutation.mutate({ taskId: task.id, isActive: !task.isActive });
   };
 
+  const handleSaveTemplate = (task: HomeworkTaskWithRelations) => {
+    saveTemplateMutation.mutate(task.id);
+  };
+
+  const handleResubmit = (submission: HomeworkSubmissionWithRelations) => {
+    setSubmissionDetailOpen(false);
+    setSelectedTask(tasks?.find((t) => t.id === submission.taskId) || null);
+    setResubmissionOf(submission);
+    setSubmitHomeworkOpen(true);
+  };
+
   const handleViewSubmission = (
     submission: HomeworkSubmissionWithRelations,
   ) => {
@@ -1261,6 +1504,17 @@ export default function PetDetail() {
                 </div>
               </div>
               <div className="flex flex-wrap gap-2">
+                {isTrainer && (
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => setAssignProgramOpen(true)}
+                    data-testid="button-assign-program-open"
+                  >
+                    <GraduationCap className="h-4 w-4" />
+                    Assign Program
+                  </Button>
+                )}
                 {isTrainer && (
                   <Button
                     className="gap-2"
@@ -1276,8 +1530,39 @@ export default function PetDetail() {
           </CardContent>
         </Card>
 
+        {petPrograms && petPrograms.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Training Programs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {petPrograms.map((petProgram) => (
+                <ProgramCard
+                  key={petProgram.id}
+                  petProgram={petProgram}
+                  isTrainer={isTrainer}
+                  isUpdating={programActionMutation.isPending}
+                  onAdvance={() =>
+                    programActionMutation.mutate({
+                      petProgramId: petProgram.id,
+                      action: "advance",
+                    })
+                  }
+                  onToggleHold={() =>
+                    programActionMutation.mutate({
+                      petProgramId: petProgram.id,
+                      action:
+                        petProgram.status === "ON_HOLD" ? "resume" : "hold",
+                    })
+                  }
+                />
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Tabs defaultValue="tasks" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="tasks" data-testid="tab-tasks">
               <ClipboardList className="mr-1 h-4 w-4" />
               Tasks
@@ -1294,6 +1579,18 @@ export default function PetDetail() {
               <Clock className="mr-1 h-4 w-4" />
               Timeline
             </TabsTrigger>
+            <TabsTrigger value="messages" data-testid="tab-messages">
+              <Mail className="mr-1 h-4 w-4" />
+              Messages
+              {unreadMessages && unreadMessages.count > 0 && (
+                <Badge
+                  className="ml-1 h-5 min-w-5 justify-center px-1"
+                  data-testid="badge-unread-messages"
+                >
+                  {unreadMessages.count}
+                </Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="tasks" className="space-y-4">
@@ -1314,6 +1611,7 @@ export default function PetDetail() {
                       onSubmit={handleSubmitTask}
                       onEdit={handleEditTask}
                       onArchive={handleArchiveTask}
+                      onSaveTemplate={handleSaveTemplate}
                     />
                   ))
                 ) : (
@@ -1356,6 +1654,7 @@ export default function PetDetail() {
                         onSubmit={handleSubmitTask}
                         onEdit={handleEditTask}
                         onArchive={handleArchiveTask}
+                        onSaveTemplate={handleSaveTemplate}
                       />
                     ))}
                   </div>
@@ -1408,7 +1707,7 @@ export default function PetDetail() {
 
           <TabsContent value="calendar" className="space-y-4">
             <CalendarView
-              tasks={activeTasks}
+              tasks={tasks || []}
               submissions={
                 timeline
                   ?.filter((t) => t.type === "submission")
@@ -1457,6 +1756,10 @@ export default function PetDetail() {
               </Card>
             )}
           </TabsContent>
+
+          <TabsContent value="messages" className="space-y-4">
+            <PetMessages petId={pet.id} currentUserId={user?.id} />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -1472,9 +1775,13 @@ export default function PetDetail() {
 
       <SubmitHomeworkDialog
         open={submitHomeworkOpen}
-        onOpenChange={setSubmitHomeworkOpen}
+        onOpenChange={(open) => {
+          setSubmitHomeworkOpen(open);
+          if (!open) setResubmissionOf(null);
+        }}
         petId={pet.id}
         preselectedTask={selectedTask}
+        resubmissionOf={resubmissionOf}
       />
 
       <SubmissionDetailDialog
@@ -1483,6 +1790,7 @@ export default function PetDetail() {
         submission={selectedSubmission}
         isTrainer={isTrainer}
         petId={pet.id}
+        onResubmit={handleResubmit}
       />
 
       <AssignTrainerDialog
@@ -1496,6 +1804,12 @@ export default function PetDetail() {
         onOpenChange={setEditPetOpen}
         pet={pet}
       />
+
+      <AssignProgramDialog
+        open={assignProgramOpen}
+        onOpenChange={setAssignProgramOpen}
+        petId={pet.id}
+      />
     </div>
   );
 }
@@ -150,7 +150,7 @@ export default function TrainerSetup() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept="image/jpeg,image/png,image/gif,image/webp"
                   onChange={handlePhotoUpload}
                   className="hidden"
                 />
@@ -0,0 +1,61 @@
+import type { User, WorkspaceContext, WorkspaceMember } from "@shared/schema";
+import { isStaffRole } from "@shared/staff";
+import { storage } from "./storage";
+
+// People can belong to several workspaces: on the staff of some and a client
+// of others. The one they're acting in is picked with the workspace switcher
+// and kept in the session, and their role comes from that membership rather
+// than from users.role.
+
+export function activeWorkspaceId(req: any): string | undefined {
+  return req.session?.activeWorkspaceId;
+}
+
+export function setActiveWorkspace(req: any, workspaceId: string): void {
+  req.session.activeWorkspaceId = workspaceId;
+}
+
+// Until they pick one, people act in the role they signed up with, in the
+// workspace they run if they're a head trainer.
+export async function getActiveMembership(user: User, workspaceId?: string): Promise<WorkspaceMember | undefined> {
+  const memberships = await storage.getUserWorkspaces(user.id);
+  const chosen = memberships.find((m) => m.workspaceId === workspaceId);
+  if (chosen) return chosen;
+
+  const preferred = memberships.filter((m) => isStaffRole(m.role) === (user.role !== "OWNER"));
+  const candidates = preferred.length > 0 ? preferred : memberships;
+  return candidates.find((m) => m.role === "HEAD_TRAINER") ?? candidates[0];
+}
+
+// Admins stay admins everywhere, and people without a membership keep the
+// role they signed up with.
+export function roleForMembership(user: User, membership: WorkspaceMember | undefined): string | null {
+  if (user.role === "ADMIN") return "ADMIN";
+  if (!membership) return user.role;
+  return isStaffRole(membership.role) ? "TRAINER" : "OWNER";
+}
+
+export async function getActiveRole(req: any, user: User): Promise<string | null> {
+  return roleForMembership(user, await getActiveMembership(user, activeWorkspaceId(req)));
+}
+
+export async function getWorkspaceContext(req: any, user: User): Promise<WorkspaceContext> {
+  const active = await getActiveMembership(user, activeWorkspaceId(req));
+  const memberships = [];
+  for (const membership of await storage.getUserWorkspaces(user.id)) {
+    const workspace = await storage.getWorkspace(membership.workspaceId);
+    if (!workspace) continue;
+    const trainerName = `${workspace.trainer?.firstName || ""} ${workspace.trainer?.lastName || ""}`.trim();
+    memberships.push({
+      workspaceId: workspace.id,
+      name: workspace.businessName || trainerName || "Workspace",
+      role: membership.role,
+    });
+  }
+
+  return {
+    activeWorkspaceId: active?.workspaceId ?? null,
+    role: roleForMembership(user, active),
+    memberships,
+  };
+}
@@ -0,0 +1,185 @@
+import { parseISO, subDays } from "date-fns";
+import { storage } from "./storage";
+import { appUrl, emailPreferencesUrl, getBusinessName, sendUserEmail } from "./email";
+import { renderDigestEmail } from "./email/digest";
+import { weekdayOf } from "@shared/recurrence";
+import { getZonedClock, toMinutes } from "@shared/reminders";
+import { DEFAULT_DIGEST_SETTINGS, type WorkspaceDigestData } from "@shared/digest";
+import type { Workspace, WorkspaceDigest } from "@shared/schema";
+
+const DIGEST_INTERVAL_MS = 15 * 60 * 1000;
+export const DIGEST_PERIOD_DAYS = 7;
+
+const newestFirst = (a: string, b: string) => new Date(b).getTime() - new Date(a).getTime();
+const oldestFirst = (a: string, b: string) => newestFirst(b, a);
+
+// Built from the same per-pet queries the pet detail page uses, so the digest
+// always agrees with what the trainer sees when they click through.
+export async function buildWorkspaceDigest(
+  workspaceId: string,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<WorkspaceDigestData> {
+  const pets = await storage.getPetsByWorkspace(workspaceId);
+  const data: WorkspaceDigestData = {
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    petCount: pets.length,
+    submissionsReceived: [],
+    inactivePets: [],
+    unansweredSubmissions: [],
+    tasksWithoutSubmissions: [],
+  };
+
+  for (const pet of pets) {
+    const ref = {
+      petId: pet.id,
+      petName: pet.name,
+      ownerName: pet.owner ? [pet.owner.firstName, pet.owner.lastName].filter(Boolean).join(" ") || pet.owner.email : null,
+    };
+    const tasks = await storage.getTasksByPet(pet.id);
+    const submissions = await storage.getSubmissionsByPet(pet.id);
+    const activeTasks = tasks.filter((task) => task.isActive);
+
+    let receivedThisPeriod = 0;
+    for (const submission of submissions) {
+      const entry = {
+        ...ref,
+        submissionId: submission.id,
+        taskTitle: submission.task?.title ?? "Task",
+        status: submission.status,
+        submittedAt: new Date(submission.submittedAt).toISOString(),
+      };
+
+      const submittedAt = new Date(submission.submittedAt);
+      if (submittedAt >= periodStart && submittedAt < periodEnd) {
+        data.submissionsReceived.push(entry);
+        receivedThisPeriod++;
+      }
+
+      const hasTrainerReply = (submission.comments || []).some((comment) => comment.authorRole !== "OWNER");
+      if (submission.status === "COMPLETED" && !hasTrainerReply) {
+        data.unansweredSubmissions.push(entry);
+      }
+    }
+
+    if (activeTasks.length > 0 && receivedThisPeriod === 0) {
+      const last = submissions.reduce<Date | null>((latest, submission) => {
+        const at = new Date(submission.submittedAt);
+        return !latest || at > latest ? at : latest;
+      }, null);
+      data.inactivePets.push({
+        ...ref,
+        lastSubmissionAt: last ? last.toISOString() : null,
+        activeTaskCount: activeTasks.length,
+      });
+    }
+
+    const submittedTaskIds = new Set(submissions.map((submission) => submission.taskId));
+    for (const task of activeTasks) {
+      if (submittedTaskIds.has(task.id) || new Date(task.createdAt) >= periodEnd) continue;
+      data.tasksWithoutSubmissions.push({
+        ...ref,
+        taskId: task.id,
+        taskTitle: task.title,
+        createdAt: new Date(task.createdAt).toISOString(),
+      });
+    }
+  }
+
+  data.submissionsReceived.sort((a, b) => newestFirst(a.submittedAt, b.submittedAt));
+  data.unansweredSubmissions.sort((a, b) => oldestFirst(a.submittedAt, b.submittedAt));
+  data.tasksWithoutSubmissions.sort((a, b) => oldestFirst(a.createdAt, b.createdAt));
+  data.inactivePets.sort((a, b) => {
+    if (!a.lastSubmissionAt) return -1;
+    if (!b.lastSubmissionAt) return 1;
+    return oldestFirst(a.lastSubmissionAt, b.lastSubmissionAt);
+  });
+
+  return data;
+}
+
+export async function renderDigestHtml(digest: WorkspaceDigest, workspace: Workspace): Promise<string> {
+  const trainer = await storage.getUser(workspace.trainerUserId);
+  return renderDigestEmail(digest.data, {
+    businessName: workspace.businessName || "PawSync",
+    recipientName: trainer?.firstName || "there",
+    actionUrl: appUrl(`/digests?id=${digest.id}`),
+    preferencesUrl: emailPreferencesUrl(),
+  }).html;
+}
+
+async function deliverDigest(digest: WorkspaceDigest, workspace: Workspace): Promise<void> {
+  const { data } = digest;
+  const link = `/digests?id=${digest.id}`;
+
+  try {
+    await storage.createNotification({
+      userId: workspace.trainerUserId,
+      actorId: null,
+      type: "WEEKLY_DIGEST",
+      title: "Your weekly digest is ready",
+      body: `${data.submissionsReceived.length} submissions, ${data.unansweredSubmissions.length} awaiting reply, ${data.inactivePets.length} inactive pets`,
+      petId: null,
+      taskId: null,
+      submissionId: null,
+      link,
+      readAt: null,
+    });
+  } catch (error) {
+    console.error("Error creating notification:", error);
+  }
+
+  const businessName = await getBusinessName(workspace.id);
+  await sendUserEmail(workspace.trainerUserId, "WEEKLY_DIGEST", businessName, (recipient) =>
+    renderDigestEmail(data, {
+      businessName,
+      recipientName: recipient.firstName || "there",
+      actionUrl: appUrl(link),
+      preferencesUrl: emailPreferencesUrl(),
+    }),
+  );
+}
+
+async function runWorkspaceDigest(workspace: Workspace, now: Date): Promise<void> {
+  const settings = (await storage.getDigestSettings(workspace.id)) ?? DEFAULT_DIGEST_SETTINGS;
+  if (!settings.enabled) return;
+
+  const clock = getZonedClock(now, settings.timezone);
+  if (weekdayOf(parseISO(clock.dateKey)) !== settings.weekday) return;
+  if (clock.minutes < toMinutes(settings.sendTime)) return;
+  if (await storage.getWorkspaceDigestByPeriod(workspace.id, clock.dateKey)) return;
+
+  const periodStart = subDays(now, DIGEST_PERIOD_DAYS);
+  const data = await buildWorkspaceDigest(workspace.id, periodStart, now);
+  const digest = await storage.createWorkspaceDigest({
+    workspaceId: workspace.id,
+    periodKey: clock.dateKey,
+    periodStart,
+    periodEnd: now,
+    data,
+  });
+  // Another instance got there first.
+  if (!digest) return;
+
+  await deliverDigest(digest, workspace);
+}
+
+export async function sendDueDigests(now: Date = new Date()): Promise<void> {
+  const workspaces = await storage.getAllWorkspaces();
+  for (const workspace of workspaces) {
+    try {
+      await runWorkspaceDigest(workspace, now);
+    } catch (error) {
+      console.error(`Error building digest for workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+export function startDigestScheduler(): void {
+  const run = () => {
+    sendDueDigests().catch((error) => console.error("Error sending weekly digests:", error));
+  };
+  run();
+  setInterval(run, DIGEST_INTERVAL_MS);
+}
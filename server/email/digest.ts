@@ -0,0 +1,79 @@
+import { format } from "date-fns";
+import { escapeHtml, renderButton, renderLayout, type RenderedEmail } from "./templates";
+import type { WorkspaceDigestData } from "@shared/digest";
+
+type DigestEmailOptions = {
+  businessName: string;
+  recipientName: string;
+  actionUrl: string;
+  preferencesUrl: string;
+};
+
+const formatDay = (value: string) => format(new Date(value), "EEE, MMM d");
+
+function renderSection(title: string, empty: string, headers: string[], rows: string[][]): string {
+  const heading = `<h2 style="margin:24px 0 8px;font-size:16px;">${escapeHtml(title)} (${rows.length})</h2>`;
+  if (rows.length === 0) {
+    return `${heading}<p style="margin:0;color:#78716c;">${escapeHtml(empty)}</p>`;
+  }
+
+  const cell = "padding:6px 8px;border-bottom:1px solid #e7e5e4;text-align:left;font-size:14px;";
+  return `${heading}
+                <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">
+                  <tr>${headers.map((h) => `<th style="${cell}color:#78716c;font-weight:500;">${escapeHtml(h)}</th>`).join("")}</tr>
+                  ${rows.map((row) => `<tr>${row.map((value) => `<td style="${cell}">${escapeHtml(value)}</td>`).join("")}</tr>`).join("\n                  ")}
+                </table>`;
+}
+
+function textSection(title: string, empty: string, lines: string[]): string {
+  return [`${title} (${lines.length})`, ...(lines.length > 0 ? lines.map((line) => `  - ${line}`) : [`  ${empty}`])].join("\n");
+}
+
+export function renderDigestEmail(data: WorkspaceDigestData, options: DigestEmailOptions): RenderedEmail {
+  const period = `${formatDay(data.periodStart)} – ${formatDay(data.periodEnd)}`;
+  const subject = `${options.businessName} weekly digest: ${period}`;
+  const owner = (name: string | null) => name || "Unknown owner";
+
+  const received = data.submissionsReceived.map((s) => [s.petName, s.taskTitle, formatDay(s.submittedAt)]);
+  const unanswered = data.unansweredSubmissions.map((s) => [s.petName, s.taskTitle, formatDay(s.submittedAt)]);
+  const inactive = data.inactivePets.map((p) => [
+    p.petName,
+    owner(p.ownerName),
+    p.lastSubmissionAt ? formatDay(p.lastSubmissionAt) : "Never",
+  ]);
+  const idle = data.tasksWithoutSubmissions.map((t) => [t.petName, t.taskTitle, formatDay(t.createdAt)]);
+
+  const html = renderLayout({
+    businessName: options.businessName,
+    preferencesUrl: options.preferencesUrl,
+    width: 640,
+    body: `<p style="margin:0 0 12px;">Hi ${escapeHtml(options.recipientName)},</p>
+                <p style="margin:0;">Here's what happened across your ${data.petCount} client pets, ${escapeHtml(period)}.</p>
+                ${renderSection("Submissions received", "No submissions this week.", ["Pet", "Task", "Submitted"], received)}
+                ${renderSection("Waiting for your reply", "Every submission has a response.", ["Pet", "Task", "Submitted"], unanswered)}
+                ${renderSection("Pets with no activity", "Every pet with homework submitted something.", ["Pet", "Owner", "Last submission"], inactive)}
+                ${renderSection("Tasks never submitted", "Every active task has at least one submission.", ["Pet", "Task", "Assigned"], idle)}
+                <div style="margin-top:24px;">${renderButton("Open in PawSync", options.actionUrl)}</div>`,
+  });
+
+  const text = [
+    `Hi ${options.recipientName},`,
+    "",
+    `Here's what happened across your ${data.petCount} client pets, ${period}.`,
+    "",
+    textSection("Submissions received", "No submissions this week.", received.map((r) => r.join(" · "))),
+    "",
+    textSection("Waiting for your reply", "Every submission has a response.", unanswered.map((r) => r.join(" · "))),
+    "",
+    textSection("Pets with no activity", "Every pet with homework submitted something.", inactive.map((r) => r.join(" · "))),
+    "",
+    textSection("Tasks never submitted", "Every active task has at least one submission.", idle.map((r) => r.join(" · "))),
+    "",
+    `Open in PawSync: ${options.actionUrl}`,
+    "",
+    `— ${options.businessName} via PawSync`,
+    `Manage email preferences: ${options.preferencesUrl}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
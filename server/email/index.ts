@@ -0,0 +1,74 @@
+import { storage } from "../storage";
+import { renderEmail, type ActivityEmailEvent, type RenderedEmail } from "./templates";
+import { createTransportFromEnv, type EmailTransport } from "./transports";
+import type { EmailEvent, Pet, User } from "@shared/schema";
+
+export type { EmailTransport, EmailMessage } from "./transports";
+export type { ActivityEmailEvent } from "./templates";
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
+    console.log(`Email transport: ${transport.name}`);
+  }
+  return transport;
+}
+
+export function appUrl(pathname: string): string {
+  const domain = process.env.REPLIT_DOMAINS?.split(",")[0];
+  const base = process.env.APP_URL || (domain ? `https://${domain}` : `http://localhost:${process.env.PORT || "5000"}`);
+  return `${base.replace(/\/$/, "")}${pathname}`;
+}
+
+export const emailPreferencesUrl = () => appUrl("/dashboard?preferences=email");
+
+export async function getBusinessName(workspaceId: string | null): Promise<string> {
+  if (workspaceId) {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (workspace?.businessName) return workspace.businessName;
+  }
+  return "PawSync";
+}
+
+// Looks up the recipient and honours their per-event opt-outs before sending.
+export async function sendUserEmail(
+  recipientId: string,
+  event: EmailEvent,
+  businessName: string,
+  render: (recipient: User) => RenderedEmail,
+): Promise<void> {
+  const recipient = await storage.getUser(recipientId);
+  if (!recipient?.email) return;
+  if (recipient.emailOptOuts?.includes(event)) return;
+
+  await sendEmail(recipient.email, businessName, render(recipient));
+}
+
+// Sends to an address directly, for people who may not have an account yet.
+export async function sendEmail(to: string, businessName: string, email: RenderedEmail): Promise<void> {
+  await getEmailTransport().send({
+    to,
+    from: process.env.EMAIL_FROM || `${businessName} via PawSync <no-reply@pawsync.app>`,
+    ...email,
+  });
+}
+
+export async function sendEventEmail(
+  event: ActivityEmailEvent,
+  input: { recipientId: string; pet: Pet; title: string; detail?: string | null; link: string },
+): Promise<void> {
+  const businessName = await getBusinessName(input.pet.workspaceId);
+  await sendUserEmail(input.recipientId, event, businessName, (recipient) =>
+    renderEmail(event, {
+      businessName,
+      recipientName: recipient.firstName || "there",
+      petName: input.pet.name,
+      title: input.title,
+      detail: input.detail,
+      actionUrl: appUrl(input.link),
+      preferencesUrl: emailPreferencesUrl(),
+    }),
+  );
+}
@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import { escapeHtml, renderButton, renderLayout, type RenderedEmail } from "./templates";
+
+type InvitationEmailOptions = {
+  businessName: string;
+  trainerName: string;
+  petName: string;
+  starterTaskTitles: string[];
+  expiresAt: Date;
+  actionUrl: string;
+};
+
+export function renderInvitationEmail(options: InvitationEmailOptions): RenderedEmail {
+  const subject = `${options.trainerName} invited you to track ${options.petName}'s training on PawSync`;
+  const intro = `${options.trainerName} at ${options.businessName} has set up ${options.petName} on PawSync so you can follow their homework between sessions.`;
+  const expiry = `This invitation expires on ${format(options.expiresAt, "MMM d, yyyy")}.`;
+  const tasks = options.starterTaskTitles;
+
+  const html = renderLayout({
+    businessName: options.businessName,
+    body: `<p style="margin:0 0 12px;">Hi there,</p>
+                <p style="margin:0 0 16px;">${escapeHtml(intro)}</p>
+                ${
+                  tasks.length > 0
+                    ? `<p style="margin:0 0 4px;font-weight:600;">Homework waiting for ${escapeHtml(options.petName)}</p>
+                <ul style="margin:0 0 16px;padding-left:20px;">${tasks.map((title) => `<li>${escapeHtml(title)}</li>`).join("")}</ul>`
+                    : ""
+                }
+                <p style="margin:0 0 16px;color:#57534e;">Sign in with this email address to accept. ${escapeHtml(expiry)}</p>
+                ${renderButton("Accept invitation", options.actionUrl)}`,
+  });
+
+  const text = [
+    "Hi there,",
+    "",
+    intro,
+    ...(tasks.length > 0 ? ["", `Homework waiting for ${options.petName}:`, ...tasks.map((title) => `  - ${title}`)] : []),
+    "",
+    `Sign in with this email address to accept. ${expiry}`,
+    "",
+    `Accept invitation: ${options.actionUrl}`,
+    "",
+    `— ${options.businessName} via PawSync`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
@@ -0,0 +1,123 @@
+import type { EmailEvent } from "@shared/schema";
+
+// The weekly digest has its own layout (server/email/digest.ts); every other
+// event uses the single-item template below.
+export type ActivityEmailEvent = Exclude<EmailEvent, "WEEKLY_DIGEST">;
+
+export type EmailTemplateData = {
+  businessName: string;
+  recipientName: string;
+  petName: string;
+  title: string;
+  detail?: string | null;
+  actionUrl: string;
+  preferencesUrl: string;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const copy: Record<ActivityEmailEvent, { subject: (d: EmailTemplateData) => string; intro: (d: EmailTemplateData) => string; action: string }> = {
+  TASK_ASSIGNED: {
+    subject: (d) => `New homework for ${d.petName}: ${d.title}`,
+    intro: (d) => `Your trainer at ${d.businessName} has assigned new homework for ${d.petName}.`,
+    action: "View task",
+  },
+  SUBMISSION_RECEIVED: {
+    subject: (d) => `${d.petName} submitted homework: ${d.title}`,
+    intro: (d) => `${d.petName}'s owner has submitted homework for you to review.`,
+    action: "Review submission",
+  },
+  TRAINER_COMMENTED: {
+    subject: (d) => `New feedback for ${d.petName}`,
+    intro: (d) => `Your trainer at ${d.businessName} left feedback on ${d.petName}'s homework.`,
+    action: "Read feedback",
+  },
+  HOMEWORK_REMINDER: {
+    subject: (d) => `Reminder: ${d.petName}'s homework for today`,
+    intro: (d) => `${d.petName} has homework due today from ${d.businessName}.`,
+    action: "Open homework",
+  },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderButton(label: string, url: string): string {
+  return `<a href="${escapeHtml(url)}" style="display:inline-block;margin-top:8px;padding:10px 16px;background:#27aa83;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(label)}</a>`;
+}
+
+// Emails to people without an account yet (invitations) have no preferences
+// to link to.
+export function renderLayout(options: { businessName: string; body: string; preferencesUrl?: string; width?: number }): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f5f5f4;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#1c1917;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="${options.width ?? 560}" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background:#27aa83;color:#ffffff;padding:16px 24px;font-size:18px;font-weight:600;">
+                ${escapeHtml(options.businessName)}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px;">
+                ${options.body}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 24px;font-size:12px;color:#78716c;border-top:1px solid #e7e5e4;">
+                Sent by ${escapeHtml(options.businessName)} via PawSync.
+                ${options.preferencesUrl ? `<a href="${escapeHtml(options.preferencesUrl)}" style="color:#78716c;">Manage email preferences</a>` : ""}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+export function renderEmail(event: ActivityEmailEvent, data: EmailTemplateData): RenderedEmail {
+  const template = copy[event];
+  const subject = template.subject(data);
+  const intro = template.intro(data);
+
+  const text = [
+    `Hi ${data.recipientName},`,
+    "",
+    intro,
+    "",
+    data.title,
+    ...(data.detail ? [data.detail] : []),
+    "",
+    `${template.action}: ${data.actionUrl}`,
+    "",
+    `— ${data.businessName} via PawSync`,
+    `Manage email preferences: ${data.preferencesUrl}`,
+  ].join("\n");
+
+  const html = renderLayout({
+    businessName: data.businessName,
+    preferencesUrl: data.preferencesUrl,
+    body: `<p style="margin:0 0 12px;">Hi ${escapeHtml(data.recipientName)},</p>
+                <p style="margin:0 0 16px;">${escapeHtml(intro)}</p>
+                <p style="margin:0 0 4px;font-weight:600;">${escapeHtml(data.title)}</p>
+                ${data.detail ? `<p style="margin:0 0 16px;color:#57534e;">${escapeHtml(data.detail)}</p>` : ""}
+                ${renderButton(template.action, data.actionUrl)}`,
+  });
+
+  return { subject, html, text };
+}
@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export type EmailMessage = {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+// Writes each message to the outbox directory as a .json envelope plus the
+// rendered .html, so local runs can inspect exactly what would have been sent.
+export class FileOutboxTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const baseName = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+    await fs.promises.writeFile(path.join(this.dir, `${baseName}.json`), JSON.stringify(message, null, 2));
+    await fs.promises.writeFile(path.join(this.dir, `${baseName}.html`), message.html);
+  }
+}
+
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const kind = (env.EMAIL_TRANSPORT || "console").toLowerCase();
+
+  if (kind === "smtp") {
+    if (!env.SMTP_HOST) {
+      throw new Error("EMAIL_TRANSPORT=smtp requires SMTP_HOST");
+    }
+    const port = parseInt(env.SMTP_PORT || "587", 10);
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    });
+  }
+
+  if (kind === "file") {
+    return new FileOutboxTransport(env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), "outbox"));
+  }
+
+  return new ConsoleTransport();
+}
@@ -3,7 +3,14 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { seedDatabase } from "./seed";
-import { migrateToWorkspaces } from "./migrate-workspaces";
+import { migrateInviteLinks, migrateToWorkspaces, migrateWorkspaceStaffRoles } from "./migrate-workspaces";
+import { migrateTaskRecurrence } from "./migrate-recurrence";
+import { startProgramScheduler } from "./programs";
+import { startReminderScheduler } from "./reminders";
+import { startDigestScheduler } from "./digests";
+import { startRealtime } from "./realtime";
+import { startVideoProcessor } from "./media/processing";
+import { startOrphanedMediaReconciler } from "./media/cleanup";
 
 const app = express();
 const httpServer = createServer(app);
@@ -64,7 +71,16 @@ app.use((req, res, next) => {
 (async () => {
   await seedDatabase();
   await migrateToWorkspaces();
+  await migrateWorkspaceStaffRoles();
+  await migrateInviteLinks();
+  await migrateTaskRecurrence();
+  startRealtime();
   await registerRoutes(httpServer, app);
+  startProgramScheduler();
+  startReminderScheduler();
+  startDigestScheduler();
+  startVideoProcessor();
+  startOrphanedMediaReconciler();
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
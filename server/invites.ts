@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type {
+  ClientInvitation,
+  ClientInvitationWithStatus,
+  Pet,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceInviteWithMembers,
+  WorkspaceWithRelations,
+} from "@shared/schema";
+import {
+  CLIENT_INVITATION_UNUSABLE_MESSAGES,
+  INVITE_UNUSABLE_MESSAGES,
+  clientInvitationStatus,
+  inviteStatus,
+} from "@shared/invites";
+import { appUrl, getBusinessName, sendEmail } from "./email";
+import { renderInvitationEmail } from "./email/invitation";
+import { copyMediaFields } from "./media";
+import { announceCreatedTasks, taskFieldsFromTemplate } from "./programs";
+import { isWorkspaceStaff } from "./staff";
+import { storage, type InvitedPetSetup } from "./storage";
+
+export const DEFAULT_INVITE_LABEL = "Invite link";
+
+export function generateInviteToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+// New workspaces start with one link, using the token they were created with.
+export async function createDefaultInvite(workspace: Workspace, userId: string): Promise<WorkspaceInvite> {
+  return storage.createWorkspaceInvite({
+    workspaceId: workspace.id,
+    label: DEFAULT_INVITE_LABEL,
+    token: workspace.inviteToken,
+    createdByUserId: userId,
+  });
+}
+
+export type UsableInvite = {
+  invite: WorkspaceInvite;
+  workspace: WorkspaceWithRelations;
+};
+
+// The link behind a token, as long as it hasn't expired, been revoked or
+// reached its limit.
+export async function findUsableInvite(token: string): Promise<UsableInvite | { status: number; error: string }> {
+  const invite = await storage.getWorkspaceInviteByToken(token);
+  const workspace = invite ? await storage.getWorkspace(invite.workspaceId) : undefined;
+  if (!invite || !workspace) {
+    return { status: 404, error: "Invalid invite link" };
+  }
+
+  const status = inviteStatus(invite);
+  if (status !== "ACTIVE") {
+    return { status: 410, error: INVITE_UNUSABLE_MESSAGES[status] };
+  }
+  return { invite, workspace };
+}
+
+export async function getWorkspaceInvitesWithMembers(workspaceId: string): Promise<WorkspaceInviteWithMembers[]> {
+  const invites = await storage.getWorkspaceInvites(workspaceId);
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  const now = new Date();
+  return invites.map((invite) => ({
+    ...invite,
+    status: inviteStatus(invite, now),
+    members: members.filter((member) => member.inviteId === invite.id),
+  }));
+}
+
+export type PendingInvitation = {
+  invitation: ClientInvitation;
+  workspace: WorkspaceWithRelations;
+};
+
+// The emailed invitation behind a token, as long as it hasn't been accepted
+// or expired.
+export async function findPendingInvitation(token: string): Promise<PendingInvitation | { status: number; error: string }> {
+  const invitation = await storage.getClientInvitationByToken(token);
+  const workspace = invitation ? await storage.getWorkspace(invitation.workspaceId) : undefined;
+  if (!invitation || !workspace) {
+    return { status: 404, error: "Invalid invitation link" };
+  }
+
+  const status = clientInvitationStatus(invitation);
+  if (status !== "PENDING") {
+    return { status: 410, error: CLIENT_INVITATION_UNUSABLE_MESSAGES[status] };
+  }
+  return { invitation, workspace };
+}
+
+export async function getClientInvitationsWithStatus(workspaceId: string): Promise<ClientInvitationWithStatus[]> {
+  const invitations = await storage.getClientInvitations(workspaceId);
+  const now = new Date();
+  return invitations.map((invitation) => ({ ...invitation, status: clientInvitationStatus(invitation, now) }));
+}
+
+export async function sendClientInvitation(invitation: ClientInvitation): Promise<void> {
+  const businessName = await getBusinessName(invitation.workspaceId);
+  const trainer = await storage.getUser(invitation.invitedByUserId);
+  const templates = await Promise.all(invitation.starterTemplateIds.map((id) => storage.getTaskTemplate(id)));
+
+  await sendEmail(
+    invitation.email,
+    businessName,
+    renderInvitationEmail({
+      businessName,
+      trainerName: `${trainer?.firstName || ""} ${trainer?.lastName || ""}`.trim() || "Your trainer",
+      petName: invitation.petName,
+      starterTaskTitles: templates.flatMap((template) => (template ? [template.title] : [])),
+      expiresAt: invitation.expiresAt,
+      actionUrl: appUrl(`/join?invitation=${encodeURIComponent(invitation.token)}`),
+    }),
+  );
+}
+
+// Accepts the invitation and creates the pet the trainer prepared, with a task
+// for each starter template still in the workspace. The pet goes to the
+// inviting trainer, or to the head trainer if they've since left the staff.
+// The starter tasks are announced like any other new task once it commits.
+// Returns undefined when the invitation was already accepted or has expired.
+export async function acceptClientInvitation(invitation: ClientInvitation, workspace: Workspace, ownerId: string): Promise<Pet | undefined> {
+  const trainerId = (await isWorkspaceStaff(workspace.id, invitation.invitedByUserId))
+    ? invitation.invitedByUserId
+    : workspace.trainerUserId;
+
+  const now = new Date();
+  const tasks: InvitedPetSetup["tasks"] = [];
+  for (const templateId of invitation.starterTemplateIds) {
+    const template = await storage.getTaskTemplate(templateId);
+    if (!template || template.workspaceId !== workspace.id) continue;
+    tasks.push({
+      task: taskFieldsFromTemplate(template, { createdByTrainerId: trainerId, startDate: now }),
+      media: (template.media || []).map(copyMediaFields),
+    });
+  }
+
+  const accepted = await storage.acceptClientInvitation(invitation.id, ownerId, now, {
+    pet: {
+      name: invitation.petName,
+      species: invitation.petSpecies,
+      breed: invitation.petBreed,
+      ownerId,
+      trainerId,
+      workspaceId: workspace.id,
+      imageUrl: null,
+    },
+    tasks,
+  });
+  if (!accepted) return undefined;
+
+  await announceCreatedTasks(accepted.pet.id, accepted.tasks, trainerId);
+  return accepted.pet;
+}
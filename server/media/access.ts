@@ -0,0 +1,38 @@
+import type { User } from "@shared/schema";
+import { storage } from "../storage";
+import { can } from "../policy";
+
+// A file is visible to whoever can see what it is attached to: the pet's owner
+// and the staff working with it for task demos, submissions, comments, chat
+// and pet photos, and the workspace's staff for template demos. Uploaders can
+// always see their own files, which covers previews shown before the file is
+// attached. Profile photos appear next to comments and messages, so any
+// signed-in user may load them.
+export async function canViewMedia(user: User, filePath: string): Promise<boolean> {
+  if (user.role === "ADMIN") return true;
+
+  const upload = await storage.getMediaUpload(filePath);
+  if (upload?.uploadedByUserId === user.id) return true;
+
+  const references = await storage.getMediaReferences(filePath);
+  const petIds = Array.from(new Set(references.map((ref) => ref.petId)));
+  for (const petId of petIds) {
+    const pet = await storage.getPet(petId);
+    if (pet && (await can(user, "pet.view", pet))) return true;
+  }
+
+  for (const workspaceId of await storage.getMediaTemplateWorkspaceIds(filePath)) {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (workspace && (await can(user, "workspace.view", workspace))) return true;
+  }
+
+  return storage.isProfileImage(filePath);
+}
+
+// Files set directly on a record (pet and profile photos) must be ones the
+// user uploaded themselves; otherwise anyone could attach, and then read, a
+// file they only know the path of.
+export async function isOwnUpload(user: User, filePath: string): Promise<boolean> {
+  const upload = await storage.getMediaUpload(filePath);
+  return upload?.uploadedByUserId === user.id;
+}
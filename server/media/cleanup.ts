@@ -0,0 +1,95 @@
+import { storage } from "../storage";
+import type { MediaReclaimReason } from "@shared/schema";
+import { getMediaStore, mediaKeyFromPath } from "./index";
+import { expireResumableUploads } from "./resumable";
+import { backfillMediaSizes } from "./usage";
+import { allDerivedMediaKeys } from "./variants";
+
+const ORPHAN_RECONCILE_INTERVAL_MS = 60 * 60 * 1000;
+const ORPHAN_BATCH_SIZE = 200;
+// Uploads are linked when the form they belong to is saved; the grace period
+// leaves time for a dialog that is still open.
+const DEFAULT_ORPHAN_GRACE_HOURS = 24;
+
+function orphanGraceMs(): number {
+  const hours = Number(process.env.MEDIA_ORPHAN_GRACE_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_ORPHAN_GRACE_HOURS) * 60 * 60 * 1000;
+}
+
+export async function isMediaReferenced(filePath: string): Promise<boolean> {
+  if ((await storage.getMediaReferences(filePath)).length > 0) return true;
+  if ((await storage.getMediaTemplateWorkspaceIds(filePath)).length > 0) return true;
+  return storage.isProfileImage(filePath);
+}
+
+// Deletes an original and everything derived from it, returning the bytes freed.
+async function reclaimMedia(filePath: string, key: string, reason: MediaReclaimReason): Promise<number> {
+  const store = getMediaStore();
+  let bytes = 0;
+  for (const storedKey of [key, ...allDerivedMediaKeys(key)]) {
+    const size = await store.size(storedKey);
+    if (size === null) continue;
+    await store.delete(storedKey);
+    bytes += size;
+  }
+
+  await storage.deleteMediaUpload(filePath);
+  await storage.createReclaimedMedia({ filePath, bytes, reason });
+  return bytes;
+}
+
+// Called after media rows are deleted. A file can be shared (a template and the
+// tasks created from it), so it is only removed once nothing links to it.
+export async function releaseMediaFiles(filePaths: string[]): Promise<void> {
+  for (const filePath of Array.from(new Set(filePaths))) {
+    // External URLs (e.g. profile photos from the identity provider) aren't ours to delete.
+    const key = mediaKeyFromPath(filePath);
+    if (!key) continue;
+    try {
+      if (await isMediaReferenced(filePath)) continue;
+      await reclaimMedia(filePath, key, "DELETED");
+    } catch (error) {
+      console.error(`Error deleting media file ${filePath}:`, error);
+    }
+  }
+}
+
+export type ReconcileResult = {
+  checked: number;
+  reclaimedFiles: number;
+  reclaimedBytes: number;
+};
+
+export async function reconcileOrphanedMedia(now: Date = new Date()): Promise<ReconcileResult> {
+  const uploads = await storage.getMediaUploadsToCheck(new Date(now.getTime() - orphanGraceMs()), ORPHAN_BATCH_SIZE);
+  const result: ReconcileResult = { checked: uploads.length, reclaimedFiles: 0, reclaimedBytes: 0 };
+
+  for (const upload of uploads) {
+    try {
+      const key = mediaKeyFromPath(upload.filePath);
+      if (!key || (await isMediaReferenced(upload.filePath))) {
+        await storage.markMediaUploadChecked(upload.id, now);
+        continue;
+      }
+      result.reclaimedBytes += await reclaimMedia(upload.filePath, key, "ORPHANED");
+      result.reclaimedFiles++;
+    } catch (error) {
+      console.error(`Error reclaiming orphaned media ${upload.filePath}:`, error);
+    }
+  }
+
+  if (result.reclaimedFiles > 0) {
+    console.log(`Reclaimed ${result.reclaimedFiles} orphaned upload(s), ${result.reclaimedBytes} bytes`);
+  }
+  return result;
+}
+
+export function startOrphanedMediaReconciler(): void {
+  const run = () => {
+    reconcileOrphanedMedia().catch((error) => console.error("Error reconciling orphaned media:", error));
+    expireResumableUploads().catch((error) => console.error("Error expiring resumable uploads:", error));
+    backfillMediaSizes().catch((error) => console.error("Error backfilling media sizes:", error));
+  };
+  run();
+  setInterval(run, ORPHAN_RECONCILE_INTERVAL_MS);
+}
@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import type { Request, Response } from "express";
+import type { TaskMedia } from "@shared/schema";
+import type { UploadedMedia } from "@shared/media";
+import { storage } from "../storage";
+import { createMediaStoreFromEnv, type MediaStore } from "./stores";
+import { isRetryableRejection, stripImageMetadata, verifyUploadContent } from "./sanitize";
+import { scanUploadForViruses } from "./scan";
+import { createImageVariants } from "./variants";
+import { isVideoProcessingAvailable } from "./video";
+
+export type { MediaStore, MediaObject } from "./stores";
+export { UploadRejectedError } from "./sanitize";
+
+// Stored filePath values keep the historical "/uploads/<key>" shape whichever
+// driver holds the bytes, so rows written before the store existed still resolve.
+export const MEDIA_URL_PREFIX = "/uploads/";
+
+export type StoredMedia = UploadedMedia;
+
+let store: MediaStore | null = null;
+
+export function getMediaStore(): MediaStore {
+  if (!store) {
+    store = createMediaStoreFromEnv();
+    console.log(`Media store: ${store.name}`);
+  }
+  return store;
+}
+
+export function generateMediaKey(originalName: string): string {
+  const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+  return `${uniqueSuffix}${path.extname(originalName)}`;
+}
+
+export function mediaKeyFromPath(filePath: string): string | null {
+  if (!filePath.startsWith(MEDIA_URL_PREFIX)) return null;
+  const key = decodeURIComponent(filePath.slice(MEDIA_URL_PREFIX.length));
+  return key && !key.includes("..") ? key : null;
+}
+
+export function mediaTypeOf(mimetype: string): "IMAGE" | "VIDEO" {
+  return mimetype.startsWith("video/") ? "VIDEO" : "IMAGE";
+}
+
+// New videos wait for the background transcoder; without ffmpeg they are
+// served as uploaded.
+export async function initialProcessingStatus(mediaType: string): Promise<"PENDING" | null> {
+  return mediaType === "VIDEO" && (await isVideoProcessingAvailable()) ? "PENDING" : null;
+}
+
+// Moves a staged file (a multer temp file or a completed resumable upload) into
+// the configured store, adding resized variants for images, and records who
+// uploaded it. The file is checked first: its bytes must match the claimed
+// type, it must pass the virus scanner if one is configured, and images lose
+// their location and camera metadata. Throws UploadRejectedError otherwise.
+export async function storeUploadedFile(
+  file: Pick<Express.Multer.File, "path" | "originalname" | "mimetype">,
+  uploadedByUserId: string,
+): Promise<StoredMedia> {
+  const key = generateMediaKey(file.originalname);
+  const store = getMediaStore();
+  let variants: Awaited<ReturnType<typeof createImageVariants>>;
+  let sizeBytes: number;
+  try {
+    await verifyUploadContent(file.path, file.mimetype);
+    await scanUploadForViruses(file.path);
+    await stripImageMetadata(file.path, file.mimetype);
+    sizeBytes = (await fs.promises.stat(file.path)).size;
+    await store.put(key, file.path, file.mimetype);
+    variants = await createImageVariants(store, key, file.path, file.mimetype);
+  } catch (error) {
+    // When the scanner is unavailable the file may still be fine, so leave it
+    // for the caller to retry (resumable uploads) or clean up (multer temp files).
+    if (!isRetryableRejection(error)) await fs.promises.rm(file.path, { force: true });
+    throw error;
+  }
+  await fs.promises.rm(file.path, { force: true });
+
+  const filePath = `${MEDIA_URL_PREFIX}${key}`;
+  await storage.createMediaUpload({ filePath, uploadedByUserId, sizeBytes });
+
+  return {
+    filePath,
+    mediaType: mediaTypeOf(file.mimetype),
+    fileName: file.originalname,
+    sizeBytes,
+    thumbnailPath: variants ? `${MEDIA_URL_PREFIX}${variants.thumbnail}` : null,
+    mediumPath: variants ? `${MEDIA_URL_PREFIX}${variants.medium}` : null,
+    processingStatus: await initialProcessingStatus(mediaTypeOf(file.mimetype)),
+  };
+}
+
+type MediaFileFields = Pick<
+  TaskMedia,
+  "mediaType" | "filePath" | "fileName" | "sizeBytes" | "thumbnailPath" | "mediumPath" | "playbackPath" | "posterPath" | "durationMs" | "width" | "height" | "processingStatus"
+>;
+
+// Reuses an already stored file on another row (template -> task), keeping
+// its variants and video metadata.
+export function copyMediaFields(media: MediaFileFields): MediaFileFields {
+  return {
+    mediaType: media.mediaType,
+    filePath: media.filePath,
+    fileName: media.fileName,
+    sizeBytes: media.sizeBytes,
+    thumbnailPath: media.thumbnailPath,
+    mediumPath: media.mediumPath,
+    playbackPath: media.playbackPath,
+    posterPath: media.posterPath,
+    durationMs: media.durationMs,
+    width: media.width,
+    height: media.height,
+    processingStatus: media.processingStatus,
+  };
+}
+
+// Streams a stored object, passing Range through so video seeking works.
+export async function serveMedia(key: string, req: Request, res: Response): Promise<void> {
+  const object = await getMediaStore().get(key, typeof req.headers.range === "string" ? req.headers.range : undefined);
+  if (!object) {
+    res.status(404).json({ message: "File not found" });
+    return;
+  }
+
+  res.status(object.contentRange ? 206 : 200);
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Cache-Control", "private, max-age=86400");
+  if (object.contentType) res.setHeader("Content-Type", object.contentType);
+  if (object.contentLength !== null) res.setHeader("Content-Length", object.contentLength);
+  if (object.contentRange) res.setHeader("Content-Range", object.contentRange);
+
+  object.body.on("error", (error) => {
+    console.error("Error streaming media:", error);
+    res.destroy(error);
+  });
+  res.on("close", () => object.body.destroy());
+  object.body.pipe(res);
+}
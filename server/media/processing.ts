@@ -0,0 +1,117 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { storage } from "../storage";
+import { publishPetEvent } from "../realtime";
+import { MEDIA_URL_PREFIX, getMediaStore, mediaKeyFromPath } from "./index";
+import { VIDEO_PLAYBACK_SUFFIX, VIDEO_POSTER_SUFFIX, derivedMediaKey } from "./variants";
+import {
+  VIDEO_COMMANDS_PER_JOB,
+  extractPosterFrame,
+  isVideoProcessingAvailable,
+  probeVideo,
+  transcodeToMp4,
+  videoCommandTimeoutMs,
+} from "./video";
+
+const VIDEO_PROCESSOR_INTERVAL_MS = 60 * 1000;
+// Time for downloading the original and storing the results, on top of the
+// ffmpeg commands themselves.
+const STALE_PROCESSING_MARGIN_MS = 10 * 60 * 1000;
+
+// A row stuck in PROCESSING longer than a job can take belonged to a worker
+// that died mid-job.
+function staleProcessingMs(): number {
+  return videoCommandTimeoutMs() * VIDEO_COMMANDS_PER_JOB + STALE_PROCESSING_MARGIN_MS;
+}
+
+let running = false;
+let rerun = false;
+
+async function processVideo(filePath: string): Promise<void> {
+  const key = mediaKeyFromPath(filePath);
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pawsync-video-"));
+
+  try {
+    const store = getMediaStore();
+    const original = key ? await store.get(key) : null;
+    if (!key || !original) {
+      throw new Error(`Source file ${filePath} is missing`);
+    }
+
+    const input = path.join(workDir, `input${path.extname(key)}`);
+    const output = path.join(workDir, "playback.mp4");
+    const poster = path.join(workDir, "poster.jpg");
+    await pipeline(original.body, fs.createWriteStream(input));
+
+    await transcodeToMp4(input, output);
+    const metadata = await probeVideo(output);
+    const posterAt = metadata.durationMs ? Math.min(1, metadata.durationMs / 2000) : 0;
+    await extractPosterFrame(output, poster, posterAt);
+
+    const playbackKey = derivedMediaKey(key, VIDEO_PLAYBACK_SUFFIX);
+    const posterKey = derivedMediaKey(key, VIDEO_POSTER_SUFFIX);
+    await store.put(playbackKey, output, "video/mp4");
+    await store.put(posterKey, poster, "image/jpeg");
+
+    await storage.updateVideoProcessing(filePath, {
+      playbackPath: `${MEDIA_URL_PREFIX}${playbackKey}`,
+      posterPath: `${MEDIA_URL_PREFIX}${posterKey}`,
+      ...metadata,
+      processingStatus: "READY",
+    });
+  } catch (error) {
+    // The original upload stays playable where the browser supports it.
+    console.error(`Error processing video ${filePath}:`, error);
+    await storage.updateVideoProcessing(filePath, {
+      playbackPath: null,
+      posterPath: null,
+      durationMs: null,
+      width: null,
+      height: null,
+      processingStatus: "FAILED",
+    });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+
+  for (const ref of await storage.getMediaReferences(filePath)) {
+    await publishPetEvent(ref.petId, "media.processed", { taskId: ref.taskId, submissionId: ref.submissionId });
+  }
+}
+
+// Works through pending videos one at a time; transcoding is CPU-heavy and a
+// single worker per instance keeps uploads and page loads responsive.
+export async function processPendingVideos(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return;
+  }
+
+  running = true;
+  try {
+    do {
+      rerun = false;
+      let filePath: string | undefined;
+      while ((filePath = await storage.claimPendingVideo(new Date(Date.now() - staleProcessingMs())))) {
+        await processVideo(filePath);
+      }
+    } while (rerun);
+  } finally {
+    running = false;
+  }
+}
+
+// Called after new video rows are saved so they don't wait for the next tick.
+export function queueVideoProcessing(): void {
+  processPendingVideos().catch((error) => console.error("Error processing videos:", error));
+}
+
+export function startVideoProcessor(): void {
+  isVideoProcessingAvailable().then((available) => {
+    if (!available) return;
+    queueVideoProcessing();
+    setInterval(queueVideoProcessing, VIDEO_PROCESSOR_INTERVAL_MS);
+  });
+}
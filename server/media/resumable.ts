@@ -0,0 +1,194 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Pet, ResumableUpload } from "@shared/schema";
+import { DEFAULT_MAX_UPLOAD_MB, type UploadedMedia } from "@shared/media";
+import { storage } from "../storage";
+import { storeUploadedFile } from "./index";
+import { SNIFF_BYTES, UploadRejectedError, verifyUploadContent } from "./sanitize";
+import { workspaceForPet } from "../staff";
+
+// Unfinished uploads are discarded after a day; the client starts over.
+export const RESUMABLE_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Chunks accumulate here until the upload is complete. Resuming needs the same
+// disk, so deployments with several instances should point this at shared
+// storage or route uploads stickily.
+const stagingDir = process.env.RESUMABLE_UPLOAD_DIR || path.join(os.tmpdir(), "pawsync-resumable");
+
+// PATCHes for one upload are serialized so two retries can't write at the same offset.
+const activeUploads = new Set<string>();
+
+function stagingPath(uploadId: string): string {
+  return path.join(stagingDir, uploadId);
+}
+
+// The pet's workspace limit, falling back to the default when it has no
+// workspace yet or the trainer hasn't set one.
+export async function maxUploadBytesForPet(pet: Pet): Promise<number> {
+  const workspace = await workspaceForPet(pet);
+  return (workspace?.maxUploadMb ?? DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+}
+
+// Multipart attachments don't go through POST /api/uploads, so their sizes are
+// checked here once multer has received them.
+export async function assertWithinUploadLimit(pet: Pet, files: { size: number }[]): Promise<void> {
+  const maxBytes = await maxUploadBytesForPet(pet);
+  if (files.some((file) => file.size > maxBytes)) {
+    throw new UploadRejectedError(`Files must be under ${Math.round(maxBytes / (1024 * 1024))}MB.`, 413);
+  }
+}
+
+// Bytes received so far. The staged file is the source of truth: a request
+// that drops midway keeps whatever reached the disk.
+export async function currentUploadOffset(upload: ResumableUpload): Promise<number> {
+  if (upload.completedAt) return upload.size;
+  try {
+    const stats = await fs.promises.stat(stagingPath(upload.id));
+    return Math.min(stats.size, upload.size);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return 0;
+    throw error;
+  }
+}
+
+export function resumableUploadStatus(upload: ResumableUpload, offset: number) {
+  return {
+    id: upload.id,
+    fileName: upload.fileName,
+    size: upload.size,
+    offset,
+    completed: !!upload.completedAt,
+    media: upload.media ?? null,
+    expiresAt: upload.expiresAt,
+  };
+}
+
+export type CompletedUpload = ResumableUpload & { media: UploadedMedia };
+
+// A finished upload the user made for this pet, ready to attach. The stored
+// file's paths, size and type come from the upload record, never the client.
+// The caller deletes the row once the media is attached.
+export async function findCompletedUpload(
+  uploadId: unknown,
+  userId: string,
+  petId: string,
+): Promise<CompletedUpload | { status: number; error: string }> {
+  const upload = typeof uploadId === "string" ? await storage.getResumableUpload(uploadId) : undefined;
+  if (!upload || upload.userId !== userId || upload.petId !== petId) {
+    return { status: 404, error: "Upload not found" };
+  }
+  if (!upload.media) {
+    return { status: 409, error: "Upload is not complete" };
+  }
+  return { ...upload, media: upload.media };
+}
+
+export type ChunkResult =
+  | { status: "ok"; upload: ResumableUpload; offset: number }
+  | { status: "busy" }
+  | { status: "offset-mismatch"; offset: number }
+  | { status: "too-large" };
+
+// Appends a chunk at `offset`. Once the last byte arrives the file is moved
+// into the media store and the stored media is kept on the row for the client
+// to attach.
+export async function appendUploadChunk(upload: ResumableUpload, offset: number, body: Readable): Promise<ChunkResult> {
+  if (activeUploads.has(upload.id)) return { status: "busy" };
+  activeUploads.add(upload.id);
+
+  try {
+    const current = await currentUploadOffset(upload);
+    if (upload.completedAt || offset !== current) {
+      return { status: "offset-mismatch", offset: current };
+    }
+
+    await fs.promises.mkdir(stagingDir, { recursive: true });
+    const filePath = stagingPath(upload.id);
+    const remaining = upload.size - current;
+    let received = 0;
+    let overflowed = false;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > remaining) {
+          overflowed = true;
+          callback(new Error("Chunk runs past the declared upload length"));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(
+        body,
+        limiter,
+        fs.createWriteStream(filePath, { flags: current === 0 ? "w" : "r+", start: current }),
+      );
+    } catch (error) {
+      if (overflowed) {
+        await fs.promises.truncate(filePath, current);
+        return { status: "too-large" };
+      }
+      // Keep the partial chunk so the client can resume after the last byte written.
+      await storage.updateResumableUpload(upload.id, { uploadOffset: await currentUploadOffset(upload) });
+      throw error;
+    }
+
+    const newOffset = await currentUploadOffset(upload);
+    try {
+      // Check the type as soon as the header has arrived rather than after
+      // the whole file; storeUploadedFile checks again at the end.
+      if (current < SNIFF_BYTES && newOffset >= Math.min(SNIFF_BYTES, upload.size)) {
+        await verifyUploadContent(filePath, upload.mimeType);
+      }
+      if (newOffset < upload.size) {
+        const updated = await storage.updateResumableUpload(upload.id, { uploadOffset: newOffset });
+        return { status: "ok", upload: updated ?? upload, offset: newOffset };
+      }
+
+      const media = await storeUploadedFile(
+        { path: filePath, originalname: upload.fileName, mimetype: upload.mimeType },
+        upload.userId,
+      );
+      const updated = await storage.updateResumableUpload(upload.id, {
+        uploadOffset: upload.size,
+        media,
+        completedAt: new Date(),
+      });
+      return { status: "ok", upload: updated ?? upload, offset: upload.size };
+    } catch (error) {
+      // A file refused for its content won't get better by resuming, so drop
+      // what was staged. A 503 keeps the bytes so the last chunk can be retried.
+      if (error instanceof UploadRejectedError && (error.status === 415 || error.status === 422)) {
+        await discardResumableUpload(upload);
+      }
+      throw error;
+    }
+  } finally {
+    activeUploads.delete(upload.id);
+  }
+}
+
+// Drops the staged bytes and the row. A completed upload's stored file is left
+// to the orphan reconciler in case it was already attached.
+export async function discardResumableUpload(upload: ResumableUpload): Promise<void> {
+  await fs.promises.rm(stagingPath(upload.id), { force: true });
+  await storage.deleteResumableUpload(upload.id);
+}
+
+export async function expireResumableUploads(now: Date = new Date()): Promise<number> {
+  const expired = await storage.getExpiredResumableUploads(now);
+  for (const upload of expired) {
+    if (activeUploads.has(upload.id)) continue;
+    try {
+      await discardResumableUpload(upload);
+    } catch (error) {
+      console.error(`Error expiring resumable upload ${upload.id}:`, error);
+    }
+  }
+  return expired.length;
+}
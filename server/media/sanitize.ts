@@ -0,0 +1,111 @@
+import fs from "fs";
+import sharp from "sharp";
+
+// Thrown when an upload is refused because of what it contains. `status` is
+// the HTTP status routes respond with.
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+// A 503 means the upload couldn't be checked (e.g. the virus scanner is down),
+// not that the file is bad; trying again later may succeed.
+export function isRetryableRejection(error: unknown): boolean {
+  return error instanceof UploadRejectedError && error.status === 503;
+}
+
+// Enough of the file to recognise every allowed format, including the EBML
+// doc type of WebM files.
+export const SNIFF_BYTES = 64;
+
+// Phones label the same ISO media container as MP4 or QuickTime
+// interchangeably, so either claim is accepted for either brand.
+const INTERCHANGEABLE_TYPES = [["video/mp4", "video/quicktime"]];
+
+// Types whose metadata is removed before storing. GIFs would lose their
+// animation when re-encoded and rarely carry EXIF.
+const STRIPPED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+async function readHead(filePath: string): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function startsWith(head: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => head[offset + i] === byte);
+}
+
+// Identifies the file from its leading bytes, ignoring its name and the type
+// the client claimed. Returns null for anything unrecognised.
+export function detectMediaType(head: Buffer): string | null {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (head.toString("latin1", 0, 6) === "GIF87a" || head.toString("latin1", 0, 6) === "GIF89a") return "image/gif";
+  if (head.toString("latin1", 0, 4) === "RIFF" && head.toString("latin1", 8, 12) === "WEBP") return "image/webp";
+
+  if (head.toString("latin1", 4, 8) === "ftyp") {
+    const brand = head.toString("latin1", 8, 12);
+    if (brand === "qt  ") return "video/quicktime";
+    // HEIF/AVIF photos share the container but aren't accepted uploads.
+    if (["heic", "heix", "mif1", "msf1", "avif"].includes(brand)) return "image/heic";
+    return "video/mp4";
+  }
+
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return head.includes("webm", 0, "latin1") ? "video/webm" : "video/x-matroska";
+  }
+  return null;
+}
+
+function typesMatch(detected: string, claimed: string): boolean {
+  if (detected === claimed) return true;
+  return INTERCHANGEABLE_TYPES.some((group) => group.includes(detected) && group.includes(claimed));
+}
+
+// Rejects files whose content isn't the image or video their type claims,
+// e.g. an executable renamed to .jpg.
+export async function verifyUploadContent(filePath: string, claimedType: string): Promise<void> {
+  const detected = detectMediaType(await readHead(filePath));
+  if (!detected || !typesMatch(detected, claimedType)) {
+    throw new UploadRejectedError("The file's contents don't match its type. Only images and videos are allowed.", 415);
+  }
+}
+
+// Rewrites a staged image without EXIF, XMP and IPTC blocks, which carry GPS
+// coordinates and camera details. The orientation tag goes with them, so the
+// rotation is applied to the pixels first; the colour profile is kept.
+// Images without any such metadata are left untouched to avoid re-encoding.
+export async function stripImageMetadata(filePath: string, contentType: string): Promise<void> {
+  if (!STRIPPED_IMAGE_TYPES.includes(contentType)) return;
+
+  let buffer: Buffer;
+  try {
+    const metadata = await sharp(filePath).metadata();
+    if (!metadata.exif && !metadata.xmp && !metadata.iptc) return;
+
+    const image = sharp(filePath).rotate().keepIccProfile();
+    if (contentType === "image/jpeg") {
+      buffer = await image.jpeg({ quality: 92 }).toBuffer();
+    } else if (contentType === "image/png") {
+      buffer = await image.png().toBuffer();
+    } else {
+      buffer = await image.webp({ quality: 92 }).toBuffer();
+    }
+  } catch (error) {
+    console.error(`Error stripping image metadata from ${filePath}:`, error);
+    throw new UploadRejectedError("The image could not be read. Please try a different file.", 415);
+  }
+
+  await fs.promises.writeFile(filePath, buffer);
+}
@@ -0,0 +1,97 @@
+import fs from "fs";
+import net from "net";
+import { UploadRejectedError } from "./sanitize";
+
+// Optional virus scanning through a local clamd, enabled by CLAMD_SOCKET (a
+// unix socket path) or CLAMD_HOST (with CLAMD_PORT, default 3310). Files are
+// streamed with the INSTREAM command, so clamd's StreamMaxLength must be at
+// least the largest allowed upload. If clamd can't be reached uploads are
+// refused, unless CLAMD_FAIL_OPEN=true.
+
+const DEFAULT_CLAMD_PORT = 3310;
+const DEFAULT_SCAN_TIMEOUT_MS = 2 * 60 * 1000;
+const CHUNK_BYTES = 64 * 1024;
+
+type ClamdAddress = { path: string } | { host: string; port: number };
+
+function clamdAddress(): ClamdAddress | null {
+  if (process.env.CLAMD_SOCKET) return { path: process.env.CLAMD_SOCKET };
+  if (process.env.CLAMD_HOST) {
+    const port = Number(process.env.CLAMD_PORT);
+    return { host: process.env.CLAMD_HOST, port: Number.isInteger(port) && port > 0 ? port : DEFAULT_CLAMD_PORT };
+  }
+  return null;
+}
+
+export function isVirusScanEnabled(): boolean {
+  return clamdAddress() !== null;
+}
+
+function scanTimeoutMs(): number {
+  const ms = Number(process.env.CLAMD_TIMEOUT_MS);
+  return Number.isFinite(ms) && ms > 0 ? ms : DEFAULT_SCAN_TIMEOUT_MS;
+}
+
+// Sends the file to clamd and returns its reply, e.g. "stream: OK" or
+// "stream: Eicar-Test-Signature FOUND".
+function clamdScan(address: ClamdAddress, filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(address);
+    const reply: Buffer[] = [];
+    let settled = false;
+
+    const finish = (error: Error | null, result?: string) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    socket.setTimeout(scanTimeoutMs(), () => finish(new Error("clamd timed out")));
+    socket.on("error", (error) => finish(error));
+    socket.on("data", (data) => reply.push(data));
+    socket.on("end", () => finish(null, Buffer.concat(reply).toString("utf8").replace(/\0/g, "").trim()));
+
+    socket.on("connect", () => {
+      socket.write("zINSTREAM\0");
+      const file = fs.createReadStream(filePath, { highWaterMark: CHUNK_BYTES });
+      file.on("error", (error) => finish(error));
+      file.on("data", (chunk) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        socket.write(length);
+        if (!socket.write(chunk)) {
+          file.pause();
+          socket.once("drain", () => file.resume());
+        }
+      });
+      file.on("end", () => socket.write(Buffer.alloc(4)));
+    });
+  });
+}
+
+// Rejects infected files. A no-op when no scanner is configured.
+export async function scanUploadForViruses(filePath: string): Promise<void> {
+  const address = clamdAddress();
+  if (!address) return;
+
+  let reply: string;
+  try {
+    reply = await clamdScan(address, filePath);
+  } catch (error) {
+    console.error("Error scanning upload for viruses:", error);
+    if (process.env.CLAMD_FAIL_OPEN === "true") return;
+    throw new UploadRejectedError("Uploads can't be checked right now. Please try again later.", 503);
+  }
+
+  if (reply.endsWith("FOUND")) {
+    console.warn(`Rejected infected upload (${reply})`);
+    throw new UploadRejectedError("This file was flagged by the virus scanner and can't be uploaded.", 422);
+  }
+  if (!reply.endsWith("OK")) {
+    console.error(`Unexpected virus scanner reply: ${reply}`);
+    if (process.env.CLAMD_FAIL_OPEN === "true") return;
+    throw new UploadRejectedError("Uploads can't be checked right now. Please try again later.", 503);
+  }
+}
@@ -0,0 +1,225 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+export type MediaObject = {
+  body: Readable;
+  contentType: string | null;
+  contentLength: number | null;
+  // Set when a byte range was requested and honoured; the response is then a 206.
+  contentRange: string | null;
+};
+
+export interface MediaStore {
+  readonly name: string;
+  put(key: string, source: string | Buffer, contentType: string): Promise<void>;
+  get(key: string, range?: string): Promise<MediaObject | null>;
+  exists(key: string): Promise<boolean>;
+  // Byte size of a stored object, or null when it doesn't exist.
+  size(key: string): Promise<number | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Parses a single "bytes=start-end" range; multi-range requests get the whole file.
+function parseRange(range: string | undefined, size: number): { start: number; end: number } | null {
+  const match = range?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    start = Math.max(size - parseInt(match[2], 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+  return start <= end && start < size ? { start, end } : null;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+};
+
+export function contentTypeForKey(key: string): string | null {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? null;
+}
+
+export class LocalMediaStore implements MediaStore {
+  readonly name = "local";
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.dir, key);
+    if (!resolved.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, source: string | Buffer, _contentType: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    if (typeof source === "string") {
+      await fs.promises.copyFile(source, target);
+    } else {
+      await fs.promises.writeFile(target, source);
+    }
+  }
+
+  async get(key: string, range?: string): Promise<MediaObject | null> {
+    const file = this.resolve(key);
+    let size: number;
+    try {
+      size = (await fs.promises.stat(file)).size;
+    } catch {
+      return null;
+    }
+
+    const span = parseRange(range, size);
+    return {
+      body: fs.createReadStream(file, span ?? undefined),
+      contentType: contentTypeForKey(key),
+      contentLength: span ? span.end - span.start + 1 : size,
+      contentRange: span ? `bytes ${span.start}-${span.end}/${size}` : null,
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await fs.promises.stat(this.resolve(key))).size;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Works with AWS S3 and S3-compatible servers such as MinIO (set an endpoint
+// and path-style addressing).
+export class S3MediaStore implements MediaStore {
+  readonly name = "s3";
+  private client: S3Client;
+  private readonly prefix: string;
+
+  constructor(
+    private readonly bucket: string,
+    options: { region: string; endpoint?: string; forcePathStyle: boolean; accessKeyId?: string; secretAccessKey?: string; prefix?: string },
+  ) {
+    this.prefix = options.prefix ? options.prefix.replace(/\/?$/, "/") : "";
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, source: string | Buffer, contentType: string): Promise<void> {
+    const body = typeof source === "string" ? fs.createReadStream(source) : source;
+    const contentLength = typeof source === "string" ? (await fs.promises.stat(source)).size : source.length;
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Body: body,
+        ContentType: contentType,
+        ContentLength: contentLength,
+      }),
+    );
+  }
+
+  async get(key: string, range?: string): Promise<MediaObject | null> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.prefix + key, Range: range }),
+      );
+      if (!result.Body) return null;
+      return {
+        body: result.Body as Readable,
+        contentType: result.ContentType ?? contentTypeForKey(key),
+        contentLength: result.ContentLength ?? null,
+        contentRange: result.ContentRange ?? null,
+      };
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey" || error?.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+      return result.ContentLength ?? 0;
+    } catch (error: any) {
+      if (error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+  }
+}
+
+export function createMediaStoreFromEnv(env: NodeJS.ProcessEnv = process.env): MediaStore {
+  const kind = (env.MEDIA_STORE || "local").toLowerCase();
+
+  if (kind === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new Error("MEDIA_STORE=s3 requires S3_BUCKET");
+    }
+    return new S3MediaStore(env.S3_BUCKET, {
+      region: env.S3_REGION || "us-east-1",
+      endpoint: env.S3_ENDPOINT || undefined,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === "true" : !!env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      prefix: env.S3_PREFIX,
+    });
+  }
+
+  return new LocalMediaStore(env.MEDIA_LOCAL_DIR || path.join(process.cwd(), "uploads"));
+}
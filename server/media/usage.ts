@@ -0,0 +1,73 @@
+import type { Pet, PetStorageUsage, Workspace, WorkspaceStorageUsage } from "@shared/schema";
+import { DEFAULT_STORAGE_QUOTA_MB, formatBytes } from "@shared/media";
+import { storage } from "../storage";
+import { workspaceForPet } from "../staff";
+import { getMediaStore, mediaKeyFromPath } from "./index";
+import { UploadRejectedError } from "./sanitize";
+
+const SIZE_BACKFILL_BATCH_SIZE = 200;
+
+export function storageQuotaBytes(workspace: Workspace): number {
+  return (workspace.storageQuotaMb ?? DEFAULT_STORAGE_QUOTA_MB) * 1024 * 1024;
+}
+
+// Bytes stored per pet in the workspace, largest first. A file attached to
+// several pets (e.g. a template demo) counts once for each of them.
+export async function getWorkspaceStorageUsage(workspace: Workspace): Promise<WorkspaceStorageUsage> {
+  const pets = await storage.getPetsByWorkspace(workspace.id);
+  const files = await storage.getPetMediaFiles(pets.map((pet) => pet.id));
+
+  const usageByPet = new Map<string, PetStorageUsage>(
+    pets.map((pet) => [pet.id, { petId: pet.id, petName: pet.name, files: 0, bytes: 0 }]),
+  );
+  for (const file of files) {
+    const usage = usageByPet.get(file.petId);
+    if (!usage) continue;
+    usage.files++;
+    usage.bytes += file.sizeBytes ?? 0;
+  }
+
+  const petUsage = Array.from(usageByPet.values()).sort((a, b) => b.bytes - a.bytes);
+  const trainer = await storage.getUser(workspace.trainerUserId);
+  const trainerName = trainer ? [trainer.firstName, trainer.lastName].filter(Boolean).join(" ") || trainer.email : null;
+  return {
+    workspaceId: workspace.id,
+    workspaceName: workspace.businessName || "Unnamed workspace",
+    trainerName: trainerName || null,
+    usedBytes: petUsage.reduce((total, pet) => total + pet.bytes, 0),
+    quotaBytes: storageQuotaBytes(workspace),
+    files: petUsage.reduce((total, pet) => total + pet.files, 0),
+    pets: petUsage,
+  };
+}
+
+// Refuses an upload of `incomingBytes` for this pet if it would take its
+// workspace over quota. Pets outside any workspace aren't limited.
+export async function assertStorageAvailable(pet: Pet, incomingBytes: number): Promise<void> {
+  const workspace = await workspaceForPet(pet);
+  if (!workspace) return;
+
+  const usage = await getWorkspaceStorageUsage(workspace);
+  if (usage.usedBytes + incomingBytes > usage.quotaBytes) {
+    throw new UploadRejectedError(
+      `Not enough storage: this trainer's workspace has used ${formatBytes(usage.usedBytes)} of its ${formatBytes(usage.quotaBytes)} quota. Remove old media or ask for a larger quota.`,
+      413,
+    );
+  }
+}
+
+// Fills in sizes for media stored before they were recorded, reading them
+// from the media store. Files that no longer exist count as zero bytes.
+export async function backfillMediaSizes(): Promise<number> {
+  const filePaths = await storage.getMediaPathsMissingSize(SIZE_BACKFILL_BATCH_SIZE);
+  for (const filePath of filePaths) {
+    try {
+      const key = mediaKeyFromPath(filePath);
+      const size = key ? await getMediaStore().size(key) : null;
+      await storage.setMediaSize(filePath, size ?? 0);
+    } catch (error) {
+      console.error(`Error recording media size for ${filePath}:`, error);
+    }
+  }
+  return filePaths.length;
+}
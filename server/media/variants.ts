@@ -0,0 +1,59 @@
+import path from "path";
+import sharp from "sharp";
+import { IMAGE_VARIANT_WIDTHS, type ImageVariantName } from "@shared/media";
+import type { MediaStore } from "./stores";
+
+// Files the video pipeline writes next to the original.
+export const VIDEO_PLAYBACK_SUFFIX = "playback.mp4";
+export const VIDEO_POSTER_SUFFIX = "poster.jpg";
+
+// Animated GIFs would lose their animation, and SVGs are already small.
+const SKIPPED_TYPES = ["image/gif", "image/svg+xml"];
+
+// Derived files share the original's key stem, e.g. "123-456.jpg" ->
+// "123-456-thumbnail.webp".
+export function derivedMediaKey(key: string, suffix: string): string {
+  const base = key.slice(0, key.length - path.extname(key).length);
+  return `${base}-${suffix}`;
+}
+
+// Every key that may have been derived from an original, whether or not it
+// was actually written.
+export function allDerivedMediaKeys(key: string): string[] {
+  return [
+    ...Object.keys(IMAGE_VARIANT_WIDTHS).map((variant) => derivedMediaKey(key, `${variant}.webp`)),
+    derivedMediaKey(key, VIDEO_PLAYBACK_SUFFIX),
+    derivedMediaKey(key, VIDEO_POSTER_SUFFIX),
+  ];
+}
+
+// Resizes an uploaded image into each variant and stores them next to the
+// original. Returns null when the file can't be processed so callers fall
+// back to the original.
+export async function createImageVariants(
+  store: MediaStore,
+  key: string,
+  source: string | Buffer,
+  contentType: string,
+): Promise<Record<ImageVariantName, string> | null> {
+  if (!contentType.startsWith("image/") || SKIPPED_TYPES.includes(contentType)) {
+    return null;
+  }
+
+  try {
+    const keys = {} as Record<ImageVariantName, string>;
+    for (const [variant, width] of Object.entries(IMAGE_VARIANT_WIDTHS) as [ImageVariantName, number][]) {
+      const buffer = await sharp(source)
+        .rotate()
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+      keys[variant] = derivedMediaKey(key, `${variant}.webp`);
+      await store.put(keys[variant], buffer, "image/webp");
+    }
+    return keys;
+  } catch (error) {
+    console.error(`Error creating image variants for ${key}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,130 @@
+import { spawn } from "child_process";
+
+// Thin wrappers around a locally installed ffmpeg/ffprobe. Point FFMPEG_PATH
+// and FFPROBE_PATH at custom builds, or set VIDEO_PROCESSING=off to skip the
+// pipeline and serve uploaded videos as-is. Each command is killed after
+// VIDEO_PROCESSING_TIMEOUT_MS (default 10 minutes).
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Commands one job runs: transcode, probe and poster frame. The processor
+// sizes its stale window from this so a slow job isn't picked up twice.
+export const VIDEO_COMMANDS_PER_JOB = 3;
+
+// Longest edge of the transcoded video; phones record well above what the
+// timeline needs.
+const MAX_VIDEO_EDGE = 1920;
+
+export type VideoMetadata = {
+  durationMs: number | null;
+  width: number | null;
+  height: number | null;
+};
+
+export function videoCommandTimeoutMs(): number {
+  const ms = Number(process.env.VIDEO_PROCESSING_TIMEOUT_MS);
+  return Number.isFinite(ms) && ms > 0 ? ms : DEFAULT_TIMEOUT_MS;
+}
+
+// A file that makes ffmpeg hang would otherwise block the single video worker
+// for good, so the child is killed once it runs too long.
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, videoCommandTimeoutMs());
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr = (stderr + chunk).slice(-4000)));
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`${command} timed out after ${videoCommandTimeoutMs()}ms`));
+      } else if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+let available: Promise<boolean> | null = null;
+
+export function isVideoProcessingAvailable(): Promise<boolean> {
+  if (!available) {
+    available =
+      process.env.VIDEO_PROCESSING === "off"
+        ? Promise.resolve(false)
+        : Promise.all([run(FFMPEG, ["-version"]), run(FFPROBE, ["-version"])]).then(
+            () => true,
+            (error) => {
+              console.warn("ffmpeg not available, uploaded videos will not be transcoded:", error.message);
+              return false;
+            },
+          );
+  }
+  return available;
+}
+
+export async function probeVideo(file: string): Promise<VideoMetadata> {
+  const output = await run(FFPROBE, [
+    "-v", "error",
+    "-select_streams", "v:0",
+    "-show_entries", "stream=width,height:format=duration",
+    "-of", "json",
+    file,
+  ]);
+  const parsed = JSON.parse(output);
+  const stream = parsed.streams?.[0] ?? {};
+  const duration = parseFloat(parsed.format?.duration);
+  return {
+    durationMs: Number.isFinite(duration) ? Math.round(duration * 1000) : null,
+    width: stream.width ?? null,
+    height: stream.height ?? null,
+  };
+}
+
+// H.264/AAC in an MP4 with the index up front plays inline in every browser
+// and can start before the whole file has downloaded. ffmpeg applies the
+// rotation flag phones write, so the output is stored upright. Container
+// metadata such as the recording location is dropped.
+export async function transcodeToMp4(input: string, output: string): Promise<void> {
+  await run(FFMPEG, [
+    "-y",
+    "-i", input,
+    "-map", "0:v:0",
+    "-map", "0:a:0?",
+    "-vf", `scale='if(gt(iw,ih),min(${MAX_VIDEO_EDGE},trunc(iw/2)*2),-2)':'if(gt(iw,ih),-2,min(${MAX_VIDEO_EDGE},trunc(ih/2)*2))'`,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "23",
+    "-pix_fmt", "yuv420p",
+    "-c:a", "aac",
+    "-b:a", "128k",
+    "-map_metadata", "-1",
+    "-movflags", "+faststart",
+    output,
+  ]);
+}
+
+export async function extractPosterFrame(input: string, output: string, atSeconds: number): Promise<void> {
+  await run(FFMPEG, [
+    "-y",
+    "-ss", atSeconds.toFixed(2),
+    "-i", input,
+    "-frames:v", "1",
+    "-q:v", "3",
+    output,
+  ]);
+}
@@ -0,0 +1,59 @@
+// Copies files from the legacy local uploads directory into the configured
+// MediaStore. Keys are the file names, so stored "/uploads/<key>" paths keep
+// resolving once MEDIA_STORE points at the new driver.
+//
+//   MEDIA_STORE=s3 S3_BUCKET=... npm run media:migrate -- [--source ./uploads] [--dry-run]
+import fs from "fs";
+import path from "path";
+import { contentTypeForKey, createMediaStoreFromEnv } from "./media/stores";
+
+function readArgs(argv: string[]) {
+  const sourceIndex = argv.indexOf("--source");
+  return {
+    source: path.resolve(sourceIndex >= 0 ? argv[sourceIndex + 1] : path.join(process.cwd(), "uploads")),
+    dryRun: argv.includes("--dry-run"),
+  };
+}
+
+export async function migrateMediaToStore(source: string, dryRun: boolean) {
+  if (!fs.existsSync(source)) {
+    console.log(`No uploads directory at ${source}, nothing to migrate.`);
+    return;
+  }
+
+  const store = createMediaStoreFromEnv();
+  const entries = await fs.promises.readdir(source, { withFileTypes: true });
+  const files = entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+  console.log(`Migrating ${files.length} file(s) from ${source} to the ${store.name} media store${dryRun ? " (dry run)" : ""}...`);
+
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const key of files) {
+    try {
+      if (await store.exists(key)) {
+        skipped++;
+        continue;
+      }
+      if (!dryRun) {
+        await store.put(key, path.join(source, key), contentTypeForKey(key) || "application/octet-stream");
+      }
+      copied++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to migrate ${key}:`, error);
+    }
+  }
+
+  console.log(`Media migration complete: ${copied} copied, ${skipped} already present, ${failed} failed.`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+const { source, dryRun } = readArgs(process.argv.slice(2));
+migrateMediaToStore(source, dryRun).catch((error) => {
+  console.error("Media migration failed:", error);
+  process.exit(1);
+});
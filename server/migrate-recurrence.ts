@@ -0,0 +1,22 @@
+import { db } from "./db";
+import { homeworkTasks } from "@shared/schema";
+import { parseLegacyFrequency } from "@shared/recurrence";
+import { eq, isNull } from "drizzle-orm";
+
+export async function migrateTaskRecurrence() {
+  const legacyTasks = await db.select().from(homeworkTasks).where(isNull(homeworkTasks.recurrence));
+  if (legacyTasks.length === 0) {
+    return;
+  }
+
+  console.log(`Migrating ${legacyTasks.length} task(s) to structured recurrence...`);
+
+  for (const task of legacyTasks) {
+    const recurrence = parseLegacyFrequency(task.frequency, task.createdAt);
+    await db.update(homeworkTasks)
+      .set({ recurrence })
+      .where(eq(homeworkTasks.id, task.id));
+  }
+
+  console.log("Recurrence migration complete!");
+}
@@ -1,7 +1,8 @@
 import { db } from "./db";
-import { users, pets, workspaces, workspaceMembers } from "@shared/schema";
-import { eq, or, and, isNull } from "drizzle-orm";
+import { users, pets, workspaces, workspaceMembers, workspaceInvites } from "@shared/schema";
+import { eq, or, and, isNull, notExists } from "drizzle-orm";
 import crypto from "crypto";
+import { DEFAULT_INVITE_LABEL } from "./invites";
 
 export async function migrateToWorkspaces() {
   const existingWorkspaces = await db.select().from(workspaces);
@@ -26,7 +27,7 @@ export async function migrateToWorkspaces() {
     await db.insert(workspaceMembers).values({
       workspaceId: workspace.id,
       userId: trainer.id,
-      role: "TRAINER",
+      role: "HEAD_TRAINER",
     });
 
     console.log(`Created workspace for trainer ${trainer.email} (${workspace.id})`);
@@ -67,3 +68,37 @@ export async function migrateToWorkspaces() {
 
   console.log("Workspace migration complete!");
 }
+
+// Workspaces used to have a single trainer whose membership role was TRAINER;
+// they become the head trainer of a workspace that can now have several staff.
+export async function migrateWorkspaceStaffRoles() {
+  const updated = await db.update(workspaceMembers)
+    .set({ role: "HEAD_TRAINER" })
+    .where(eq(workspaceMembers.role, "TRAINER"))
+    .returning({ id: workspaceMembers.id });
+
+  if (updated.length > 0) {
+    console.log(`Made ${updated.length} workspace trainer(s) head trainers`);
+  }
+}
+
+// Workspaces used to have a single permanent invite token; it becomes their
+// first invite link so links that were already shared keep working.
+export async function migrateInviteLinks() {
+  const withoutLinks = await db.select().from(workspaces).where(
+    notExists(db.select().from(workspaceInvites).where(eq(workspaceInvites.workspaceId, workspaces.id)))
+  );
+
+  for (const workspace of withoutLinks) {
+    await db.insert(workspaceInvites).values({
+      workspaceId: workspace.id,
+      label: DEFAULT_INVITE_LABEL,
+      token: workspace.inviteToken,
+      createdByUserId: workspace.trainerUserId,
+    });
+  }
+
+  if (withoutLinks.length > 0) {
+    console.log(`Created invite links for ${withoutLinks.length} workspace(s)`);
+  }
+}
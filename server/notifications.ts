@@ -0,0 +1,163 @@
+import { storage } from "./storage";
+import { sendEventEmail, type ActivityEmailEvent } from "./email";
+import type {
+  HomeworkSubmission,
+  HomeworkTask,
+  NotificationType,
+  Pet,
+  TrainerComment,
+} from "@shared/schema";
+
+type NotificationInput = {
+  type: NotificationType;
+  recipients: (string | null | undefined)[];
+  actorId: string | null;
+  title: string;
+  body?: string | null;
+  pet: Pet;
+  taskId?: string;
+  submissionId?: string;
+  emailEvent?: ActivityEmailEvent;
+  emailTitle?: string;
+  emailDetail?: string | null;
+};
+
+export function petLink(petId: string, submissionId?: string): string {
+  return submissionId ? `/pets/${petId}?submission=${submissionId}` : `/pets/${petId}`;
+}
+
+// Notifications are a side effect of the write that triggered them, so a
+// failure here is logged rather than failing the original request.
+async function notify(input: NotificationInput): Promise<void> {
+  const recipients = Array.from(new Set(input.recipients.filter((id): id is string => !!id && id !== input.actorId)));
+
+  for (const userId of recipients) {
+    try {
+      await storage.createNotification({
+        userId,
+        actorId: input.actorId,
+        type: input.type,
+        title: input.title,
+        body: input.body ?? null,
+        petId: input.pet.id,
+        taskId: input.taskId ?? null,
+        submissionId: input.submissionId ?? null,
+        link: petLink(input.pet.id, input.submissionId),
+        readAt: null,
+      });
+    } catch (error) {
+      console.error("Error creating notification:", error);
+    }
+
+    if (input.emailEvent) {
+      sendEventEmail(input.emailEvent, {
+        recipientId: userId,
+        pet: input.pet,
+        title: input.emailTitle ?? input.title,
+        detail: input.emailDetail,
+        link: petLink(input.pet.id, input.submissionId),
+      }).catch((error) => console.error("Error sending notification email:", error));
+    }
+  }
+}
+
+export async function notifyTaskCreated(task: HomeworkTask, pet: Pet, actorId: string): Promise<void> {
+  await notify({
+    type: "TASK_CREATED",
+    recipients: [pet.ownerId],
+    actorId,
+    title: `New task for ${pet.name}`,
+    body: task.title,
+    pet,
+    taskId: task.id,
+    emailEvent: "TASK_ASSIGNED",
+    emailTitle: task.title,
+  });
+}
+
+export async function notifyTaskStatusChanged(task: HomeworkTask, pet: Pet, actorId: string): Promise<void> {
+  await notify({
+    type: task.isActive ? "TASK_REOPENED" : "TASK_CLOSED",
+    recipients: [pet.ownerId],
+    actorId,
+    title: task.isActive ? `Task reopened for ${pet.name}` : `Task closed for ${pet.name}`,
+    body: task.title,
+    pet,
+    taskId: task.id,
+  });
+}
+
+export async function notifySubmissionCreated(
+  submission: HomeworkSubmission,
+  task: HomeworkTask,
+  pet: Pet,
+  actorId: string,
+): Promise<void> {
+  await notify({
+    type: "SUBMISSION_CREATED",
+    recipients: [pet.trainerId],
+    actorId,
+    title: submission.resubmissionOfId ? `${pet.name} resubmitted homework` : `${pet.name} submitted homework`,
+    body: task.title,
+    pet,
+    taskId: task.id,
+    submissionId: submission.id,
+    emailEvent: "SUBMISSION_RECEIVED",
+    emailTitle: task.title,
+  });
+}
+
+export async function notifySubmissionReviewed(
+  submission: HomeworkSubmission,
+  task: HomeworkTask,
+  pet: Pet,
+  actorId: string,
+): Promise<void> {
+  await notify({
+    type: "SUBMISSION_REVIEWED",
+    recipients: [submission.submittedByUserId, pet.ownerId],
+    actorId,
+    title: submission.status === "APPROVED" ? `${task.title} was approved` : `${task.title} needs another try`,
+    body: pet.name,
+    pet,
+    taskId: task.id,
+    submissionId: submission.id,
+  });
+}
+
+export async function notifyCommentCreated(
+  comment: TrainerComment,
+  submission: HomeworkSubmission,
+  task: HomeworkTask,
+  pet: Pet,
+  actorId: string,
+): Promise<void> {
+  await notify({
+    type: "COMMENT_CREATED",
+    recipients: [pet.ownerId, pet.trainerId],
+    actorId,
+    title: comment.authorRole === "OWNER" ? `New reply about ${pet.name}` : `New feedback for ${pet.name}`,
+    body: comment.comment,
+    pet,
+    taskId: task.id,
+    submissionId: submission.id,
+    emailEvent: comment.authorRole === "OWNER" ? undefined : "TRAINER_COMMENTED",
+    emailTitle: task.title,
+    emailDetail: comment.comment,
+  });
+}
+
+export async function notifyHomeworkReminder(pet: Pet, tasks: HomeworkTask[]): Promise<void> {
+  const titles = tasks.map((task) => task.title).join(", ");
+  await notify({
+    type: "HOMEWORK_REMINDER",
+    recipients: [pet.ownerId],
+    actorId: null,
+    title: `Homework due today for ${pet.name}`,
+    body: titles,
+    pet,
+    emailEvent: "HOMEWORK_REMINDER",
+    emailTitle: tasks.length === 1 ? tasks[0].title : `${tasks.length} tasks due today`,
+    emailDetail: tasks.length === 1 ? null : titles,
+  });
+}
@@ -0,0 +1,223 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  ClientInvitation,
+  HomeworkSubmission,
+  HomeworkTask,
+  Pet,
+  PetProgram,
+  ResumableUpload,
+  TaskTemplate,
+  TrainingProgram,
+  User,
+  Workspace,
+  WorkspaceDigest,
+  WorkspaceInvite,
+} from "@shared/schema";
+
+// One workspace with a head trainer, an assistant assigned to the pet and one
+// who isn't, the pet's owner and another client, plus a head trainer from a
+// different workspace and an admin with no memberships. Only the fields the
+// policy reads are filled in.
+const fixture = vi.hoisted(() => {
+  const workspace = { id: "ws", trainerUserId: "head", staffSeeAllPets: true } as Workspace;
+  const otherWorkspace = { id: "ws-other", trainerUserId: "outsider", staffSeeAllPets: true } as Workspace;
+  const memberships = [
+    { workspaceId: "ws", userId: "head", role: "HEAD_TRAINER" },
+    { workspaceId: "ws", userId: "assigned", role: "ASSISTANT" },
+    { workspaceId: "ws", userId: "assistant", role: "ASSISTANT" },
+    { workspaceId: "ws", userId: "owner", role: "OWNER" },
+    { workspaceId: "ws", userId: "client", role: "OWNER" },
+    { workspaceId: "ws-other", userId: "outsider", role: "HEAD_TRAINER" },
+  ];
+  const pet = { id: "pet", ownerId: "owner", trainerId: "assigned", workspaceId: "ws" } as Pet;
+  const task = { id: "task", petId: "pet" } as HomeworkTask;
+  const submission = { id: "submission", taskId: "task" } as HomeworkSubmission;
+  const petProgram = { id: "pet-program", petId: "pet" } as PetProgram;
+  const upload = { id: "upload", petId: "pet", userId: "owner" } as ResumableUpload;
+  const inWorkspace = (id: string) => ({ id, workspaceId: "ws" });
+
+  return {
+    workspace,
+    resources: {
+      pet,
+      task,
+      submission,
+      "pet-program": petProgram,
+      workspace,
+      invite: inWorkspace("invite") as WorkspaceInvite,
+      "client-invitation": inWorkspace("client-invitation") as ClientInvitation,
+      template: inWorkspace("template") as TaskTemplate,
+      program: inWorkspace("program") as TrainingProgram,
+      digest: inWorkspace("digest") as WorkspaceDigest,
+      upload,
+    },
+    storage: {
+      getUser: async (id: string) => ({ id, role: id === "admin" ? "ADMIN" : null }) as User,
+      getPet: async (id: string) => (id === pet.id ? pet : undefined),
+      getTask: async (id: string) => (id === task.id ? task : undefined),
+      getResumableUpload: async (id: string) => (id === upload.id ? upload : undefined),
+      getWorkspace: async (id: string) => [workspace, otherWorkspace].find((w) => w.id === id),
+      getWorkspaceMembership: async (workspaceId: string, userId: string) =>
+        memberships.find((m) => m.workspaceId === workspaceId && m.userId === userId),
+      getStaffMemberships: async (userId: string) =>
+        memberships.filter((m) => m.userId === userId && m.role !== "OWNER"),
+    },
+  };
+});
+
+vi.mock("./storage", () => ({ storage: fixture.storage }));
+
+const { authorize, can } = await import("./policy");
+type Action = Parameters<typeof can>[1];
+
+const USERS = ["head", "assigned", "assistant", "owner", "client", "outsider", "admin"] as const;
+type UserName = (typeof USERS)[number];
+
+function user(name: UserName): User {
+  return { id: name, role: name === "admin" ? "ADMIN" : null } as User;
+}
+
+// Who each rule lets through, with and without the workspace sharing every
+// client with its assistants.
+const RULES: Record<string, (sharing: boolean) => UserName[]> = {
+  viewer: (sharing) => ["head", "assigned", "owner", "admin", ...(sharing ? (["assistant"] as const) : [])],
+  owner: () => ["owner", "admin"],
+  submitter: () => ["owner"],
+  trainer: (sharing) => ["head", "assigned", "admin", ...(sharing ? (["assistant"] as const) : [])],
+  "head-trainer": () => ["head", "admin"],
+  staff: () => ["head", "assigned", "assistant", "admin"],
+  uploader: () => ["owner"],
+};
+
+const ACTIONS: [Action, keyof typeof fixture.resources, keyof typeof RULES][] = [
+  ["pet.view", "pet", "viewer"],
+  ["pet.edit", "pet", "owner"],
+  ["pet.message", "pet", "viewer"],
+  ["pet.upload", "pet", "viewer"],
+  ["pet.train", "pet", "trainer"],
+  ["pet.assign", "pet", "head-trainer"],
+  ["task.view", "task", "viewer"],
+  ["task.manage", "task", "trainer"],
+  ["task.schedule", "task", "owner"],
+  ["task.submit", "task", "submitter"],
+  ["submission.view", "submission", "viewer"],
+  ["submission.review", "submission", "trainer"],
+  ["submission.comment", "submission", "viewer"],
+  ["pet-program.manage", "pet-program", "trainer"],
+  ["workspace.view", "workspace", "staff"],
+  ["workspace.manage", "workspace", "head-trainer"],
+  ["workspace.invite", "workspace", "staff"],
+  ["template.create", "workspace", "staff"],
+  ["program.create", "workspace", "staff"],
+  ["invite.manage", "invite", "staff"],
+  ["client-invitation.manage", "client-invitation", "staff"],
+  ["template.view", "template", "staff"],
+  ["template.manage", "template", "staff"],
+  ["program.view", "program", "staff"],
+  ["program.manage", "program", "staff"],
+  ["digest.view", "digest", "staff"],
+  ["upload.write", "upload", "uploader"],
+];
+
+describe.each([true, false])("can() with staffSeeAllPets %s", (sharing) => {
+  beforeEach(() => {
+    fixture.workspace.staffSeeAllPets = sharing;
+  });
+
+  const cases = ACTIONS.flatMap(([action, kind, rule]) =>
+    USERS.map((name) => ({ action, kind, rule, name, allowed: RULES[rule](sharing).includes(name) })),
+  );
+
+  it.each(cases)("$action ($rule): $name → $allowed", async ({ action, kind, name, allowed }) => {
+    expect(await can(user(name), action, fixture.resources[kind])).toBe(allowed);
+  });
+});
+
+describe("can() on pets outside a workspace", () => {
+  it("falls back to the assigned trainer's workspace", async () => {
+    const pet = { ...fixture.resources.pet, workspaceId: null, trainerId: "head" };
+    fixture.workspace.staffSeeAllPets = true;
+    expect(await can(user("assistant"), "pet.train", pet)).toBe(true);
+    expect(await can(user("outsider"), "pet.train", pet)).toBe(false);
+  });
+});
+
+describe("authorize()", () => {
+  // Runs the middleware as `name` (signed out when null) and reports what it
+  // answered, or that it passed the request on.
+  async function run(
+    name: UserName | null,
+    handler: ReturnType<typeof authorize>,
+    request: { params?: Record<string, string>; body?: Record<string, unknown>; session?: Record<string, string> } = {},
+  ) {
+    const req: any = { params: {}, ...request, user: name ? { claims: { sub: name } } : undefined };
+    const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+    const next = vi.fn();
+    await handler(req, res, next);
+    return {
+      req,
+      status: next.mock.calls.length > 0 ? null : res.status.mock.calls[0]?.[0],
+      message: res.json.mock.calls[0]?.[0]?.message,
+    };
+  }
+
+  beforeEach(() => {
+    fixture.workspace.staffSeeAllPets = false;
+  });
+
+  it("answers 401 when nobody is signed in", async () => {
+    expect(await run(null, authorize("pet.view"), { params: { id: "pet" } })).toMatchObject({ status: 401 });
+  });
+
+  it("answers 404 with the resource's label when it doesn't exist", async () => {
+    expect(await run("head", authorize("pet.view"), { params: { id: "missing" } })).toMatchObject({
+      status: 404,
+      message: "Pet not found",
+    });
+    expect(await run("owner", authorize("upload.write"), { params: { id: "missing" } })).toMatchObject({
+      status: 404,
+      message: "Upload not found",
+    });
+  });
+
+  it("answers 403 with the rule's message when the action is denied", async () => {
+    expect(await run("assistant", authorize("task.manage"), { params: { id: "task" } })).toMatchObject({
+      status: 403,
+      message: "You're not assigned to this pet",
+    });
+    expect(await run("admin", authorize("upload.write"), { params: { id: "upload" } })).toMatchObject({ status: 403 });
+  });
+
+  it("leaves the user, the resource and its pet on the request", async () => {
+    const { req, status } = await run("assigned", authorize("task.manage", "taskId"), { params: { taskId: "task" } });
+    expect(status).toBeNull();
+    expect(req.appUser.id).toBe("assigned");
+    expect(req.task).toBe(fixture.resources.task);
+    expect(req.pet).toBe(fixture.resources.pet);
+  });
+
+  it("reads the resource from the body when asked to", async () => {
+    const allowed = await run("owner", authorize("pet.upload", "petId", "body"), { body: { petId: "pet" } });
+    expect(allowed.status).toBeNull();
+    expect(allowed.req.pet).toBe(fixture.resources.pet);
+
+    expect(await run("owner", authorize("pet.upload", "petId", "body"), { params: { petId: "pet" } })).toMatchObject({
+      status: 404,
+    });
+    expect(await run("client", authorize("pet.upload", "petId", "body"), { body: { petId: "pet" } })).toMatchObject({
+      status: 403,
+    });
+  });
+
+  it("applies workspace actions without a parameter to the active workspace", async () => {
+    const { req, status } = await run("assistant", authorize("workspace.view"), { session: { activeWorkspaceId: "ws" } });
+    expect(status).toBeNull();
+    expect(req.workspace).toBe(fixture.workspace);
+
+    expect(await run("assistant", authorize("workspace.manage"))).toMatchObject({
+      status: 403,
+      message: "Only head trainers can do that",
+    });
+    expect(await run("owner", authorize("workspace.view"))).toMatchObject({ status: 404, message: "No workspace found" });
+  });
+});
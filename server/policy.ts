@@ -0,0 +1,261 @@
+import type { RequestHandler } from "express";
+import type {
+  ClientInvitation,
+  HomeworkSubmission,
+  HomeworkTask,
+  Pet,
+  PetProgram,
+  PetWithRelations,
+  ResumableUpload,
+  TaskTemplate,
+  TrainingProgram,
+  User,
+  Workspace,
+  WorkspaceDigest,
+  WorkspaceInvite,
+} from "@shared/schema";
+import { isStaffRole } from "@shared/staff";
+import { activeWorkspaceId } from "./active-workspace";
+import { storage } from "./storage";
+import { getStaffWorkspace, workspaceForPet } from "./staff";
+
+// Every permission check goes through can(user, action, resource). Actions
+// name the kind of resource they apply to; pet-level resources (tasks,
+// submissions, program assignments) are resolved to their pet and
+// workspace-level ones (invites, templates, programs, digests) to their
+// workspace, and the action's rule is checked there. Resumable uploads are
+// only ever open to the user who started them. Admins pass every rule except
+// "submitter" and "uploader".
+
+type PolicyResources = {
+  pet: Pet;
+  task: HomeworkTask;
+  submission: HomeworkSubmission;
+  "pet-program": PetProgram;
+  workspace: Workspace;
+  invite: WorkspaceInvite;
+  "client-invitation": ClientInvitation;
+  template: TaskTemplate;
+  program: TrainingProgram;
+  digest: WorkspaceDigest;
+  upload: ResumableUpload;
+};
+
+type ResourceKind = keyof PolicyResources;
+
+// viewer: the pet's owner or staff who may train it
+// owner: the pet's owner
+// submitter: the pet's owner, admins included only when they own the pet
+// trainer: staff who may train the pet (see canTrainPet)
+// head-trainer: head trainers of the pet's or resource's workspace
+// staff: any staff member of the resource's workspace
+// uploader: the user who started the upload
+type PolicyRule = "viewer" | "owner" | "submitter" | "trainer" | "head-trainer" | "staff" | "uploader";
+
+const POLICY_ACTIONS = {
+  "pet.view": ["pet", "viewer"],
+  "pet.edit": ["pet", "owner"],
+  "pet.message": ["pet", "viewer"],
+  "pet.upload": ["pet", "viewer"],
+  "pet.train": ["pet", "trainer"],
+  "pet.assign": ["pet", "head-trainer"],
+  "task.view": ["task", "viewer"],
+  "task.manage": ["task", "trainer"],
+  "task.schedule": ["task", "owner"],
+  "task.submit": ["task", "submitter"],
+  "submission.view": ["submission", "viewer"],
+  "submission.review": ["submission", "trainer"],
+  "submission.comment": ["submission", "viewer"],
+  "pet-program.manage": ["pet-program", "trainer"],
+  "workspace.view": ["workspace", "staff"],
+  "workspace.manage": ["workspace", "head-trainer"],
+  "workspace.invite": ["workspace", "staff"],
+  "template.create": ["workspace", "staff"],
+  "program.create": ["workspace", "staff"],
+  "invite.manage": ["invite", "staff"],
+  "client-invitation.manage": ["client-invitation", "staff"],
+  "template.view": ["template", "staff"],
+  "template.manage": ["template", "staff"],
+  "program.view": ["program", "staff"],
+  "program.manage": ["program", "staff"],
+  "digest.view": ["digest", "staff"],
+  "upload.write": ["upload", "uploader"],
+} as const satisfies Record<string, readonly [ResourceKind, PolicyRule]>;
+
+export type PolicyAction = keyof typeof POLICY_ACTIONS;
+type ActionKind<A extends PolicyAction> = (typeof POLICY_ACTIONS)[A][0];
+export type PolicyResource<A extends PolicyAction> = PolicyResources[ActionKind<A>];
+
+const DENIED_MESSAGES: Record<PolicyRule, string> = {
+  viewer: "Access denied",
+  owner: "Only the pet owner can do that",
+  submitter: "Access denied",
+  trainer: "You're not assigned to this pet",
+  "head-trainer": "Only head trainers can do that",
+  staff: "This belongs to another workspace",
+  uploader: "Access denied",
+};
+
+async function resolvePet(kind: ResourceKind, resource: any): Promise<PetWithRelations | undefined> {
+  switch (kind) {
+    case "pet":
+      return resource;
+    case "task":
+    case "pet-program":
+      return storage.getPet(resource.petId);
+    case "submission": {
+      const task = await storage.getTask(resource.taskId);
+      return task ? storage.getPet(task.petId) : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function resolveWorkspaceId(kind: ResourceKind, resource: any): string | undefined {
+  switch (kind) {
+    case "workspace":
+      return resource.id;
+    case "invite":
+    case "client-invitation":
+    case "template":
+    case "program":
+    case "digest":
+      return resource.workspaceId;
+    default:
+      return undefined;
+  }
+}
+
+async function workspaceRole(workspaceId: string, userId: string): Promise<string | undefined> {
+  return (await storage.getWorkspaceMembership(workspaceId, userId))?.role;
+}
+
+// Whether the user may work with the pet as its trainer. The assigned trainer
+// and the workspace's head trainers always can; assistants can work with
+// colleagues' pets when the workspace shares clients between staff.
+async function canTrainPet(user: User, pet: Pet): Promise<boolean> {
+  if (pet.trainerId === user.id) return true;
+
+  const workspace = await workspaceForPet(pet);
+  if (!workspace) return false;
+
+  const role = await workspaceRole(workspace.id, user.id);
+  if (role === "HEAD_TRAINER") return true;
+  return role === "ASSISTANT" && workspace.staffSeeAllPets;
+}
+
+async function checkPetRule(user: User, rule: Exclude<PolicyRule, "uploader">, pet: Pet): Promise<boolean> {
+  switch (rule) {
+    case "viewer":
+      return pet.ownerId === user.id || canTrainPet(user, pet);
+    case "owner":
+    case "submitter":
+      return pet.ownerId === user.id;
+    case "trainer":
+      return canTrainPet(user, pet);
+    case "head-trainer": {
+      const workspace = await workspaceForPet(pet);
+      return !!workspace && (await workspaceRole(workspace.id, user.id)) === "HEAD_TRAINER";
+    }
+    case "staff": {
+      const workspace = await workspaceForPet(pet);
+      return !!workspace && isStaffRole(await workspaceRole(workspace.id, user.id));
+    }
+  }
+}
+
+async function checkWorkspaceRule(user: User, rule: PolicyRule, workspaceId: string): Promise<boolean> {
+  const role = await workspaceRole(workspaceId, user.id);
+  if (rule === "head-trainer") return role === "HEAD_TRAINER";
+  if (rule === "staff") return isStaffRole(role);
+  return false;
+}
+
+type PolicyDecision = {
+  allowed: boolean;
+  pet?: PetWithRelations;
+};
+
+async function decide(user: User, action: PolicyAction, resource: unknown): Promise<PolicyDecision> {
+  const [kind, rule] = POLICY_ACTIONS[action];
+  if (rule === "uploader") {
+    return { allowed: (resource as ResumableUpload).userId === user.id };
+  }
+
+  const workspaceId = resolveWorkspaceId(kind, resource);
+  if (workspaceId) {
+    return { allowed: user.role === "ADMIN" || (await checkWorkspaceRule(user, rule, workspaceId)) };
+  }
+
+  const pet = await resolvePet(kind, resource);
+  if (!pet) return { allowed: false };
+  if (user.role === "ADMIN" && rule !== "submitter") return { allowed: true, pet };
+  return { allowed: await checkPetRule(user, rule, pet), pet };
+}
+
+export async function can<A extends PolicyAction>(user: User, action: A, resource: PolicyResource<A>): Promise<boolean> {
+  return (await decide(user, action, resource)).allowed;
+}
+
+// Where authorize() finds each kind of resource, and the request property it
+// is left on for the handler.
+const RESOURCE_LOADERS: Record<ResourceKind, { property: string; label: string; load: (id: string) => Promise<unknown> }> = {
+  pet: { property: "pet", label: "Pet not found", load: (id) => storage.getPet(id) },
+  task: { property: "task", label: "Task not found", load: (id) => storage.getTask(id) },
+  submission: { property: "submission", label: "Submission not found", load: (id) => storage.getSubmission(id) },
+  "pet-program": { property: "petProgram", label: "Program assignment not found", load: (id) => storage.getPetProgram(id) },
+  workspace: { property: "workspace", label: "No workspace found", load: (id) => storage.getWorkspace(id) },
+  invite: { property: "invite", label: "Invite link not found", load: (id) => storage.getWorkspaceInvite(id) },
+  "client-invitation": { property: "clientInvitation", label: "Invitation not found", load: (id) => storage.getClientInvitation(id) },
+  template: { property: "template", label: "Template not found", load: (id) => storage.getTaskTemplate(id) },
+  program: { property: "program", label: "Program not found", load: (id) => storage.getProgram(id) },
+  digest: { property: "digest", label: "Digest not found", load: (id) => storage.getWorkspaceDigest(id) },
+  upload: { property: "upload", label: "Upload not found", load: (id) => storage.getResumableUpload(id) },
+};
+
+// Loads the resource named by the route parameter (or, with source "body", by
+// that field of the request body), checks the action against it and leaves
+// what was loaded on the request: req.appUser, the resource (req.pet,
+// req.task, req.submission, ...) and, for pet-level resources, req.pet.
+// Workspace actions without a parameter apply to the workspace the signed-in
+// trainer is working in.
+export function authorize(action: PolicyAction, param?: string, source: "params" | "body" = "params"): RequestHandler {
+  const [kind] = POLICY_ACTIONS[action];
+  const loader = RESOURCE_LOADERS[kind];
+
+  return async (req: any, res, next) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const user: User | undefined = req.appUser ?? (userId ? await storage.getUser(userId) : undefined);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const name = param ?? (kind === "workspace" ? undefined : "id");
+      const id = name ? req[source]?.[name] : undefined;
+      let resource: unknown;
+      if (!name) {
+        resource = await getStaffWorkspace(user.id, activeWorkspaceId(req));
+      } else if (typeof id === "string") {
+        resource = await loader.load(id);
+      }
+      if (!resource) {
+        return res.status(404).json({ message: loader.label });
+      }
+
+      const decision = await decide(user, action, resource);
+      if (!decision.allowed) {
+        return res.status(403).json({ message: DENIED_MESSAGES[POLICY_ACTIONS[action][1]] });
+      }
+
+      req.appUser = user;
+      req[loader.property] = resource;
+      if (decision.pet) req.pet = decision.pet;
+      next();
+    } catch (error) {
+      console.error(`Error authorizing ${action}:`, error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
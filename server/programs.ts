@@ -0,0 +1,241 @@
+import { addWeeks } from "date-fns";
+import { storage, type TaskSetup } from "./storage";
+import { notifyTaskCreated } from "./notifications";
+import { publishPetEvent } from "./realtime";
+import { copyMediaFields } from "./media";
+import {
+  describeRecurrence,
+  getTaskRecurrence,
+  rebaseRecurrence,
+  toDateKey,
+} from "@shared/recurrence";
+import type {
+  HomeworkTask,
+  InsertHomeworkTask,
+  PetProgram,
+  ProgramPhaseWithRelations,
+  TaskTemplateWithRelations,
+  TrainingProgramWithRelations,
+} from "@shared/schema";
+
+const PROGRAM_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+type TemplateTaskOptions = {
+  createdByTrainerId: string;
+  startDate: Date;
+  petProgramId?: string;
+  programPhaseId?: string;
+};
+
+// The task a template becomes, with its recurrence moved to start on `startDate`.
+export function taskFieldsFromTemplate(
+  template: TaskTemplateWithRelations,
+  task: TemplateTaskOptions,
+): Omit<InsertHomeworkTask, "petId"> {
+  const recurrence = rebaseRecurrence(getTaskRecurrence(template), toDateKey(task.startDate));
+  return {
+    createdByTrainerId: task.createdByTrainerId,
+    title: template.title,
+    instructions: template.instructions,
+    frequency: describeRecurrence(recurrence),
+    recurrence,
+    expectedDurationMins: template.expectedDurationMins,
+    isActive: true,
+    petProgramId: task.petProgramId ?? null,
+    programPhaseId: task.programPhaseId ?? null,
+  };
+}
+
+export async function createTaskFromTemplate(
+  template: TaskTemplateWithRelations,
+  task: TemplateTaskOptions & { petId: string },
+): Promise<HomeworkTask> {
+  const created = await storage.createTask({
+    petId: task.petId,
+    ...taskFieldsFromTemplate(template, task),
+  });
+
+  await copyTemplateMedia(template, created.id);
+  return created;
+}
+
+export async function copyTemplateMedia(template: TaskTemplateWithRelations, taskId: string): Promise<void> {
+  for (const media of template.media || []) {
+    await storage.createTaskMedia({
+      taskId,
+      ...copyMediaFields(media),
+    });
+  }
+}
+
+export function getPhaseEnd(petProgram: PetProgram, phase: ProgramPhaseWithRelations): Date {
+  return addWeeks(new Date(petProgram.phaseStartedAt), phase.durationWeeks);
+}
+
+// The tasks a phase starts with, one per template, for creating along with
+// the phase change.
+function phaseTasks(petProgram: PetProgram, phase: ProgramPhaseWithRelations, startDate: Date): TaskSetup[] {
+  return (phase.templates || []).flatMap((link) =>
+    link.template
+      ? [{
+          task: taskFieldsFromTemplate(link.template, {
+            createdByTrainerId: petProgram.assignedByUserId,
+            startDate,
+            petProgramId: petProgram.id,
+            programPhaseId: phase.id,
+          }),
+          media: (link.template.media || []).map(copyMediaFields),
+        }]
+      : [],
+  );
+}
+
+// Notifies the owner and refreshes open pages for tasks that were created
+// together in a transaction, once it has committed.
+export async function announceCreatedTasks(petId: string, tasks: HomeworkTask[], createdByUserId: string): Promise<void> {
+  if (tasks.length === 0) return;
+  const pet = await storage.getPet(petId);
+  for (const task of tasks) {
+    if (pet) {
+      await notifyTaskCreated(task, pet, createdByUserId);
+    }
+    await publishPetEvent(petId, "task.created", { taskId: task.id });
+  }
+}
+
+async function startPhase(
+  petProgram: PetProgram,
+  phase: ProgramPhaseWithRelations,
+  startDate: Date,
+): Promise<void> {
+  const tasks: HomeworkTask[] = [];
+  for (const link of phase.templates || []) {
+    if (!link.template) continue;
+    tasks.push(await createTaskFromTemplate(link.template, {
+      petId: petProgram.petId,
+      createdByTrainerId: petProgram.assignedByUserId,
+      startDate,
+      petProgramId: petProgram.id,
+      programPhaseId: phase.id,
+    }));
+  }
+  await announceCreatedTasks(petProgram.petId, tasks, petProgram.assignedByUserId);
+}
+
+export async function assignProgram(
+  program: TrainingProgramWithRelations,
+  petId: string,
+  assignedByUserId: string,
+): Promise<PetProgram> {
+  const now = new Date();
+  const petProgram = await storage.createPetProgram({
+    petId,
+    programId: program.id,
+    assignedByUserId,
+    status: "ACTIVE",
+    currentPhaseIndex: 0,
+    phaseStartedAt: now,
+  });
+
+  const firstPhase = program.phases?.[0];
+  if (firstPhase) {
+    await startPhase(petProgram, firstPhase, now);
+  }
+  return petProgram;
+}
+
+// Closes the current phase's tasks at `at` and opens the next phase from the
+// same moment. Past the last phase the program is marked completed instead.
+// Returns undefined when someone else moved the program on first. The move,
+// the closed tasks and the new ones are written in one transaction;
+// notifications and events go out after it commits.
+export async function advancePetProgram(
+  petProgram: PetProgram,
+  program: TrainingProgramWithRelations,
+  at: Date = new Date(),
+): Promise<PetProgram | undefined> {
+  const phases = program.phases || [];
+  const currentPhase = phases[petProgram.currentPhaseIndex];
+  const nextIndex = petProgram.currentPhaseIndex + 1;
+  const nextPhase = phases[nextIndex];
+
+  const moved = await storage.movePetProgramPhase(
+    petProgram.id,
+    petProgram,
+    nextPhase
+      ? { status: "ACTIVE", currentPhaseIndex: nextIndex, phaseStartedAt: at, heldAt: null }
+      : { status: "COMPLETED", currentPhaseIndex: phases.length, completedAt: at, heldAt: null },
+    {
+      closePhaseId: currentPhase?.id ?? null,
+      closedAt: at,
+      tasks: nextPhase ? phaseTasks(petProgram, nextPhase, at) : [],
+    },
+  );
+  if (!moved) return undefined;
+
+  if (currentPhase) {
+    await publishPetEvent(petProgram.petId, "task.updated");
+  }
+  await announceCreatedTasks(petProgram.petId, moved.tasks, petProgram.assignedByUserId);
+  return moved.petProgram;
+}
+
+export async function holdPetProgram(petProgram: PetProgram): Promise<PetProgram> {
+  if (petProgram.status !== "ACTIVE") return petProgram;
+  const held = await storage.updatePetProgram(petProgram.id, { status: "ON_HOLD", heldAt: new Date() });
+  return held!;
+}
+
+// Resuming pushes the phase start forward by the time spent on hold, so the
+// pet still gets the full phase duration.
+export async function resumePetProgram(petProgram: PetProgram): Promise<PetProgram> {
+  if (petProgram.status !== "ON_HOLD") return petProgram;
+  const heldFor = petProgram.heldAt ? Date.now() - new Date(petProgram.heldAt).getTime() : 0;
+  const resumed = await storage.updatePetProgram(petProgram.id, {
+    status: "ACTIVE",
+    heldAt: null,
+    phaseStartedAt: new Date(new Date(petProgram.phaseStartedAt).getTime() + heldFor),
+  });
+  return resumed!;
+}
+
+// Advances through every phase whose duration has elapsed. Each phase starts
+// where the previous one ended rather than "now", so a late sync doesn't
+// stretch the schedule.
+export async function syncPetProgram(petProgram: PetProgram, now: Date = new Date()): Promise<PetProgram> {
+  if (petProgram.status !== "ACTIVE") return petProgram;
+
+  const program = await storage.getProgram(petProgram.programId);
+  if (!program) return petProgram;
+
+  let current = petProgram;
+  while (current.status === "ACTIVE") {
+    const phase = program.phases?.[current.currentPhaseIndex];
+    if (!phase) break;
+    const phaseEnd = getPhaseEnd(current, phase);
+    if (phaseEnd > now) break;
+    const advanced = await advancePetProgram(current, program, phaseEnd);
+    if (!advanced) break;
+    current = advanced;
+  }
+  return current;
+}
+
+export async function syncAllPetPrograms(): Promise<void> {
+  const active = await storage.getActivePetPrograms();
+  for (const petProgram of active) {
+    try {
+      await syncPetProgram(petProgram);
+    } catch (error) {
+      console.error(`Error syncing pet program ${petProgram.id}:`, error);
+    }
+  }
+}
+
+export function startProgramScheduler(): void {
+  const run = () => {
+    syncAllPetPrograms().catch((error) => console.error("Error syncing pet programs:", error));
+  };
+  run();
+  setInterval(run, PROGRAM_SYNC_INTERVAL_MS);
+}
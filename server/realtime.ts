@@ -0,0 +1,124 @@
+import type { Response } from "express";
+import type { PoolClient, Notification } from "pg";
+import { pool } from "./db";
+import { PET_EVENT_TYPES, type PetEvent, type PetEventType } from "@shared/schema";
+
+// Every instance LISTENs on the same channel and publishes with NOTIFY, so an
+// event raised on one instance reaches browsers connected to any of them.
+const CHANNEL = "pawsync_pet_events";
+const HEARTBEAT_MS = 25 * 1000;
+const RECONNECT_MS = 5 * 1000;
+
+// Access can be lost while a stream is open (removed from the staff, pet
+// reassigned), so it is checked again before every write. Writes for one
+// stream are chained to keep events in order.
+type Subscriber = {
+  res: Response;
+  canView: () => Promise<boolean>;
+  pending: Promise<void>;
+};
+
+const subscribers = new Map<string, Set<Subscriber>>();
+let listener: PoolClient | null = null;
+
+function send(subscriber: Subscriber, frame: string): void {
+  subscriber.pending = subscriber.pending.then(async () => {
+    if (subscriber.res.writableEnded) return;
+    try {
+      if (!(await subscriber.canView())) {
+        subscriber.res.end();
+        return;
+      }
+      subscriber.res.write(frame);
+    } catch (error) {
+      console.error("Error checking pet event stream access:", error);
+      subscriber.res.end();
+    }
+  });
+}
+
+function dispatch(event: PetEvent): void {
+  const streams = subscribers.get(event.petId);
+  if (!streams) return;
+  const frame = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+  for (const subscriber of Array.from(streams)) {
+    send(subscriber, frame);
+  }
+}
+
+function handleNotification(message: Notification): void {
+  if (message.channel !== CHANNEL || !message.payload) return;
+  try {
+    const event = JSON.parse(message.payload) as PetEvent;
+    if (PET_EVENT_TYPES.includes(event.type)) {
+      dispatch(event);
+    }
+  } catch (error) {
+    console.error("Error parsing pet event:", error);
+  }
+}
+
+async function connectListener(): Promise<void> {
+  try {
+    const client = await pool.connect();
+    client.on("notification", handleNotification);
+    client.on("error", (error) => {
+      console.error("Realtime listener error:", error);
+      client.release(error);
+      if (listener === client) listener = null;
+      setTimeout(connectListener, RECONNECT_MS);
+    });
+    await client.query(`LISTEN ${CHANNEL}`);
+    listener = client;
+  } catch (error) {
+    console.error("Error starting realtime listener:", error);
+    setTimeout(connectListener, RECONNECT_MS);
+  }
+}
+
+export function startRealtime(): void {
+  if (!listener) {
+    connectListener();
+  }
+}
+
+// Like notifications, publishing is a side effect and never fails the request.
+export async function publishPetEvent(
+  petId: string,
+  type: PetEventType,
+  ids: { taskId?: string; submissionId?: string } = {},
+): Promise<void> {
+  const event: PetEvent = { petId, type, ...ids, at: new Date().toISOString() };
+  try {
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, JSON.stringify(event)]);
+  } catch (error) {
+    console.error("Error publishing pet event:", error);
+  }
+}
+
+// `canView` re-checks the viewer's access to the pet; the stream is closed as
+// soon as it fails, at the latest on the next heartbeat.
+export function subscribeToPet(petId: string, res: Response, canView: () => Promise<boolean>): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const subscriber: Subscriber = { res, canView, pending: Promise.resolve() };
+  const streams = subscribers.get(petId) ?? new Set<Subscriber>();
+  streams.add(subscriber);
+  subscribers.set(petId, streams);
+
+  const heartbeat = setInterval(() => send(subscriber, ": ping\n\n"), HEARTBEAT_MS);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    streams.delete(subscriber);
+    if (streams.size === 0) {
+      subscribers.delete(petId);
+    }
+  });
+}
@@ -0,0 +1,82 @@
+import { parseISO, subDays } from "date-fns";
+import { storage } from "./storage";
+import { notifyHomeworkReminder } from "./notifications";
+import { taskOccursOn } from "@shared/recurrence";
+import { DEFAULT_REMINDER_SETTINGS, getZonedClock, isInQuietHours, toMinutes } from "@shared/reminders";
+import type { HomeworkTask, Pet } from "@shared/schema";
+
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+
+type OwnerTasks = Map<string, { pet: Pet; tasks: HomeworkTask[] }>;
+
+async function remindOwner(ownerId: string, petsWithTasks: OwnerTasks, now: Date): Promise<void> {
+  const settings = (await storage.getReminderSettings(ownerId)) ?? { ...DEFAULT_REMINDER_SETTINGS, snoozedUntil: null };
+  if (!settings.enabled) return;
+  if (settings.snoozedUntil && settings.snoozedUntil > now) return;
+
+  const clock = getZonedClock(now, settings.timezone);
+  if (clock.minutes < toMinutes(settings.reminderTime)) return;
+  if (isInQuietHours(clock.minutes, settings.quietHoursStart, settings.quietHoursEnd)) return;
+
+  // occursOn compares calendar dates, so the owner's local date is parsed as a
+  // plain day rather than converted back to an instant.
+  const today = parseISO(clock.dateKey);
+
+  for (const { pet, tasks } of Array.from(petsWithTasks.values())) {
+    const due = tasks.filter((task) => taskOccursOn(task, today));
+    if (due.length === 0) continue;
+
+    const recent = await storage.getSubmissionsForTasksSince(
+      due.map((task) => task.id),
+      subDays(now, 1),
+    );
+    const doneToday = new Set(
+      recent
+        .filter((submission) => getZonedClock(submission.submittedAt, settings.timezone).dateKey === clock.dateKey)
+        .map((submission) => submission.taskId),
+    );
+    const pending = due.filter((task) => !doneToday.has(task.id));
+    if (pending.length === 0) continue;
+
+    // The ledger row is written before sending: a crash between the two loses
+    // one reminder rather than sending it twice.
+    const claimed = await storage.claimHomeworkReminder({
+      userId: ownerId,
+      petId: pet.id,
+      dueDate: clock.dateKey,
+      taskIds: pending.map((task) => task.id),
+    });
+    if (!claimed) continue;
+
+    await notifyHomeworkReminder(pet, pending);
+  }
+}
+
+export async function sendDueReminders(now: Date = new Date()): Promise<void> {
+  const tasks = await storage.getActiveTasksWithPets();
+
+  const byOwner = new Map<string, OwnerTasks>();
+  for (const { pet, ...task } of tasks) {
+    const pets = byOwner.get(pet.ownerId) ?? new Map();
+    const entry = pets.get(pet.id) ?? { pet, tasks: [] };
+    entry.tasks.push(task);
+    pets.set(pet.id, entry);
+    byOwner.set(pet.ownerId, pets);
+  }
+
+  for (const [ownerId, petsWithTasks] of Array.from(byOwner.entries())) {
+    try {
+      await remindOwner(ownerId, petsWithTasks, now);
+    } catch (error) {
+      console.error(`Error sending reminders to ${ownerId}:`, error);
+    }
+  }
+}
+
+export function startReminderScheduler(): void {
+  const run = () => {
+    sendDueReminders().catch((error) => console.error("Error sending homework reminders:", error));
+  };
+  run();
+  setInterval(run, REMINDER_INTERVAL_MS);
+}
@@ -18,6 +18,19 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+// A path on this site to send people back to after signing in, or null.
+// Browsers treat a backslash like "/" and drop tabs and newlines, so values
+// like "/\evil.com" would leave the site. Whatever passes is also resolved
+// against a fixed origin to make sure it stays on it.
+function sameOriginPath(value: unknown): string | null {
+  if (typeof value !== "string" || !value.startsWith("/")) return null;
+  if (/[\\\u0000-\u001f\u007f]/.test(value)) return null;
+  const origin = "http://localhost";
+  const url = new URL(value, origin);
+  if (url.origin !== origin) return null;
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
@@ -104,6 +117,11 @@ export async function setupAuth(app: Express) {
 
   app.get("/api/login", (req, res, next) => {
     ensureStrategy(req.hostname);
+    // Lets pages such as /join send people back to them after signing in.
+    const returnTo = sameOriginPath(req.query.returnTo);
+    if (returnTo) {
+      (req.session as any).returnTo = returnTo;
+    }
     passport.authenticate(`replitauth:${req.hostname}`, {
       prompt: "login consent",
       scope: ["openid", "email", "profile", "offline_access"],
@@ -115,6 +133,7 @@ export async function setupAuth(app: Express) {
     passport.authenticate(`replitauth:${req.hostname}`, {
       successReturnToOrRedirect: "/",
       failureRedirect: "/api/login",
+      keepSessionInfo: true,
     })(req, res, next);
   });
 
@@ -1,27 +1,127 @@
 import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import express from "express";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import crypto from "crypto";
+import os from "os";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, registerAuthRoutes } from "./replit_integrations/auth";
-import { insertPetSchema, insertHomeworkTaskSchema, insertHomeworkSubmissionSchema, insertTrainerCommentSchema } from "@shared/schema";
-
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
+import { insertPetSchema, insertHomeworkTaskSchema, insertHomeworkSubmissionSchema, insertTrainerCommentSchema, REVIEW_STATUSES, EMAIL_EVENTS, type ClientInvitation, type HomeworkSubmissionWithRelations, type TaskTemplateWithRelations } from "@shared/schema";
+import {
+  recurrenceRuleSchema,
+  parseLegacyFrequency,
+  describeRecurrence,
+  expandTaskOccurrences,
+  getTaskRecurrence,
+  rebaseRecurrence,
+  toDateKey,
+  MAX_EXPANSION_DAYS,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+import { computeCompliance } from "@shared/compliance";
+import { DEFAULT_REMINDER_SETTINGS, reminderSettingsInputSchema } from "@shared/reminders";
+import { DEFAULT_DIGEST_SETTINGS, digestSettingsInputSchema } from "@shared/digest";
+import {
+  CLIENT_INVITATION_EXPIRY_DAYS,
+  clientInvitationInputSchema,
+  clientInvitationStatus,
+  inviteInputSchema,
+  inviteStatus,
+} from "@shared/invites";
+import {
+  ALLOWED_UPLOAD_TYPES,
+  DEFAULT_MAX_UPLOAD_MB,
+  MAX_PHOTO_UPLOAD_MB,
+  PHOTO_UPLOAD_TYPES,
+  storageQuotaInputSchema,
+  uploadSettingsInputSchema,
+} from "@shared/media";
+import {
+  activeWorkspaceInputSchema,
+  addStaffInputSchema,
+  assignPetInputSchema,
+  isStaffRole,
+  staffSettingsInputSchema,
+  updateStaffRoleInputSchema,
+} from "@shared/staff";
+import { addDays, differenceInCalendarDays, isValid, parseISO, subDays } from "date-fns";
+import { z } from "zod";
+import {
+  advancePetProgram,
+  assignProgram,
+  copyTemplateMedia,
+  holdPetProgram,
+  resumePetProgram,
+} from "./programs";
+import {
+  notifyCommentCreated,
+  notifySubmissionCreated,
+  notifySubmissionReviewed,
+  notifyTaskCreated,
+  notifyTaskStatusChanged,
+} from "./notifications";
+import { buildWorkspaceDigest, renderDigestHtml, DIGEST_PERIOD_DAYS } from "./digests";
+import { publishPetEvent, subscribeToPet } from "./realtime";
+import {
+  MEDIA_URL_PREFIX,
+  UploadRejectedError,
+  type StoredMedia,
+  copyMediaFields,
+  generateMediaKey,
+  mediaKeyFromPath,
+  serveMedia,
+  storeUploadedFile,
+} from "./media";
+import { canViewMedia, isOwnUpload } from "./media/access";
+import { reconcileOrphanedMedia, releaseMediaFiles } from "./media/cleanup";
+import { queueVideoProcessing } from "./media/processing";
+import {
+  RESUMABLE_UPLOAD_TTL_MS,
+  appendUploadChunk,
+  assertWithinUploadLimit,
+  currentUploadOffset,
+  discardResumableUpload,
+  findCompletedUpload,
+  type CompletedUpload,
+  resumableUploadStatus,
+} from "./media/resumable";
+import { assertStorageAvailable, getWorkspaceStorageUsage } from "./media/usage";
+import { activeWorkspaceId, getActiveRole, getWorkspaceContext, setActiveWorkspace } from "./active-workspace";
+import {
+  acceptClientInvitation,
+  createDefaultInvite,
+  findPendingInvitation,
+  findUsableInvite,
+  generateInviteToken,
+  getClientInvitationsWithStatus,
+  getWorkspaceInvitesWithMembers,
+  sendClientInvitation,
+} from "./invites";
+import { authorize, can } from "./policy";
+import {
+  getPetsForStaff,
+  getStaffWorkspace,
+  getWorkspaceStaff,
+  isWorkspaceStaff,
+  petParticipantRole,
+  workspaceForPet,
+} from "./staff";
+
+// Multer only stages files on local disk; storeUploadedFile then checks their
+// contents and moves them into the configured MediaStore (server/media). The
+// fileFilter below only sees the client's claimed type. Large task and
+// submission videos go through the resumable /api/uploads endpoints instead.
+const uploadTempDir = path.join(os.tmpdir(), "pawsync-uploads");
+if (!fs.existsSync(uploadTempDir)) {
+  fs.mkdirSync(uploadTempDir, { recursive: true });
 }
 
 const multerStorage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, uploadDir);
+    cb(null, uploadTempDir);
   },
   filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    const ext = path.extname(file.originalname);
-    cb(null, `${uniqueSuffix}${ext}`);
+    cb(null, generateMediaKey(file.originalname));
   },
 });
 
@@ -31,8 +131,7 @@ const upload = multer({
     fileSize: 50 * 1024 * 1024,
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ["image/jpeg", "image/png", "image/gif", "image/webp", "video/mp4", "video/webm", "video/quicktime"];
-    if (allowedTypes.includes(file.mimetype)) {
+    if ((ALLOWED_UPLOAD_TYPES as readonly string[]).includes(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error("Invalid file type. Only images and videos are allowed."));
@@ -40,6 +139,31 @@ const upload = multer({
   },
 });
 
+const photoUpload = multer({
+  storage: multerStorage,
+  limits: {
+    fileSize: MAX_PHOTO_UPLOAD_MB * 1024 * 1024,
+  },
+  fileFilter: (req, file, cb) => {
+    if ((PHOTO_UPLOAD_TYPES as readonly string[]).includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only JPEG, PNG, GIF and WebP photos are allowed."));
+    }
+  },
+});
+
+// Removes staged files the handler didn't store, e.g. when it rejected the request.
+const cleanupTempUploads: RequestHandler = (req, res, next) => {
+  res.on("close", () => {
+    const files = [req.file, ...((req.files as Express.Multer.File[] | undefined) || [])];
+    for (const file of files) {
+      if (file?.path) fs.promises.rm(file.path, { force: true }).catch(() => {});
+    }
+  });
+  next();
+};
+
 function getUserId(req: any): string | null {
   return req.user?.claims?.sub || null;
 }
@@ -50,18 +174,74 @@ async function getUserWithRole(req: any) {
   return await storage.getUser(userId);
 }
 
+function resolveTaskSchedule(
+  recurrence: unknown,
+  frequency: unknown,
+  createdAt: Date,
+): { frequency: string; recurrence: RecurrenceRule } | { error: string } {
+  if (recurrence !== undefined && recurrence !== null) {
+    const parsed = recurrenceRuleSchema.safeParse(recurrence);
+    if (!parsed.success) {
+      return { error: parsed.error.errors[0]?.message || "Invalid recurrence rule" };
+    }
+    return { frequency: describeRecurrence(parsed.data), recurrence: parsed.data };
+  }
+
+  if (typeof frequency === "string" && frequency.trim().length > 0) {
+    return { frequency, recurrence: parseLegacyFrequency(frequency, createdAt) };
+  }
+
+  return { error: "A schedule is required" };
+}
+
+const programInputSchema = z.object({
+  name: z.string().trim().min(1, "Program name is required"),
+  description: z.string().optional().nullable(),
+  phases: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1, "Each phase needs a title"),
+        durationWeeks: z.number().int().min(1, "Phases must last at least a week").max(52),
+        templateIds: z.array(z.string()).min(1, "Each phase needs at least one template"),
+      }),
+    )
+    .min(1, "Add at least one phase"),
+});
+
+const resumableUploadInputSchema = z.object({
+  petId: z.string().min(1, "Pet is required"),
+  fileName: z.string().trim().min(1, "File name is required").max(255),
+  mimeType: z.enum(ALLOWED_UPLOAD_TYPES, {
+    errorMap: () => ({ message: "Invalid file type. Only images and videos are allowed." }),
+  }),
+  size: z.number().int().positive("File is empty"),
+});
+
+// Trainer and owner routes go by the role of the workspace the user is acting
+// in (see server/active-workspace.ts), not users.role.
 const requireTrainer: RequestHandler = async (req, res, next) => {
   const user = await getUserWithRole(req);
-  if (user && (user.role === "TRAINER" || user.role === "ADMIN")) {
+  const role = user ? await getActiveRole(req, user) : null;
+  if (user && (role === "TRAINER" || role === "ADMIN")) {
     (req as any).appUser = user;
     return next();
   }
   res.status(403).json({ message: "Trainer role required" });
 };
 
+const requireAdmin: RequestHandler = async (req, res, next) => {
+  const user = await getUserWithRole(req);
+  if (user && user.role === "ADMIN") {
+    (req as any).appUser = user;
+    return next();
+  }
+  res.status(403).json({ message: "Admin role required" });
+};
+
 const requireOwner: RequestHandler = async (req, res, next) => {
   const user = await getUserWithRole(req);
-  if (user && (user.role === "OWNER" || user.role === "ADMIN")) {
+  const role = user ? await getActiveRole(req, user) : null;
+  if (user && (role === "OWNER" || role === "ADMIN")) {
     (req as any).appUser = user;
     return next();
   }
@@ -75,10 +255,34 @@ export async function registerRoutes(
   await setupAuth(app);
   registerAuthRoutes(app);
 
-  app.use("/uploads", (req, res, next) => {
-    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
-    next();
-  }, express.static(uploadDir));
+  // Stored filePath values are "/uploads/<key>" URLs, so this stays the media
+  // endpoint; every request is checked against where the file is attached.
+  app.get("/uploads/:key", isAuthenticated, async (req, res) => {
+    try {
+      const user = await getUserWithRole(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const filePath = `${MEDIA_URL_PREFIX}${req.params.key}`;
+      const key = mediaKeyFromPath(filePath);
+      if (!key) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      if (!(await canViewMedia(user, filePath))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.setHeader("Cross-Origin-Resource-Policy", "same-origin");
+      await serveMedia(key, req, res);
+    } catch (error) {
+      console.error("Error serving media:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to load file" });
+      }
+    }
+  });
 
   app.post("/api/auth/role", isAuthenticated, async (req: any, res) => {
     const userId = getUserId(req);
@@ -104,29 +308,54 @@ export async function registerRoutes(
     }
   });
 
+  app.patch("/api/auth/email-preferences", isAuthenticated, async (req: any, res) => {
+    const userId = getUserId(req);
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const parsed = z.object({ emailOptOuts: z.array(z.enum(EMAIL_EVENTS)) }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid email preferences" });
+    }
+
+    try {
+      const updatedUser = await storage.updateUserEmailOptOuts(userId, Array.from(new Set(parsed.data.emailOptOuts)));
+      if (updatedUser) {
+        res.json(updatedUser);
+      } else {
+        res.status(404).json({ message: "User not found" });
+      }
+    } catch (error) {
+      console.error("Error updating email preferences:", error);
+      res.status(500).json({ message: "Failed to update email preferences" });
+    }
+  });
+
   app.post("/api/workspaces/create", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
       if (!userId) return res.status(401).json({ message: "Not authenticated" });
 
-      const existing = await storage.getWorkspaceByTrainer(userId);
+      const existing = await getStaffWorkspace(userId);
       if (existing) {
         return res.json(existing);
       }
 
-      const inviteToken = crypto.randomBytes(24).toString("base64url");
       const workspace = await storage.createWorkspace({
         trainerUserId: userId,
-        inviteToken,
+        inviteToken: generateInviteToken(),
       });
 
       await storage.addWorkspaceMember({
         workspaceId: workspace.id,
         userId,
-        role: "TRAINER",
+        role: "HEAD_TRAINER",
       });
+      await createDefaultInvite(workspace, userId);
 
       await storage.updateUser(userId, { role: "TRAINER" });
+      setActiveWorkspace(req, workspace.id);
 
       const full = await storage.getWorkspace(workspace.id);
       res.status(201).json(full);
@@ -146,6 +375,12 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Display name is required" });
       }
 
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "Not authenticated" });
+      if (profilePhoto && profilePhoto !== user.profileImageUrl && !(await isOwnUpload(user, profilePhoto))) {
+        return res.status(400).json({ message: "Upload the photo before setting it" });
+      }
+
       const nameParts = displayName.trim().split(" ");
       const firstName = nameParts[0];
       const lastName = nameParts.slice(1).join(" ") || null;
@@ -158,26 +393,29 @@ export async function registerRoutes(
         onboardingComplete: true,
       });
 
-      let workspace = await storage.getWorkspaceByTrainer(userId);
+      let workspace = await getStaffWorkspace(userId, activeWorkspaceId(req));
       if (!workspace) {
-        const inviteToken = crypto.randomBytes(24).toString("base64url");
         workspace = await storage.createWorkspace({
           trainerUserId: userId,
-          inviteToken,
+          inviteToken: generateInviteToken(),
           businessName: businessName || null,
           bio: bio || null,
         });
         await storage.addWorkspaceMember({
           workspaceId: workspace.id,
           userId,
-          role: "TRAINER",
+          role: "HEAD_TRAINER",
         });
-      } else {
+        await createDefaultInvite(workspace, userId);
+      } else if (await can(user, "workspace.manage", workspace)) {
+        // Assistants finishing their own profile don't get to rename the
+        // business; only its head trainer does.
         await storage.updateWorkspace(workspace.id, {
           businessName: businessName || null,
           bio: bio || null,
         });
       }
+      setActiveWorkspace(req, workspace.id);
 
       const updatedUser = await storage.getUser(userId);
       res.json(updatedUser);
@@ -187,34 +425,77 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/workspaces/invite", isAuthenticated, async (req: any, res) => {
+  app.get("/api/workspaces/invites", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
     try {
-      const userId = getUserId(req);
-      if (!userId) return res.status(401).json({ message: "Not authenticated" });
+      res.json(await getWorkspaceInvitesWithMembers(req.workspace.id));
+    } catch (error) {
+      console.error("Error fetching invite links:", error);
+      res.status(500).json({ message: "Failed to fetch invite links" });
+    }
+  });
 
-      const workspace = await storage.getWorkspaceByTrainer(userId);
-      if (!workspace) {
-        return res.status(404).json({ message: "No workspace found" });
+  app.post("/api/workspaces/invites", isAuthenticated, requireTrainer, authorize("workspace.invite"), async (req: any, res) => {
+    try {
+      const parsed = inviteInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid invite link" });
       }
 
-      res.json({
-        inviteToken: workspace.inviteToken,
-        workspaceId: workspace.id,
-        businessName: workspace.businessName,
+      const expiresAt = parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null;
+      if (expiresAt && expiresAt <= new Date()) {
+        return res.status(400).json({ message: "The expiry date must be in the future" });
+      }
+
+      const invite = await storage.createWorkspaceInvite({
+        workspaceId: req.workspace.id,
+        label: parsed.data.label,
+        token: generateInviteToken(),
+        expiresAt,
+        maxUses: parsed.data.maxUses ?? null,
+        createdByUserId: req.appUser.id,
       });
+      res.status(201).json({ ...invite, status: inviteStatus(invite), members: [] });
+    } catch (error) {
+      console.error("Error creating invite link:", error);
+      res.status(500).json({ message: "Failed to create invite link" });
+    }
+  });
+
+  // Replaces the link's token, so the old URL stops working; its label, limits
+  // and the members who joined through it stay.
+  app.post("/api/workspaces/invites/:id/rotate", isAuthenticated, requireTrainer, authorize("invite.manage"), async (req: any, res) => {
+    try {
+      if (req.invite.revokedAt) {
+        return res.status(400).json({ message: "This link has been revoked" });
+      }
+
+      await storage.updateWorkspaceInvite(req.invite.id, { token: generateInviteToken() });
+      res.json(await getWorkspaceInvitesWithMembers(req.invite.workspaceId));
     } catch (error) {
-      console.error("Error getting invite:", error);
-      res.status(500).json({ message: "Failed to get invite" });
+      console.error("Error rotating invite link:", error);
+      res.status(500).json({ message: "Failed to rotate invite link" });
+    }
+  });
+
+  app.post("/api/workspaces/invites/:id/revoke", isAuthenticated, requireTrainer, authorize("invite.manage"), async (req: any, res) => {
+    try {
+      if (!req.invite.revokedAt) {
+        await storage.updateWorkspaceInvite(req.invite.id, { revokedAt: new Date() });
+      }
+      res.json(await getWorkspaceInvitesWithMembers(req.invite.workspaceId));
+    } catch (error) {
+      console.error("Error revoking invite link:", error);
+      res.status(500).json({ message: "Failed to revoke invite link" });
     }
   });
 
   app.get("/api/workspaces/validate/:token", async (req, res) => {
     try {
-      const { token } = req.params;
-      const workspace = await storage.getWorkspaceByToken(token);
-      if (!workspace) {
-        return res.status(404).json({ message: "Invalid invite link" });
+      const found = await findUsableInvite(req.params.token);
+      if ("error" in found) {
+        return res.status(found.status).json({ message: found.error });
       }
+      const { workspace } = found;
 
       res.json({
         workspaceId: workspace.id,
@@ -235,34 +516,181 @@ export async function registerRoutes(
       const { token } = req.body;
       if (!token) return res.status(400).json({ message: "Invite token required" });
 
-      const workspace = await storage.getWorkspaceByToken(token);
-      if (!workspace) {
-        return res.status(404).json({ message: "Invalid invite link" });
+      const found = await findUsableInvite(token);
+      if ("error" in found) {
+        return res.status(found.status).json({ message: found.error });
       }
+      const { invite, workspace } = found;
 
-      if (workspace.trainerUserId === userId) {
-        return res.status(400).json({ message: "You cannot join your own workspace as an owner" });
+      if (await isWorkspaceStaff(workspace.id, userId)) {
+        return res.status(400).json({ message: "You're on this workspace's staff and can't join it as an owner" });
       }
 
-      const existingMembers = await storage.getWorkspaceMembers(workspace.id);
-      const alreadyMember = existingMembers.some(m => m.userId === userId);
-      if (alreadyMember) {
+      // Only new members count towards the link's limit.
+      const joined = await storage.joinWorkspaceWithInvite(invite, userId, new Date());
+      if (joined.status === "invalid") {
+        return res.status(410).json({ message: "This invite link is no longer valid. Please ask your trainer for a new one." });
+      }
+
+      // Joining makes the user a client of this workspace only. Trainers keep
+      // their staff roles elsewhere; people new to PawSync are set up as owners.
+      const user = await storage.getUser(userId);
+      if (user && !user.role) {
         await storage.updateUser(userId, { role: "OWNER", onboardingComplete: false });
+      }
+      setActiveWorkspace(req, workspace.id);
+
+      if (joined.status === "already-member") {
         return res.json({ workspaceId: workspace.id, alreadyMember: true });
       }
+      res.status(201).json({ workspaceId: workspace.id });
+    } catch (error) {
+      console.error("Error joining workspace:", error);
+      res.status(500).json({ message: "Failed to join workspace" });
+    }
+  });
 
-      await storage.addWorkspaceMember({
+  app.get("/api/workspaces/invitations", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      res.json(await getClientInvitationsWithStatus(req.workspace.id));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/workspaces/invitations", isAuthenticated, requireTrainer, authorize("workspace.invite"), async (req: any, res) => {
+    try {
+      const workspace = req.workspace;
+      const parsed = clientInvitationInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid invitation" });
+      }
+      const { email, petName, petSpecies, petBreed } = parsed.data;
+      const starterTemplateIds = Array.from(new Set(parsed.data.starterTemplateIds));
+
+      for (const templateId of starterTemplateIds) {
+        const template = await storage.getTaskTemplate(templateId);
+        if (!template || template.workspaceId !== workspace.id) {
+          return res.status(400).json({ message: "Starter tasks must come from this workspace's templates" });
+        }
+      }
+
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser && (await isWorkspaceStaff(workspace.id, existingUser.id))) {
+        return res.status(400).json({ message: "That person is on this workspace's staff" });
+      }
+
+      const now = new Date();
+      const invitations = await storage.getClientInvitations(workspace.id);
+      if (invitations.some(i => i.email === email && clientInvitationStatus(i, now) === "PENDING")) {
+        return res.status(409).json({ message: "There's already a pending invitation for that email. Resend it instead." });
+      }
+
+      const invitation = await storage.createClientInvitation({
         workspaceId: workspace.id,
-        userId,
-        role: "OWNER",
+        email,
+        token: generateInviteToken(),
+        petName,
+        petSpecies,
+        petBreed,
+        starterTemplateIds,
+        invitedByUserId: req.appUser.id,
+        expiresAt: addDays(now, CLIENT_INVITATION_EXPIRY_DAYS),
+        lastSentAt: now,
       });
+      await sendClientInvitation(invitation);
 
-      await storage.updateUser(userId, { role: "OWNER", onboardingComplete: false });
+      res.status(201).json({ ...invitation, status: clientInvitationStatus(invitation, now) });
+    } catch (error) {
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
 
-      res.status(201).json({ workspaceId: workspace.id });
+  // Emails the same link again and gives the client another full expiry
+  // period, including after the invitation has expired.
+  app.post("/api/workspaces/invitations/:id/resend", isAuthenticated, requireTrainer, authorize("client-invitation.manage"), async (req: any, res) => {
+    try {
+      const invitation: ClientInvitation = req.clientInvitation;
+      if (invitation.acceptedAt) {
+        return res.status(400).json({ message: "This invitation has already been accepted" });
+      }
+
+      const now = new Date();
+      const updated = await storage.updateClientInvitation(invitation.id, {
+        expiresAt: addDays(now, CLIENT_INVITATION_EXPIRY_DAYS),
+        lastSentAt: now,
+      });
+      if (updated) {
+        await sendClientInvitation(updated);
+      }
+      res.json(await getClientInvitationsWithStatus(invitation.workspaceId));
     } catch (error) {
-      console.error("Error joining workspace:", error);
-      res.status(500).json({ message: "Failed to join workspace" });
+      console.error("Error resending invitation:", error);
+      res.status(500).json({ message: "Failed to resend invitation" });
+    }
+  });
+
+  app.get("/api/workspaces/invitations/validate/:token", async (req, res) => {
+    try {
+      const found = await findPendingInvitation(req.params.token);
+      if ("error" in found) {
+        return res.status(found.status).json({ message: found.error });
+      }
+      const { invitation, workspace } = found;
+      const trainer = await storage.getUser(invitation.invitedByUserId);
+
+      res.json({
+        workspaceId: workspace.id,
+        trainerName: `${trainer?.firstName || ""} ${trainer?.lastName || ""}`.trim(),
+        businessName: workspace.businessName,
+        email: invitation.email,
+        petName: invitation.petName,
+      });
+    } catch (error) {
+      console.error("Error validating invitation:", error);
+      res.status(500).json({ message: "Failed to validate invitation" });
+    }
+  });
+
+  app.post("/api/workspaces/invitations/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+      const { token } = req.body;
+      if (!token) return res.status(400).json({ message: "Invitation token required" });
+
+      const found = await findPendingInvitation(token);
+      if ("error" in found) {
+        return res.status(found.status).json({ message: found.error });
+      }
+      const { invitation, workspace } = found;
+
+      if (user.email?.toLowerCase() !== invitation.email) {
+        return res.status(403).json({ message: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` });
+      }
+      if (await isWorkspaceStaff(workspace.id, user.id)) {
+        return res.status(400).json({ message: "You're on this workspace's staff and can't join it as an owner" });
+      }
+
+      const pet = await acceptClientInvitation(invitation, workspace, user.id);
+      if (!pet) {
+        return res.status(410).json({ message: "This invitation can no longer be accepted. Please ask your trainer to send it again." });
+      }
+
+      // The trainer already added the pet, so new owners skip that step.
+      if (!user.role || (user.role === "OWNER" && !user.onboardingComplete)) {
+        await storage.updateUser(user.id, { role: "OWNER", onboardingComplete: true });
+      }
+      setActiveWorkspace(req, workspace.id);
+
+      res.status(201).json({ workspaceId: workspace.id, petId: pet.id });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
     }
   });
 
@@ -274,14 +702,14 @@ export async function registerRoutes(
       const user = await storage.getUser(userId);
       if (!user) return res.status(404).json({ message: "User not found" });
 
-      if (user.role === "TRAINER") {
-        const workspace = await storage.getWorkspaceByTrainer(userId);
+      if ((await getActiveRole(req, user)) === "TRAINER") {
+        const workspace = await getStaffWorkspace(userId, activeWorkspaceId(req));
         return res.json(workspace ? [workspace] : []);
       }
 
       const memberships = await storage.getUserWorkspaces(userId);
       const results = [];
-      for (const m of memberships) {
+      for (const m of memberships.filter((m) => m.role === "OWNER")) {
         const ws = await storage.getWorkspace(m.workspaceId);
         if (ws) results.push(ws);
       }
@@ -292,151 +720,353 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/pets", isAuthenticated, async (req: any, res) => {
+  app.get("/api/workspaces/context", isAuthenticated, async (req: any, res) => {
     try {
       const user = await getUserWithRole(req);
-      if (!user) {
-        return res.status(401).json({ message: "User not found" });
-      }
-      
-      let pets;
-      if (user.role === "ADMIN") {
-        pets = await storage.getAllPets();
-      } else if (user.role === "TRAINER") {
-        pets = await storage.getPetsByTrainer(user.id);
-      } else {
-        pets = await storage.getPetsByOwner(user.id);
-      }
-      
-      res.json(pets);
+      if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+      res.json(await getWorkspaceContext(req, user));
     } catch (error) {
-      console.error("Error fetching pets:", error);
-      res.status(500).json({ message: "Failed to fetch pets" });
+      console.error("Error getting workspace context:", error);
+      res.status(500).json({ message: "Failed to get workspace context" });
     }
   });
 
-  app.get("/api/pets/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/workspaces/active", isAuthenticated, async (req: any, res) => {
     try {
-      const pet = await storage.getPet(req.params.id);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
+      const user = await getUserWithRole(req);
+      if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+      const parsed = activeWorkspaceInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid workspace" });
       }
 
-      const user = await getUserWithRole(req);
-      const hasAccess = user && (user.role === "ADMIN" || pet.ownerId === user.id || pet.trainerId === user.id);
-      if (!hasAccess) {
-        return res.status(403).json({ message: "Access denied" });
+      const membership = await storage.getWorkspaceMembership(parsed.data.workspaceId, user.id);
+      if (!membership) {
+        return res.status(404).json({ message: "You're not a member of that workspace" });
       }
 
-      res.json(pet);
+      setActiveWorkspace(req, membership.workspaceId);
+      res.json(await getWorkspaceContext(req, user));
     } catch (error) {
-      console.error("Error fetching pet:", error);
-      res.status(500).json({ message: "Failed to fetch pet" });
+      console.error("Error switching workspace:", error);
+      res.status(500).json({ message: "Failed to switch workspace" });
     }
   });
 
-  app.post("/api/pets", isAuthenticated, requireOwner, async (req: any, res) => {
+  app.get("/api/workspaces/upload-settings", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
     try {
-      const user = req.appUser;
-      const { name, species, trainerEmail, workspaceId } = req.body;
-      
-      let trainerId = null;
-      let resolvedWorkspaceId = workspaceId || null;
+      res.json({ maxUploadMb: req.workspace.maxUploadMb ?? DEFAULT_MAX_UPLOAD_MB });
+    } catch (error) {
+      console.error("Error fetching upload settings:", error);
+      res.status(500).json({ message: "Failed to fetch upload settings" });
+    }
+  });
 
-      if (workspaceId) {
-        const workspace = await storage.getWorkspace(workspaceId);
-        if (workspace) {
-          trainerId = workspace.trainerUserId;
-        }
-      } else if (trainerEmail) {
-        const trainer = await storage.getUserByEmail(trainerEmail);
-        if (!trainer) {
-          return res.status(400).json({ message: "No user found with that email address" });
-        }
-        if (trainer.role !== "TRAINER") {
-          return res.status(400).json({ message: "The specified user is not a trainer" });
-        }
-        trainerId = trainer.id;
-        const trainerWorkspace = await storage.getWorkspaceByTrainer(trainer.id);
-        if (trainerWorkspace) {
-          resolvedWorkspaceId = trainerWorkspace.id;
-        }
-      } else {
-        const memberships = await storage.getUserWorkspaces(user.id);
-        const ownerMembership = memberships.find(m => m.role === "OWNER");
-        if (ownerMembership) {
-          resolvedWorkspaceId = ownerMembership.workspaceId;
-          const workspace = await storage.getWorkspace(ownerMembership.workspaceId);
-          if (workspace) {
-            trainerId = workspace.trainerUserId;
-          }
-        }
+  app.put("/api/workspaces/upload-settings", isAuthenticated, requireTrainer, authorize("workspace.manage"), async (req: any, res) => {
+    try {
+      const workspace = req.workspace;
+      const parsed = uploadSettingsInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid upload settings" });
       }
 
-      const pet = await storage.createPet({
-        name,
-        species: species || null,
-        ownerId: user.id,
-        trainerId,
-        workspaceId: resolvedWorkspaceId,
-        imageUrl: null,
-      });
+      await storage.updateWorkspace(workspace.id, { maxUploadMb: parsed.data.maxUploadMb });
+      res.json({ maxUploadMb: parsed.data.maxUploadMb });
+    } catch (error) {
+      console.error("Error updating upload settings:", error);
+      res.status(500).json({ message: "Failed to update upload settings" });
+    }
+  });
 
-      if (!user.onboardingComplete) {
-        await storage.updateUser(user.id, { onboardingComplete: true });
-      }
+  app.get("/api/workspaces/storage-usage", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      res.json(await getWorkspaceStorageUsage(req.workspace));
+    } catch (error) {
+      console.error("Error fetching storage usage:", error);
+      res.status(500).json({ message: "Failed to fetch storage usage" });
+    }
+  });
 
-      res.status(201).json(pet);
+  app.get("/api/workspaces/staff", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const role = (await storage.getWorkspaceMembership(req.workspace.id, user.id))?.role;
+      res.json(await getWorkspaceStaff(req.workspace, isStaffRole(role) ? role : null));
     } catch (error) {
-      console.error("Error creating pet:", error);
-      res.status(500).json({ message: "Failed to create pet" });
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ message: "Failed to fetch staff" });
     }
   });
 
-  app.patch("/api/pets/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/workspaces/staff", isAuthenticated, requireTrainer, authorize("workspace.manage"), async (req: any, res) => {
     try {
-      const user = await getUserWithRole(req);
-      if (!user) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const workspace = req.workspace;
+
+      const parsed = addStaffInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid staff member" });
       }
 
-      const pet = await storage.getPet(req.params.id);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
+      const member = await storage.getUserByEmail(parsed.data.email);
+      if (!member) {
+        return res.status(404).json({ message: "No PawSync account uses that email. Ask them to sign in once, then add them." });
       }
 
-      if (pet.ownerId !== user.id && user.role !== "ADMIN") {
-        return res.status(403).json({ message: "Only the pet owner can edit pet details" });
+      const existing = await storage.getWorkspaceMembership(workspace.id, member.id);
+      if (existing) {
+        return res.status(409).json({
+          message: isStaffRole(existing.role) ? "They're already on your staff" : "That account is a client of this workspace",
+        });
       }
 
-      const { name, species, breed, age, ownerPhone, imageUrl } = req.body;
-      const updates: any = {};
-      if (name !== undefined) updates.name = name;
-      if (species !== undefined) updates.species = species;
-      if (breed !== undefined) updates.breed = breed;
-      if (age !== undefined) updates.age = age;
+      await storage.addWorkspaceMember({
+        workspaceId: workspace.id,
+        userId: member.id,
+        role: parsed.data.role,
+      });
+      if (!member.role) {
+        await storage.updateUser(member.id, { role: "TRAINER", onboardingComplete: true });
+      }
+
+      res.status(201).json(await getWorkspaceStaff(workspace, "HEAD_TRAINER"));
+    } catch (error) {
+      console.error("Error adding staff member:", error);
+      res.status(500).json({ message: "Failed to add staff member" });
+    }
+  });
+
+  app.patch("/api/workspaces/staff/:memberId", isAuthenticated, requireTrainer, authorize("workspace.manage"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const workspace = req.workspace;
+
+      const member = await storage.getWorkspaceMember(req.params.memberId);
+      if (!member || member.workspaceId !== workspace.id || !isStaffRole(member.role)) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      const parsed = updateStaffRoleInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      if (member.role === "HEAD_TRAINER" && parsed.data.role !== "HEAD_TRAINER") {
+        const { members } = await getWorkspaceStaff(workspace, "HEAD_TRAINER");
+        if (members.filter((m) => m.role === "HEAD_TRAINER").length <= 1) {
+          return res.status(400).json({ message: "A workspace needs at least one head trainer" });
+        }
+      }
+
+      await storage.updateWorkspaceMemberRole(member.id, parsed.data.role);
+      res.json(await getWorkspaceStaff(workspace, member.userId === user.id ? parsed.data.role : "HEAD_TRAINER"));
+    } catch (error) {
+      console.error("Error updating staff role:", error);
+      res.status(500).json({ message: "Failed to update staff role" });
+    }
+  });
+
+  app.delete("/api/workspaces/staff/:memberId", isAuthenticated, requireTrainer, authorize("workspace.manage"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const workspace = req.workspace;
+
+      const member = await storage.getWorkspaceMember(req.params.memberId);
+      if (!member || member.workspaceId !== workspace.id || !isStaffRole(member.role)) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      if (member.userId === workspace.trainerUserId) {
+        return res.status(400).json({ message: "The trainer who created the workspace can't be removed" });
+      }
+      if (member.userId === user.id) {
+        return res.status(400).json({ message: "Ask another head trainer to remove you" });
+      }
+
+      // Their clients stay in the workspace with whoever removed them.
+      await storage.reassignWorkspacePets(workspace.id, member.userId, user.id);
+      await storage.removeWorkspaceMember(member.id);
+      res.json(await getWorkspaceStaff(workspace, "HEAD_TRAINER"));
+    } catch (error) {
+      console.error("Error removing staff member:", error);
+      res.status(500).json({ message: "Failed to remove staff member" });
+    }
+  });
+
+  app.put("/api/workspaces/staff-settings", isAuthenticated, requireTrainer, authorize("workspace.manage"), async (req: any, res) => {
+    try {
+      const workspace = req.workspace;
+
+      const parsed = staffSettingsInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid staff settings" });
+      }
+
+      const updated = await storage.updateWorkspace(workspace.id, { staffSeeAllPets: parsed.data.staffSeeAllPets });
+      res.json(await getWorkspaceStaff(updated ?? workspace, "HEAD_TRAINER"));
+    } catch (error) {
+      console.error("Error updating staff settings:", error);
+      res.status(500).json({ message: "Failed to update staff settings" });
+    }
+  });
+
+  app.get("/api/pets", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getUserWithRole(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+      
+      const role = await getActiveRole(req, user);
+      let pets;
+      if (role === "ADMIN") {
+        pets = await storage.getAllPets();
+      } else if (role === "TRAINER") {
+        pets = await getPetsForStaff(user, activeWorkspaceId(req));
+      } else {
+        pets = await storage.getPetsByOwner(user.id);
+      }
+      
+      res.json(pets);
+    } catch (error) {
+      console.error("Error fetching pets:", error);
+      res.status(500).json({ message: "Failed to fetch pets" });
+    }
+  });
+
+  app.get("/api/pets/:id", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
+    try {
+      res.json(req.pet);
+    } catch (error) {
+      console.error("Error fetching pet:", error);
+      res.status(500).json({ message: "Failed to fetch pet" });
+    }
+  });
+
+  app.get("/api/pets/:id/compliance", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
+    try {
+      const pet = req.pet;
+
+      const to = typeof req.query.to === "string" ? parseISO(req.query.to) : new Date();
+      const from = typeof req.query.from === "string" ? parseISO(req.query.from) : addDays(to, -29);
+      if (!isValid(from) || !isValid(to) || to < from) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if (differenceInCalendarDays(to, from) >= MAX_EXPANSION_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_EXPANSION_DAYS} days` });
+      }
+
+      const tasks = await storage.getTasksByPet(pet.id);
+      const submissions = await storage.getSubmissionsByPet(pet.id);
+      res.json(computeCompliance(tasks, submissions, from, to));
+    } catch (error) {
+      console.error("Error computing compliance:", error);
+      res.status(500).json({ message: "Failed to compute compliance" });
+    }
+  });
+
+  app.post("/api/pets", isAuthenticated, requireOwner, async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const { name, species, trainerEmail, workspaceId } = req.body;
+      
+      let trainerId = null;
+      let resolvedWorkspaceId = workspaceId || null;
+
+      if (workspaceId) {
+        // Owners add pets to workspaces they've joined as clients; joining
+        // goes through an invite.
+        const membership = await storage.getWorkspaceMembership(workspaceId, user.id);
+        const workspace = membership?.role === "OWNER" ? await storage.getWorkspace(workspaceId) : undefined;
+        if (!workspace) {
+          return res.status(403).json({ message: "You're not a client of that workspace" });
+        }
+        trainerId = workspace.trainerUserId;
+      } else if (trainerEmail) {
+        const trainer = await storage.getUserByEmail(trainerEmail);
+        if (!trainer) {
+          return res.status(400).json({ message: "No user found with that email address" });
+        }
+        if (trainer.role !== "TRAINER") {
+          return res.status(400).json({ message: "The specified user is not a trainer" });
+        }
+        trainerId = trainer.id;
+        const trainerWorkspace = await getStaffWorkspace(trainer.id);
+        if (trainerWorkspace) {
+          resolvedWorkspaceId = trainerWorkspace.id;
+        }
+      } else {
+        const memberships = await storage.getUserWorkspaces(user.id);
+        const ownerMembership =
+          memberships.find(m => m.role === "OWNER" && m.workspaceId === activeWorkspaceId(req)) ??
+          memberships.find(m => m.role === "OWNER");
+        if (ownerMembership) {
+          resolvedWorkspaceId = ownerMembership.workspaceId;
+          const workspace = await storage.getWorkspace(ownerMembership.workspaceId);
+          if (workspace) {
+            trainerId = workspace.trainerUserId;
+          }
+        }
+      }
+
+      const pet = await storage.createPet({
+        name,
+        species: species || null,
+        ownerId: user.id,
+        trainerId,
+        workspaceId: resolvedWorkspaceId,
+        imageUrl: null,
+      });
+
+      if (!user.onboardingComplete) {
+        await storage.updateUser(user.id, { onboardingComplete: true });
+      }
+
+      res.status(201).json(pet);
+    } catch (error) {
+      console.error("Error creating pet:", error);
+      res.status(500).json({ message: "Failed to create pet" });
+    }
+  });
+
+  app.patch("/api/pets/:id", isAuthenticated, authorize("pet.edit"), async (req: any, res) => {
+    try {
+      const pet = req.pet;
+
+      const { name, species, breed, age, ownerPhone, imageUrl } = req.body;
+      const updates: any = {};
+      if (name !== undefined) updates.name = name;
+      if (species !== undefined) updates.species = species;
+      if (breed !== undefined) updates.breed = breed;
+      if (age !== undefined) updates.age = age;
       if (ownerPhone !== undefined) updates.ownerPhone = ownerPhone;
-      if (imageUrl !== undefined) updates.imageUrl = imageUrl;
+      if (imageUrl !== undefined) updates.imageUrl = imageUrl || null;
+
+      if (updates.imageUrl && updates.imageUrl !== pet.imageUrl) {
+        if (!(await isOwnUpload(req.appUser, updates.imageUrl))) {
+          return res.status(400).json({ message: "Upload the photo before setting it" });
+        }
+        const photo = await storage.getMediaUpload(updates.imageUrl);
+        await assertStorageAvailable(pet, photo?.sizeBytes ?? 0);
+      }
 
       const updatedPet = await storage.updatePet(req.params.id, updates);
+      if (pet.imageUrl && updatedPet?.imageUrl !== pet.imageUrl) {
+        await releaseMediaFiles([pet.imageUrl]);
+      }
       res.json(updatedPet);
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error updating pet:", error);
       res.status(500).json({ message: "Failed to update pet" });
     }
   });
 
-  app.post("/api/pets/:id/trainer", isAuthenticated, requireOwner, async (req: any, res) => {
+  app.post("/api/pets/:id/trainer", isAuthenticated, requireOwner, authorize("pet.edit"), async (req: any, res) => {
     try {
-      const user = req.appUser;
-      const pet = await storage.getPet(req.params.id);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
-      }
-
-      if (pet.ownerId !== user.id) {
-        return res.status(403).json({ message: "You don't own this pet" });
-      }
+      const pet = req.pet;
 
       const { trainerEmail } = req.body;
       const trainer = await storage.getUserByEmail(trainerEmail);
@@ -456,25 +1086,35 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/tasks/:petId", isAuthenticated, async (req: any, res) => {
+  // Head trainers decide which staff member looks after each pet.
+  app.put("/api/pets/:id/assigned-trainer", isAuthenticated, requireTrainer, authorize("pet.assign"), async (req: any, res) => {
     try {
-      const petId = req.params.petId;
-      if (!petId) {
-        return res.status(400).json({ message: "petId is required" });
+      const pet = req.pet;
+      const workspace = await workspaceForPet(pet);
+      if (!workspace) {
+        return res.status(400).json({ message: "This pet isn't part of a workspace" });
       }
 
-      const pet = await storage.getPet(petId);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
+      const parsed = assignPetInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid assignment" });
       }
-
-      const user = await getUserWithRole(req);
-      // Allow if user is owner, trainer, or ADMIN
-      if (!user || (pet.ownerId !== user.id && pet.trainerId !== user.id && user.role !== "ADMIN")) {
-        return res.status(403).json({ message: "Access denied" });
+      if (!(await isWorkspaceStaff(workspace.id, parsed.data.trainerId))) {
+        return res.status(400).json({ message: "Pets can only be assigned to staff of their workspace" });
       }
 
-      const tasks = await storage.getTasksByPet(petId);
+      await storage.assignTrainer(pet.id, parsed.data.trainerId);
+      const updatedPet = await storage.getPet(pet.id);
+      res.json(updatedPet);
+    } catch (error) {
+      console.error("Error assigning pet:", error);
+      res.status(500).json({ message: "Failed to assign pet" });
+    }
+  });
+
+  app.get("/api/tasks/:petId", isAuthenticated, authorize("pet.view", "petId"), async (req: any, res) => {
+    try {
+      const tasks = await storage.getTasksByPet(req.pet.id);
       res.json(tasks);
     } catch (error) {
       console.error("Error fetching tasks:", error);
@@ -482,31 +1122,31 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/tasks", isAuthenticated, requireTrainer, async (req: any, res) => {
+  app.post("/api/tasks", isAuthenticated, requireTrainer, authorize("pet.train", "petId", "body"), async (req: any, res) => {
     try {
       const user = req.appUser;
-      const { petId, title, instructions, frequency, expectedDurationMins } = req.body;
+      const pet = req.pet;
+      const { title, instructions, frequency, recurrence, expectedDurationMins } = req.body;
 
-      const pet = await storage.getPet(petId);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
-      }
-
-      // Allow if user is the assigned trainer OR is an ADMIN
-      if (pet.trainerId !== user.id && user.role !== "ADMIN") {
-        return res.status(403).json({ message: "You're not assigned to this pet" });
+      const schedule = resolveTaskSchedule(recurrence, frequency, new Date());
+      if ("error" in schedule) {
+        return res.status(400).json({ message: schedule.error });
       }
 
       const task = await storage.createTask({
-        petId,
+        petId: pet.id,
         createdByTrainerId: user.id,
         title,
         instructions,
-        frequency,
+        frequency: schedule.frequency,
+        recurrence: schedule.recurrence,
         expectedDurationMins: expectedDurationMins || null,
         isActive: true,
       });
 
+      await notifyTaskCreated(task, pet, user.id);
+      await publishPetEvent(pet.id, "task.created", { taskId: task.id });
+
       res.status(201).json(task);
     } catch (error) {
       console.error("Error creating task:", error);
@@ -514,28 +1154,37 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/tasks/:id", isAuthenticated, requireTrainer, async (req: any, res) => {
+  app.patch("/api/tasks/:id", isAuthenticated, requireTrainer, authorize("task.manage"), async (req: any, res) => {
     try {
       const user = req.appUser;
-      const task = await storage.getTask(req.params.id);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
-      }
-
-      const pet = await storage.getPet(task.petId);
-      if (!pet || (pet.trainerId !== user.id && user.role !== "ADMIN")) {
-        return res.status(403).json({ message: "You're not assigned to this pet" });
-      }
+      const task = req.task;
+      const pet = req.pet;
 
-      const { title, instructions, frequency, expectedDurationMins, isActive } = req.body;
+      const { title, instructions, frequency, recurrence, expectedDurationMins, isActive } = req.body;
       const updates: any = {};
       if (title !== undefined) updates.title = title;
       if (instructions !== undefined) updates.instructions = instructions;
-      if (frequency !== undefined) updates.frequency = frequency;
+      if (recurrence !== undefined || frequency !== undefined) {
+        const schedule = resolveTaskSchedule(recurrence, frequency, task.createdAt);
+        if ("error" in schedule) {
+          return res.status(400).json({ message: schedule.error });
+        }
+        updates.frequency = schedule.frequency;
+        updates.recurrence = schedule.recurrence;
+      }
       if (expectedDurationMins !== undefined) updates.expectedDurationMins = expectedDurationMins;
-      if (isActive !== undefined) updates.isActive = isActive;
+      if (isActive !== undefined) {
+        updates.isActive = isActive;
+        if (isActive !== task.isActive) {
+          updates.closedAt = isActive ? null : new Date();
+        }
+      }
 
       const updatedTask = await storage.updateTask(req.params.id, updates);
+      if (updatedTask && updatedTask.isActive !== task.isActive) {
+        await notifyTaskStatusChanged(updatedTask, pet, user.id);
+      }
+      await publishPetEvent(pet.id, "task.updated", { taskId: task.id });
       res.json(updatedTask);
     } catch (error) {
       console.error("Error updating task:", error);
@@ -543,25 +1192,10 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/tasks/:id/preferred-days", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/tasks/:id/preferred-days", isAuthenticated, authorize("task.schedule"), async (req: any, res) => {
     try {
-      const user = await getUserWithRole(req);
-      if (!user) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      const task = await storage.getTask(req.params.id);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
-      }
-
-      const pet = await storage.getPet(task.petId);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
-      }
-
-      if (pet.ownerId !== user.id && user.role !== "ADMIN") {
-        return res.status(403).json({ message: "Only the pet owner can set preferred days" });
-      }
+      const task = req.task;
+      const pet = req.pet;
 
       const { preferredDays } = req.body;
       const validDays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
@@ -572,6 +1206,7 @@ export async function registerRoutes(
       const updatedTask = await storage.updateTask(req.params.id, {
         preferredDays: preferredDays && preferredDays.length > 0 ? preferredDays : null,
       });
+      await publishPetEvent(pet.id, "task.updated", { taskId: task.id });
       res.json(updatedTask);
     } catch (error) {
       console.error("Error updating preferred days:", error);
@@ -579,14 +1214,29 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/tasks/:taskId/media", isAuthenticated, async (req: any, res) => {
+  app.get("/api/tasks/:taskId/occurrences", isAuthenticated, authorize("task.view", "taskId"), async (req: any, res) => {
     try {
-      const task = await storage.getTask(req.params.taskId);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
+      const task = req.task;
+
+      const from = typeof req.query.from === "string" ? parseISO(req.query.from) : new Date();
+      const to = typeof req.query.to === "string" ? parseISO(req.query.to) : addDays(from, 30);
+      if (!isValid(from) || !isValid(to) || to < from) {
+        return res.status(400).json({ message: "Invalid date range" });
       }
+      if (differenceInCalendarDays(to, from) >= MAX_EXPANSION_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_EXPANSION_DAYS} days` });
+      }
+
+      res.json(expandTaskOccurrences(task, from, to));
+    } catch (error) {
+      console.error("Error expanding task occurrences:", error);
+      res.status(500).json({ message: "Failed to fetch task occurrences" });
+    }
+  });
 
-      const media = await storage.getTaskMedia(req.params.taskId);
+  app.get("/api/tasks/:taskId/media", isAuthenticated, authorize("task.view", "taskId"), async (req: any, res) => {
+    try {
+      const media = await storage.getTaskMedia(req.task.id);
       res.json(media);
     } catch (error) {
       console.error("Error fetching task media:", error);
@@ -594,54 +1244,58 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/tasks/:taskId/media", isAuthenticated, requireTrainer, upload.single("file"), async (req: any, res) => {
+  app.post("/api/tasks/:taskId/media", isAuthenticated, requireTrainer, authorize("task.manage", "taskId"), upload.single("file"), cleanupTempUploads, async (req: any, res) => {
     try {
       const user = req.appUser;
-      const task = await storage.getTask(req.params.taskId);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
-      }
-
-      const pet = await storage.getPet(task.petId);
-      if (!pet || (pet.trainerId !== user.id && user.role !== "ADMIN")) {
-        return res.status(403).json({ message: "You're not assigned to this pet" });
-      }
+      const task = req.task;
+      const pet = req.pet;
 
-      if (!req.file) {
+      // Either a multipart file or a finished resumable upload for this pet.
+      let stored;
+      if (req.file) {
+        await assertWithinUploadLimit(pet, [req.file]);
+        await assertStorageAvailable(pet, req.file.size);
+        stored = await storeUploadedFile(req.file, user.id);
+      } else if (req.body?.uploadId) {
+        const resumable = await findCompletedUpload(req.body.uploadId, user.id, pet.id);
+        if ("error" in resumable) {
+          return res.status(resumable.status).json({ message: resumable.error });
+        }
+        stored = resumable.media;
+        await storage.deleteResumableUpload(resumable.id);
+      } else {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const filePath = `/uploads/${req.file.filename}`;
-      const mediaType = req.file.mimetype.startsWith("video/") ? "VIDEO" : "IMAGE";
-
       const media = await storage.createTaskMedia({
         taskId: task.id,
-        mediaType,
-        filePath,
-        fileName: req.file.originalname,
+        ...stored,
       });
+      if (stored.processingStatus) {
+        queueVideoProcessing();
+      }
 
       res.status(201).json(media);
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error uploading task media:", error);
       res.status(500).json({ message: "Failed to upload task media" });
     }
   });
 
-  app.delete("/api/tasks/:taskId/media/:mediaId", isAuthenticated, requireTrainer, async (req: any, res) => {
+  app.delete("/api/tasks/:taskId/media/:mediaId", isAuthenticated, requireTrainer, authorize("task.manage", "taskId"), async (req: any, res) => {
     try {
-      const user = req.appUser;
-      const task = await storage.getTask(req.params.taskId);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
-      }
+      const task = req.task;
 
-      const pet = await storage.getPet(task.petId);
-      if (!pet || (pet.trainerId !== user.id && user.role !== "ADMIN")) {
-        return res.status(403).json({ message: "You're not assigned to this pet" });
+      const media = (await storage.getTaskMedia(task.id)).find((item) => item.id === req.params.mediaId);
+      if (!media) {
+        return res.status(404).json({ message: "Media not found" });
       }
 
-      await storage.deleteTaskMedia(req.params.mediaId);
+      await storage.deleteTaskMedia(media.id);
+      await releaseMediaFiles([media.filePath]);
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting task media:", error);
@@ -649,126 +1303,531 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/submissions/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/templates", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
     try {
-      const submissionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-      const submission = await storage.getSubmission(submissionId);
-      if (!submission) {
-        return res.status(404).json({ message: "Submission not found" });
-      }
-
-      res.json(submission);
+      const templates = await storage.getTaskTemplatesByWorkspace(req.workspace.id);
+      res.json(templates);
     } catch (error) {
-      console.error("Error fetching submission:", error);
-      res.status(500).json({ message: "Failed to fetch submission" });
+      console.error("Error fetching templates:", error);
+      res.status(500).json({ message: "Failed to fetch templates" });
     }
   });
 
-  app.post("/api/submissions", isAuthenticated, requireOwner, async (req: any, res) => {
+  app.post("/api/templates", isAuthenticated, requireTrainer, authorize("template.create"), async (req: any, res) => {
     try {
       const user = req.appUser;
-      const { taskId, note, media } = req.body;
-
-      const task = await storage.getTask(taskId);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
-      }
+      const workspace = req.workspace;
 
-      if (!task.isActive) {
-        return res.status(400).json({ message: "This task has been closed and no longer accepts submissions" });
+      const { title, instructions, frequency, recurrence, expectedDurationMins } = req.body;
+      if (!title || !instructions) {
+        return res.status(400).json({ message: "Title and instructions are required" });
       }
 
-      const pet = await storage.getPet(task.petId);
-      if (!pet || pet.ownerId !== user.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const schedule = resolveTaskSchedule(recurrence, frequency, new Date());
+      if ("error" in schedule) {
+        return res.status(400).json({ message: schedule.error });
       }
 
-      const submission = await storage.createSubmission({
-        taskId,
-        submittedByUserId: user.id,
-        note: note || null,
-        status: "COMPLETED",
+      const template = await storage.createTaskTemplate({
+        workspaceId: workspace.id,
+        createdByUserId: user.id,
+        title,
+        instructions,
+        frequency: schedule.frequency,
+        recurrence: schedule.recurrence,
+        expectedDurationMins: expectedDurationMins || null,
       });
 
-      if (media && Array.isArray(media)) {
-        for (const mediaItem of media) {
-          await storage.createSubmissionMedia({
-            submissionId: submission.id,
-            mediaType: mediaItem.mediaType,
-            filePath: mediaItem.filePath,
-            fileName: mediaItem.fileName || null,
-          });
+      const fullTemplate = await storage.getTaskTemplate(template.id);
+      res.status(201).json(fullTemplate);
+    } catch (error) {
+      console.error("Error creating template:", error);
+      res.status(500).json({ message: "Failed to create template" });
+    }
+  });
+
+  app.patch("/api/templates/:id", isAuthenticated, requireTrainer, authorize("template.manage"), async (req: any, res) => {
+    try {
+      const template = req.template;
+
+      const { title, instructions, frequency, recurrence, expectedDurationMins } = req.body;
+      const updates: any = {};
+      if (title !== undefined) updates.title = title;
+      if (instructions !== undefined) updates.instructions = instructions;
+      if (recurrence !== undefined || frequency !== undefined) {
+        const schedule = resolveTaskSchedule(recurrence, frequency, template.createdAt);
+        if ("error" in schedule) {
+          return res.status(400).json({ message: schedule.error });
         }
+        updates.frequency = schedule.frequency;
+        updates.recurrence = schedule.recurrence;
       }
+      if (expectedDurationMins !== undefined) updates.expectedDurationMins = expectedDurationMins;
 
-      const fullSubmission = await storage.getSubmission(submission.id);
-      res.status(201).json(fullSubmission);
+      await storage.updateTaskTemplate(template.id, updates);
+      const updatedTemplate = await storage.getTaskTemplate(template.id);
+      res.json(updatedTemplate);
     } catch (error) {
-      console.error("Error creating submission:", error);
-      res.status(500).json({ message: "Failed to create submission" });
+      console.error("Error updating template:", error);
+      res.status(500).json({ message: "Failed to update template" });
     }
   });
 
-  app.post("/api/submissions/:id/comment", isAuthenticated, requireTrainer, upload.single("file"), async (req: any, res) => {
+  app.delete("/api/templates/:id", isAuthenticated, requireTrainer, authorize("template.manage"), async (req: any, res) => {
     try {
-      const user = req.appUser;
-      const submission = await storage.getSubmission(req.params.id);
-      if (!submission) {
-        return res.status(404).json({ message: "Submission not found" });
+      const template: TaskTemplateWithRelations = req.template;
+
+      if (!(await storage.deleteTaskTemplate(template.id))) {
+        return res.status(409).json({ message: "This template is used in a training program and can't be deleted" });
       }
+      await releaseMediaFiles((template.media || []).map((media) => media.filePath));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      res.status(500).json({ message: "Failed to delete template" });
+    }
+  });
 
-      const task = await storage.getTask(submission.taskId);
+  app.post("/api/tasks/:id/template", isAuthenticated, requireTrainer, authorize("task.manage"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const pet = req.pet;
+      const task = await storage.getTaskWithMedia(req.task.id);
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
       }
 
-      const pet = await storage.getPet(task.petId);
-      if (!pet || (pet.trainerId !== user.id && user.role !== "ADMIN")) {
-        return res.status(403).json({ message: "You're not assigned to this pet" });
+      // The template belongs with the pet's workspace, not whichever one the
+      // trainer happens to have switched to.
+      const workspace = await workspaceForPet(pet);
+      if (!workspace) {
+        return res.status(400).json({ message: "You need a workspace to save templates" });
+      }
+      if (!(await isWorkspaceStaff(workspace.id, user.id))) {
+        return res.status(403).json({ message: "You're not on the staff of this pet's workspace" });
       }
 
-      const comment = req.body.comment;
+      const template = await storage.createTaskTemplate({
+        workspaceId: workspace.id,
+        createdByUserId: user.id,
+        title: task.title,
+        instructions: task.instructions,
+        frequency: task.frequency,
+        recurrence: getTaskRecurrence(task),
+        expectedDurationMins: task.expectedDurationMins,
+      });
+
+      for (const media of task.media || []) {
+        await storage.createTaskTemplateMedia({
+          templateId: template.id,
+          ...copyMediaFields(media),
+        });
+      }
+
+      const fullTemplate = await storage.getTaskTemplate(template.id);
+      res.status(201).json(fullTemplate);
+    } catch (error) {
+      console.error("Error saving task as template:", error);
+      res.status(500).json({ message: "Failed to save template" });
+    }
+  });
+
+  app.post("/api/templates/:id/apply", isAuthenticated, requireTrainer, authorize("template.view"), authorize("pet.train", "petId", "body"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const template = req.template;
+      const pet = req.pet;
+
+      const { title, instructions, frequency, recurrence, expectedDurationMins } = req.body;
+
+      let schedule: { frequency: string; recurrence: RecurrenceRule } | { error: string };
+      if (recurrence !== undefined || frequency !== undefined) {
+        schedule = resolveTaskSchedule(recurrence, frequency, new Date());
+      } else {
+        const templateRule = rebaseRecurrence(getTaskRecurrence(template), toDateKey(new Date()));
+        schedule = { frequency: describeRecurrence(templateRule), recurrence: templateRule };
+      }
+      if ("error" in schedule) {
+        return res.status(400).json({ message: schedule.error });
+      }
+
+      const task = await storage.createTask({
+        petId: pet.id,
+        createdByTrainerId: user.id,
+        title: title || template.title,
+        instructions: instructions || template.instructions,
+        frequency: schedule.frequency,
+        recurrence: schedule.recurrence,
+        expectedDurationMins: expectedDurationMins !== undefined ? expectedDurationMins || null : template.expectedDurationMins,
+        isActive: true,
+      });
+
+      await copyTemplateMedia(template, task.id);
+      await notifyTaskCreated(task, pet, user.id);
+      await publishPetEvent(pet.id, "task.created", { taskId: task.id });
+
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error applying template:", error);
+      res.status(500).json({ message: "Failed to apply template" });
+    }
+  });
+
+  app.get("/api/programs", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      const programs = await storage.getProgramsByWorkspace(req.workspace.id);
+      res.json(programs);
+    } catch (error) {
+      console.error("Error fetching programs:", error);
+      res.status(500).json({ message: "Failed to fetch programs" });
+    }
+  });
+
+  app.post("/api/programs", isAuthenticated, requireTrainer, authorize("program.create"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const workspace = req.workspace;
+
+      const parsed = programInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid program" });
+      }
+
+      const templateIds = Array.from(new Set(parsed.data.phases.flatMap((phase) => phase.templateIds)));
+      for (const templateId of templateIds) {
+        const template = await storage.getTaskTemplate(templateId);
+        if (!template || template.workspaceId !== workspace.id) {
+          return res.status(400).json({ message: "Phases can only use templates from your workspace" });
+        }
+      }
+
+      const program = await storage.createProgram({
+        workspaceId: workspace.id,
+        createdByUserId: user.id,
+        name: parsed.data.name,
+        description: parsed.data.description || null,
+      });
+
+      for (let position = 0; position < parsed.data.phases.length; position++) {
+        const phaseInput = parsed.data.phases[position];
+        const phase = await storage.createProgramPhase({
+          programId: program.id,
+          position,
+          title: phaseInput.title,
+          durationWeeks: phaseInput.durationWeeks,
+        });
+        for (let templatePosition = 0; templatePosition < phaseInput.templateIds.length; templatePosition++) {
+          await storage.addProgramPhaseTemplate({
+            phaseId: phase.id,
+            templateId: phaseInput.templateIds[templatePosition],
+            position: templatePosition,
+          });
+        }
+      }
+
+      const fullProgram = await storage.getProgram(program.id);
+      res.status(201).json(fullProgram);
+    } catch (error) {
+      console.error("Error creating program:", error);
+      res.status(500).json({ message: "Failed to create program" });
+    }
+  });
+
+  app.get("/api/programs/:id", isAuthenticated, requireTrainer, authorize("program.view"), async (req: any, res) => {
+    try {
+      res.json(req.program);
+    } catch (error) {
+      console.error("Error fetching program:", error);
+      res.status(500).json({ message: "Failed to fetch program" });
+    }
+  });
+
+  app.delete("/api/programs/:id", isAuthenticated, requireTrainer, authorize("program.manage"), async (req: any, res) => {
+    try {
+      const program = req.program;
+
+      const assignments = await storage.getPetProgramsByProgram(program.id);
+      if (assignments.length > 0) {
+        return res.status(409).json({ message: "This program is assigned to pets and can't be deleted" });
+      }
+
+      await storage.deleteProgram(program.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting program:", error);
+      res.status(500).json({ message: "Failed to delete program" });
+    }
+  });
+
+  app.get("/api/pets/:id/programs", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
+    try {
+      const petPrograms = await storage.getPetPrograms(req.pet.id);
+      res.json(petPrograms);
+    } catch (error) {
+      console.error("Error fetching pet programs:", error);
+      res.status(500).json({ message: "Failed to fetch pet programs" });
+    }
+  });
+
+  app.post("/api/pets/:id/programs", isAuthenticated, requireTrainer, authorize("pet.train"), authorize("program.view", "programId", "body"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const pet = req.pet;
+      const program = req.program;
+
+      if (!program.phases || program.phases.length === 0) {
+        return res.status(400).json({ message: "This program has no phases" });
+      }
+
+      const existing = await storage.getPetPrograms(pet.id);
+      if (existing.some((petProgram) => petProgram.programId === program.id && petProgram.status !== "COMPLETED")) {
+        return res.status(409).json({ message: "This program is already running for this pet" });
+      }
+
+      const petProgram = await assignProgram(program, pet.id, user.id);
+      res.status(201).json(petProgram);
+    } catch (error) {
+      console.error("Error assigning program:", error);
+      res.status(500).json({ message: "Failed to assign program" });
+    }
+  });
+
+  app.post("/api/pet-programs/:id/advance", isAuthenticated, requireTrainer, authorize("pet-program.manage"), async (req: any, res) => {
+    try {
+      const petProgram = req.petProgram;
+
+      if (petProgram.status === "COMPLETED") {
+        return res.status(400).json({ message: "This program is already completed" });
+      }
+
+      const program = await storage.getProgram(petProgram.programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const advanced = await advancePetProgram(petProgram, program);
+      if (!advanced) {
+        return res.status(409).json({ message: "This program has already moved on. Refresh and try again." });
+      }
+      res.json(advanced);
+    } catch (error) {
+      console.error("Error advancing program:", error);
+      res.status(500).json({ message: "Failed to advance program" });
+    }
+  });
+
+  app.post("/api/pet-programs/:id/hold", isAuthenticated, requireTrainer, authorize("pet-program.manage"), async (req: any, res) => {
+    try {
+      const petProgram = req.petProgram;
+
+      if (petProgram.status === "COMPLETED") {
+        return res.status(400).json({ message: "This program is already completed" });
+      }
+
+      const updated = req.body.held === false
+        ? await resumePetProgram(petProgram)
+        : await holdPetProgram(petProgram);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating program hold:", error);
+      res.status(500).json({ message: "Failed to update program" });
+    }
+  });
+
+  app.get("/api/submissions/:id", isAuthenticated, authorize("submission.view"), async (req: any, res) => {
+    try {
+      res.json(req.submission);
+    } catch (error) {
+      console.error("Error fetching submission:", error);
+      res.status(500).json({ message: "Failed to fetch submission" });
+    }
+  });
+
+  app.post("/api/submissions", isAuthenticated, requireOwner, authorize("task.submit", "taskId", "body"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const task = req.task;
+      const pet = req.pet;
+      const { note, media, resubmissionOfId } = req.body;
+
+      if (!task.isActive) {
+        return res.status(400).json({ message: "This task has been closed and no longer accepts submissions" });
+      }
+
+      if (resubmissionOfId) {
+        const original = await storage.getSubmission(resubmissionOfId);
+        if (!original || original.taskId !== task.id) {
+          return res.status(404).json({ message: "Original submission not found" });
+        }
+        if (original.status !== "NEEDS_WORK") {
+          return res.status(400).json({ message: "Only submissions marked as needing work can be resubmitted" });
+        }
+      }
+
+      // Media is attached by finished resumable upload, so its paths and size
+      // come from the server's record of what this user uploaded for this pet.
+      const uploads: CompletedUpload[] = [];
+      for (const item of Array.isArray(media) ? media : []) {
+        const upload = await findCompletedUpload(item?.uploadId, user.id, pet.id);
+        if ("error" in upload) {
+          return res.status(upload.status).json({ message: upload.error });
+        }
+        uploads.push(upload);
+      }
+
+      const submission = await storage.createSubmission({
+        taskId: task.id,
+        submittedByUserId: user.id,
+        note: note || null,
+        status: "COMPLETED",
+        resubmissionOfId: resubmissionOfId || null,
+      });
+
+      if (resubmissionOfId) {
+        await storage.updateSubmissionStatus(resubmissionOfId, "RESUBMITTED");
+        await storage.createSubmissionStatusEvent({
+          submissionId: resubmissionOfId,
+          changedByUserId: user.id,
+          status: "RESUBMITTED",
+          comment: null,
+        });
+      }
+
+      for (const upload of uploads) {
+        await storage.createSubmissionMedia({
+          submissionId: submission.id,
+          ...upload.media,
+        });
+        await storage.deleteResumableUpload(upload.id);
+      }
+      if (uploads.some((upload) => upload.media.processingStatus)) {
+        queueVideoProcessing();
+      }
+
+      await notifySubmissionCreated(submission, task, pet, user.id);
+      await publishPetEvent(pet.id, "submission.created", { taskId: task.id, submissionId: submission.id });
+
+      const fullSubmission = await storage.getSubmission(submission.id);
+      res.status(201).json(fullSubmission);
+    } catch (error) {
+      console.error("Error creating submission:", error);
+      res.status(500).json({ message: "Failed to create submission" });
+    }
+  });
+
+  app.post("/api/submissions/:id/review", isAuthenticated, requireTrainer, authorize("submission.review"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const submission = req.submission;
+      const pet = req.pet;
+      const task = await storage.getTask(submission.taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const { status, comment } = req.body;
+      if (!REVIEW_STATUSES.includes(status)) {
+        return res.status(400).json({ message: "Status must be APPROVED or NEEDS_WORK" });
+      }
+
+      if (submission.status === "RESUBMITTED") {
+        return res.status(400).json({ message: "This submission has been replaced by a resubmission" });
+      }
+
+      const reviewed = await storage.updateSubmissionStatus(submission.id, status);
+      await storage.createSubmissionStatusEvent({
+        submissionId: submission.id,
+        changedByUserId: user.id,
+        status,
+        comment: typeof comment === "string" && comment.trim() ? comment.trim() : null,
+      });
+      if (reviewed) {
+        await notifySubmissionReviewed(reviewed, task, pet, user.id);
+      }
+      await publishPetEvent(pet.id, "submission.updated", { taskId: task.id, submissionId: submission.id });
+
+      const updatedSubmission = await storage.getSubmission(submission.id);
+      res.json(updatedSubmission);
+    } catch (error) {
+      console.error("Error reviewing submission:", error);
+      res.status(500).json({ message: "Failed to review submission" });
+    }
+  });
+
+  app.post("/api/submissions/:id/comment", isAuthenticated, authorize("submission.comment"), upload.single("file"), cleanupTempUploads, async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const submission: HomeworkSubmissionWithRelations = req.submission;
+      const pet = req.pet;
+      const task = await storage.getTask(submission.taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const comment = req.body.comment;
       if (!comment || typeof comment !== "string") {
         return res.status(400).json({ message: "Comment is required" });
       }
 
+      // Replies stay one level deep: replying to a reply joins its thread.
+      let parentCommentId: string | null = null;
+      if (req.body.parentCommentId) {
+        const parent = submission.comments?.find((c) => c.id === req.body.parentCommentId);
+        if (!parent) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        parentCommentId = parent.parentCommentId || parent.id;
+      }
+
+      const authorRole = await petParticipantRole(pet, user);
+      if (!authorRole) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Store the attachment before creating the comment, so a rejected file
+      // doesn't leave a comment behind without it.
+      let stored: StoredMedia | null = null;
+      if (req.file) {
+        await assertWithinUploadLimit(pet, [req.file]);
+        await assertStorageAvailable(pet, req.file.size);
+        stored = await storeUploadedFile(req.file, user.id);
+      }
+
       const newComment = await storage.createComment({
         submissionId: submission.id,
-        trainerId: user.id,
+        authorId: user.id,
+        authorRole,
+        parentCommentId,
         comment,
       });
 
-      if (req.file) {
-        const filePath = `/uploads/${req.file.filename}`;
-        const mediaType = req.file.mimetype.startsWith("video/") ? "VIDEO" : "IMAGE";
+      if (stored) {
         await storage.createCommentMedia({
           commentId: newComment.id,
-          mediaType,
-          filePath,
-          fileName: req.file.originalname,
+          ...stored,
         });
+        if (stored.processingStatus) {
+          queueVideoProcessing();
+        }
       }
 
+      await notifyCommentCreated(newComment, submission, task, pet, user.id);
+      await publishPetEvent(pet.id, "comment.created", { taskId: task.id, submissionId: submission.id });
+
       const updatedSubmission = await storage.getSubmission(submission.id);
       res.status(201).json(updatedSubmission);
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating comment:", error);
       res.status(500).json({ message: "Failed to create comment" });
     }
   });
 
-  app.get("/api/timeline/:petId", isAuthenticated, async (req: any, res) => {
+  app.get("/api/timeline/:petId", isAuthenticated, authorize("pet.view", "petId"), async (req: any, res) => {
     try {
-      const pet = await storage.getPet(req.params.petId);
-      if (!pet) {
-        return res.status(404).json({ message: "Pet not found" });
-      }
-
-      const user = await getUserWithRole(req);
-      // Allow if user is owner, trainer, or ADMIN
-      if (!user || (pet.ownerId !== user.id && pet.trainerId !== user.id && user.role !== "ADMIN")) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const pet = req.pet;
 
       const timeline = await storage.getTimeline(pet.id);
       res.json(timeline);
@@ -778,21 +1837,464 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/upload", isAuthenticated, upload.single("file"), (req, res) => {
+  app.get("/api/pets/:id/events", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const user = req.appUser;
+      const pet = req.pet;
+
+      subscribeToPet(pet.id, res, async () => {
+        const [currentUser, currentPet] = await Promise.all([storage.getUser(user.id), storage.getPet(pet.id)]);
+        return !!currentUser && !!currentPet && (await can(currentUser, "pet.view", currentPet));
+      });
+    } catch (error) {
+      console.error("Error opening pet event stream:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to open event stream" });
       }
+    }
+  });
 
-      const filePath = `/uploads/${req.file.filename}`;
-      const mediaType = req.file.mimetype.startsWith("video/") ? "VIDEO" : "IMAGE";
+  app.get("/api/pets/:id/messages", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
+    try {
+      const pet = req.pet;
 
-      res.json({
-        filePath,
-        mediaType,
-        fileName: req.file.originalname,
+      const messages = await storage.getPetMessages(pet.id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/pets/:id/messages", isAuthenticated, authorize("pet.message"), upload.array("files", 5), cleanupTempUploads, async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const pet = req.pet;
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const body = typeof req.body.body === "string" ? req.body.body.trim() : "";
+      if (!body && files.length === 0) {
+        return res.status(400).json({ message: "Message text or an attachment is required" });
+      }
+      const senderRole = await petParticipantRole(pet, user);
+      if (!senderRole) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (files.length > 0) {
+        await assertWithinUploadLimit(pet, files);
+        await assertStorageAvailable(pet, files.reduce((total, file) => total + file.size, 0));
+      }
+
+      // Every attachment is stored before the message exists, so a rejected
+      // file doesn't leave a message behind with only some of them. Files
+      // stored before the rejection are left to the orphan reconciler.
+      const stored: StoredMedia[] = [];
+      for (const file of files) {
+        stored.push(await storeUploadedFile(file, user.id));
+      }
+
+      const message = await storage.createPetMessage({
+        petId: pet.id,
+        senderId: user.id,
+        senderRole,
+        body: body || null,
+      });
+
+      for (const media of stored) {
+        await storage.createPetMessageMedia({
+          messageId: message.id,
+          ...media,
+        });
+      }
+      if (stored.some((media) => media.processingStatus)) {
+        queueVideoProcessing();
+      }
+
+      // Sending implies the sender has seen everything before it.
+      await storage.markPetMessagesRead(pet.id, user.id);
+
+      const fullMessage = await storage.getPetMessage(message.id);
+      res.status(201).json(fullMessage);
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  app.get("/api/pets/:id/messages/unread", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const pet = req.pet;
+
+      const unread = await storage.getUnreadPetMessageCount(pet.id, user.id);
+      res.json({ count: unread });
+    } catch (error) {
+      console.error("Error counting unread messages:", error);
+      res.status(500).json({ message: "Failed to count unread messages" });
+    }
+  });
+
+  app.post("/api/pets/:id/messages/read", isAuthenticated, authorize("pet.view"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const pet = req.pet;
+
+      await storage.markPetMessagesRead(pet.id, user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking messages read:", error);
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) return res.status(401).json({ message: "Not authenticated" });
+
+      const [items, unread] = await Promise.all([
+        storage.getNotificationsByUser(userId, 50),
+        storage.getUnreadNotificationCount(userId),
+      ]);
+      res.json({ notifications: items, unreadCount: unread });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) return res.status(401).json({ message: "Not authenticated" });
+
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) return res.status(401).json({ message: "Not authenticated" });
+
+      await storage.markAllNotificationsRead(userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.get("/api/reminders/settings", isAuthenticated, requireOwner, async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const settings = await storage.getReminderSettings(user.id);
+      res.json(settings ?? { ...DEFAULT_REMINDER_SETTINGS, snoozedUntil: null });
+    } catch (error) {
+      console.error("Error fetching reminder settings:", error);
+      res.status(500).json({ message: "Failed to fetch reminder settings" });
+    }
+  });
+
+  app.put("/api/reminders/settings", isAuthenticated, requireOwner, async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const parsed = reminderSettingsInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid reminder settings" });
+      }
+
+      const settings = await storage.upsertReminderSettings({ userId: user.id, ...parsed.data });
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating reminder settings:", error);
+      res.status(500).json({ message: "Failed to update reminder settings" });
+    }
+  });
+
+  app.post("/api/reminders/snooze", isAuthenticated, requireOwner, async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const parsed = z.object({ days: z.number().int().min(1).max(30).nullable() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Snooze must be between 1 and 30 days" });
+      }
+
+      const settings = await storage.upsertReminderSettings({
+        userId: user.id,
+        snoozedUntil: parsed.data.days ? addDays(new Date(), parsed.data.days) : null,
       });
+      res.json(settings);
     } catch (error) {
+      console.error("Error snoozing reminders:", error);
+      res.status(500).json({ message: "Failed to snooze reminders" });
+    }
+  });
+
+  app.get("/api/digests", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      const digests = await storage.getWorkspaceDigests(req.workspace.id, 26);
+      res.json(digests);
+    } catch (error) {
+      console.error("Error fetching digests:", error);
+      res.status(500).json({ message: "Failed to fetch digests" });
+    }
+  });
+
+  app.get("/api/digests/preview", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      const workspace = req.workspace;
+
+      const now = new Date();
+      const data = await buildWorkspaceDigest(workspace.id, addDays(now, -DIGEST_PERIOD_DAYS), now);
+      res.json(data);
+    } catch (error) {
+      console.error("Error building digest preview:", error);
+      res.status(500).json({ message: "Failed to build digest preview" });
+    }
+  });
+
+  app.get("/api/digests/settings", isAuthenticated, requireTrainer, authorize("workspace.view"), async (req: any, res) => {
+    try {
+      const workspace = req.workspace;
+
+      const settings = await storage.getDigestSettings(workspace.id);
+      res.json(settings ?? DEFAULT_DIGEST_SETTINGS);
+    } catch (error) {
+      console.error("Error fetching digest settings:", error);
+      res.status(500).json({ message: "Failed to fetch digest settings" });
+    }
+  });
+
+  app.put("/api/digests/settings", isAuthenticated, requireTrainer, authorize("workspace.manage"), async (req: any, res) => {
+    try {
+      const workspace = req.workspace;
+
+      const parsed = digestSettingsInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid digest settings" });
+      }
+
+      const settings = await storage.upsertDigestSettings({ workspaceId: workspace.id, ...parsed.data });
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating digest settings:", error);
+      res.status(500).json({ message: "Failed to update digest settings" });
+    }
+  });
+
+  app.get("/api/digests/:id", isAuthenticated, requireTrainer, authorize("digest.view"), async (req: any, res) => {
+    try {
+      res.json(req.digest);
+    } catch (error) {
+      console.error("Error fetching digest:", error);
+      res.status(500).json({ message: "Failed to fetch digest" });
+    }
+  });
+
+  app.get("/api/digests/:id/download", isAuthenticated, requireTrainer, authorize("digest.view"), async (req: any, res) => {
+    try {
+      const digest = req.digest;
+      const workspace = await storage.getWorkspace(digest.workspaceId);
+      if (!workspace) {
+        return res.status(404).json({ message: "Digest not found" });
+      }
+
+      const html = await renderDigestHtml(digest, workspace);
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="pawsync-digest-${digest.periodKey}.html"`);
+      res.send(html);
+    } catch (error) {
+      console.error("Error downloading digest:", error);
+      res.status(500).json({ message: "Failed to download digest" });
+    }
+  });
+
+  app.get("/api/admin/media/reclaimed", isAuthenticated, requireAdmin, async (_req, res) => {
+    try {
+      const report = await storage.getReclaimedMediaReport(subDays(new Date(), 30));
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching reclaimed media report:", error);
+      res.status(500).json({ message: "Failed to fetch reclaimed media report" });
+    }
+  });
+
+  app.get("/api/admin/workspaces/storage", isAuthenticated, requireAdmin, async (_req, res) => {
+    try {
+      const workspaces = await storage.getAllWorkspaces();
+      const usage = [];
+      for (const workspace of workspaces) {
+        usage.push(await getWorkspaceStorageUsage(workspace));
+      }
+      usage.sort((a, b) => b.usedBytes - a.usedBytes);
+      res.json(usage);
+    } catch (error) {
+      console.error("Error fetching workspace storage usage:", error);
+      res.status(500).json({ message: "Failed to fetch workspace storage usage" });
+    }
+  });
+
+  app.put("/api/admin/workspaces/:id/storage-quota", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const workspace = await storage.getWorkspace(req.params.id);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      const parsed = storageQuotaInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid storage quota" });
+      }
+
+      const updated = await storage.updateWorkspace(workspace.id, { storageQuotaMb: parsed.data.storageQuotaMb });
+      res.json(await getWorkspaceStorageUsage(updated ?? workspace));
+    } catch (error) {
+      console.error("Error updating storage quota:", error);
+      res.status(500).json({ message: "Failed to update storage quota" });
+    }
+  });
+
+  app.post("/api/admin/media/reconcile", isAuthenticated, requireAdmin, async (_req, res) => {
+    try {
+      const result = await reconcileOrphanedMedia();
+      res.json(result);
+    } catch (error) {
+      console.error("Error reconciling orphaned media:", error);
+      res.status(500).json({ message: "Failed to clean up orphaned media" });
+    }
+  });
+
+  // Resumable uploads, modelled on tus: create with the file's size, PATCH
+  // chunks with an Upload-Offset header, and HEAD to find where to resume.
+  app.post("/api/uploads", isAuthenticated, authorize("pet.upload", "petId", "body"), async (req: any, res) => {
+    try {
+      const user = req.appUser;
+      const pet = req.pet;
+
+      const parsed = resumableUploadInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid upload" });
+      }
+
+      await assertWithinUploadLimit(pet, [parsed.data]);
+      await assertStorageAvailable(pet, parsed.data.size);
+
+      const upload = await storage.createResumableUpload({
+        ...parsed.data,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + RESUMABLE_UPLOAD_TTL_MS),
+      });
+
+      res.setHeader("Location", `/api/uploads/${upload.id}`);
+      res.setHeader("Upload-Offset", "0");
+      res.setHeader("Upload-Length", String(upload.size));
+      res.status(201).json(resumableUploadStatus(upload, 0));
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating upload:", error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  app.head("/api/uploads/:id", isAuthenticated, authorize("upload.write"), async (req: any, res) => {
+    try {
+      const upload = req.upload;
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Upload-Offset", String(await currentUploadOffset(upload)));
+      res.setHeader("Upload-Length", String(upload.size));
+      res.status(200).end();
+    } catch (error) {
+      console.error("Error checking upload offset:", error);
+      res.status(500).end();
+    }
+  });
+
+  app.get("/api/uploads/:id", isAuthenticated, authorize("upload.write"), async (req: any, res) => {
+    try {
+      const upload = req.upload;
+      res.setHeader("Cache-Control", "no-store");
+      res.json(resumableUploadStatus(upload, await currentUploadOffset(upload)));
+    } catch (error) {
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  app.patch("/api/uploads/:id", isAuthenticated, authorize("upload.write"), async (req: any, res) => {
+    try {
+      const upload = req.upload;
+      const offset = Number(req.headers["upload-offset"]);
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: "Upload-Offset header is required" });
+      }
+
+      const result = await appendUploadChunk(upload, offset, req);
+      if (result.status === "busy") {
+        return res.status(423).json({ message: "Another chunk for this upload is still being written" });
+      }
+      if (result.status === "offset-mismatch") {
+        res.setHeader("Upload-Offset", String(result.offset));
+        return res.status(409).json({ message: "Upload offset does not match", offset: result.offset });
+      }
+      if (result.status === "too-large") {
+        return res.status(413).json({ message: "Chunk runs past the end of the file" });
+      }
+
+      res.setHeader("Upload-Offset", String(result.offset));
+      res.json(resumableUploadStatus(result.upload, result.offset));
+    } catch (error) {
+      if (error instanceof UploadRejectedError && !res.headersSent) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error writing upload chunk:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to save upload chunk" });
+      }
+    }
+  });
+
+  app.delete("/api/uploads/:id", isAuthenticated, authorize("upload.write"), async (req: any, res) => {
+    try {
+      const upload = req.upload;
+      await discardResumableUpload(upload);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error cancelling upload:", error);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  app.post("/api/upload", isAuthenticated, photoUpload.single("file"), cleanupTempUploads, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const stored = await storeUploadedFile(req.file, userId);
+      res.json(stored);
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error uploading file:", error);
       res.status(500).json({ message: "Failed to upload file" });
     }
@@ -310,73 +310,73 @@ export async function seedDatabase() {
 
     await db.insert(trainerComments).values({
       submissionId: submission1.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Great progress! 8 out of 10 is excellent for this stage. Keep up the consistent practice and try adding a hand signal next.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission2.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Wonderful! The enclosed backyard is perfect for recall practice. Try adding some distractions next week to level up the training.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission3.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Excellent work on the leash walking! The pulling at the beginning is normal. Try stopping and waiting when he pulls.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission4.id,
-      trainerId: trainer2.id,
+      authorId: trainer2.id,
       comment: "This is a huge milestone! Voluntary crate entry is exactly what we want. Keep making it a positive space.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission5.id,
-      trainerId: trainer2.id,
+      authorId: trainer2.id,
       comment: "15 seconds is great progress! Let's aim for 30 seconds next week. Remember to vary your distance too.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission6.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Bella sounds like a natural retriever! For the drop command, try trading the ball for a treat.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission7.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Charlie is doing amazing! Beagles are naturals at this. Try hiding treats in harder spots next time.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission8.id,
-      trainerId: trainer2.id,
+      authorId: trainer2.id,
       comment: "10 minutes is wonderful! Daisy is building trust with the grooming routine. Keep up the positive associations!",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission9.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Down can be challenging for some dogs. Try practicing on a soft mat and using higher value treats. Be patient!",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission10.id,
-      trainerId: trainer2.id,
+      authorId: trainer2.id,
       comment: "Great job with the socialization! Some nervousness is normal. You handled it well by keeping the session positive.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission11.id,
-      trainerId: trainer1.id,
+      authorId: trainer1.id,
       comment: "Almost perfect! Time to add distractions during the sit command. Try practicing during TV time or when the doorbell rings.",
     });
 
     await db.insert(trainerComments).values({
       submissionId: submission12.id,
-      trainerId: trainer2.id,
+      authorId: trainer2.id,
       comment: "Sleeping through the night is a major success! Max has clearly learned that the crate is his safe space. Outstanding progress!",
     });
 
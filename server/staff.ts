@@ -0,0 +1,101 @@
+import type {
+  Pet,
+  PetWithRelations,
+  StaffMember,
+  User,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceStaff,
+  WorkspaceStaffRole,
+  WorkspaceWithRelations,
+} from "@shared/schema";
+import { isStaffRole } from "@shared/staff";
+import { storage } from "./storage";
+
+export type StaffMembership = {
+  workspace: WorkspaceWithRelations;
+  membership: WorkspaceMember;
+};
+
+// The workspace a trainer works in. Someone on the staff of more than one
+// works in the one they've switched to, otherwise in the one they run.
+export async function getStaffMembership(userId: string, activeWorkspaceId?: string): Promise<StaffMembership | undefined> {
+  const memberships = await storage.getStaffMemberships(userId);
+  const membership =
+    memberships.find((m) => m.workspaceId === activeWorkspaceId) ??
+    memberships.find((m) => m.role === "HEAD_TRAINER") ??
+    memberships[0];
+  if (!membership) return undefined;
+
+  const workspace = await storage.getWorkspace(membership.workspaceId);
+  return workspace ? { workspace, membership } : undefined;
+}
+
+export async function getStaffWorkspace(userId: string, activeWorkspaceId?: string): Promise<WorkspaceWithRelations | undefined> {
+  return (await getStaffMembership(userId, activeWorkspaceId))?.workspace;
+}
+
+export async function isWorkspaceStaff(workspaceId: string, userId: string): Promise<boolean> {
+  const membership = await storage.getWorkspaceMembership(workspaceId, userId);
+  return isStaffRole(membership?.role);
+}
+
+// The workspace a pet belongs to: the one its owner joined, or its trainer's
+// for pets assigned before workspaces existed.
+export async function workspaceForPet(pet: Pet): Promise<WorkspaceWithRelations | undefined> {
+  if (pet.workspaceId) return storage.getWorkspace(pet.workspaceId);
+  return pet.trainerId ? getStaffWorkspace(pet.trainerId) : undefined;
+}
+
+// The role someone posts in on a pet's threads and chat: its owner, its
+// trainer or someone on its workspace's staff, or an admin. The workspace
+// they've switched to doesn't matter; only their place in the pet's does.
+export async function petParticipantRole(pet: Pet, user: User): Promise<"OWNER" | "TRAINER" | "ADMIN" | undefined> {
+  if (pet.ownerId === user.id) return "OWNER";
+  if (pet.trainerId === user.id) return "TRAINER";
+  const workspace = await workspaceForPet(pet);
+  if (workspace && (await isWorkspaceStaff(workspace.id, user.id))) return "TRAINER";
+  return user.role === "ADMIN" ? "ADMIN" : undefined;
+}
+
+// Pets shown on a trainer's dashboard: the ones assigned to them in the
+// workspace they're working in, plus the rest of its pets when they may work
+// with those too.
+export async function getPetsForStaff(user: User, activeWorkspaceId?: string): Promise<PetWithRelations[]> {
+  const staff = await getStaffMembership(user.id, activeWorkspaceId);
+  const assigned = (await storage.getPetsByTrainer(user.id)).filter(
+    (pet) => !staff || !pet.workspaceId || pet.workspaceId === staff.workspace.id,
+  );
+  if (!staff || (staff.membership.role !== "HEAD_TRAINER" && !staff.workspace.staffSeeAllPets)) {
+    return assigned;
+  }
+
+  const workspacePets = await storage.getPetsByWorkspace(staff.workspace.id);
+  const seen = new Set(workspacePets.map((pet) => pet.id));
+  return [...workspacePets, ...assigned.filter((pet) => !seen.has(pet.id))].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  );
+}
+
+// The workspace's staff, head trainers first, with how many pets each has
+// assigned.
+export async function getWorkspaceStaff(workspace: Workspace, myRole: WorkspaceStaffRole | null): Promise<WorkspaceStaff> {
+  const members = (await storage.getWorkspaceMembers(workspace.id)).filter((member) => isStaffRole(member.role));
+  const pets = await storage.getPetsByWorkspace(workspace.id);
+
+  const staff: StaffMember[] = members
+    .map((member) => ({
+      ...member,
+      assignedPets: pets.filter((pet) => pet.trainerId === member.userId).length,
+    }))
+    .sort((a, b) =>
+      a.role === b.role ? a.createdAt.getTime() - b.createdAt.getTime() : a.role === "HEAD_TRAINER" ? -1 : 1,
+    );
+
+  return {
+    workspaceId: workspace.id,
+    myRole,
+    staffSeeAllPets: workspace.staffSeeAllPets,
+    members: staff,
+  };
+}
@@ -1,25 +1,103 @@
 import { 
-  users, pets, homeworkTasks, homeworkSubmissions, submissionMedia, trainerComments, taskMedia, commentMedia,
-  workspaces, workspaceMembers,
+  users, pets, homeworkTasks, taskClosures, homeworkSubmissions, submissionMedia, trainerComments, taskMedia, commentMedia,
+  submissionStatusEvents, petMessages, petMessageMedia, petMessageReads, notifications,
+  reminderSettings, homeworkReminders, digestSettings, workspaceDigests,
+  workspaces, workspaceMembers, workspaceInvites, clientInvitations, taskTemplates, taskTemplateMedia,
+  trainingPrograms, programPhases, programPhaseTemplates, petPrograms, mediaUploads, reclaimedMedia, resumableUploads,
   type User,
   type Pet, type InsertPet, type PetWithRelations,
   type HomeworkTask, type InsertHomeworkTask, type HomeworkTaskWithRelations,
   type HomeworkSubmission, type InsertHomeworkSubmission, type HomeworkSubmissionWithRelations,
   type SubmissionMedia, type InsertSubmissionMedia,
-  type TaskMedia, type InsertTaskMedia,
+  type SubmissionStatusEvent, type InsertSubmissionStatusEvent,
+  type PetMessage, type InsertPetMessage, type PetMessageWithRelations,
+  type PetMessageMedia, type InsertPetMessageMedia,
+  type Notification, type InsertNotification, type NotificationWithRelations,
+  type ReminderSettings, type InsertReminderSettings,
+  type HomeworkReminder, type InsertHomeworkReminder,
+  type DigestSettings, type InsertDigestSettings,
+  type WorkspaceDigest, type InsertWorkspaceDigest,
+  type TaskMedia, type InsertTaskMedia, type VideoProcessingResult, type MediaReference, type PetMediaFile,
+  type MediaUpload, type InsertMediaUpload,
+  type ResumableUpload, type InsertResumableUpload,
+  type ReclaimedMedia, type InsertReclaimedMedia, type ReclaimedMediaReport, type MediaReclaimReason,
   type TrainerComment, type InsertTrainerComment, type TrainerCommentWithRelations,
   type CommentMedia, type InsertCommentMedia,
   type TimelineItem,
   type Workspace, type InsertWorkspace, type WorkspaceWithRelations,
-  type WorkspaceMember, type InsertWorkspaceMember,
+  type WorkspaceMember, type InsertWorkspaceMember, type WorkspaceStaffRole, WORKSPACE_STAFF_ROLES,
+  type WorkspaceInvite, type InsertWorkspaceInvite,
+  type ClientInvitation, type InsertClientInvitation,
+  type TaskTemplate, type InsertTaskTemplate, type TaskTemplateWithRelations,
+  type TaskTemplateMedia, type InsertTaskTemplateMedia,
+  type TrainingProgram, type InsertTrainingProgram, type TrainingProgramWithRelations,
+  type ProgramPhase, type InsertProgramPhase,
+  type ProgramPhaseTemplate, type InsertProgramPhaseTemplate,
+  type PetProgram, type InsertPetProgram, type PetProgramWithRelations,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, or } from "drizzle-orm";
+import { eq, and, asc, desc, or, ne, gt, gte, lt, inArray, count, sum, isNull, notExists, sql, TransactionRollbackError } from "drizzle-orm";
+
+// Every table that holds uploaded files; background media jobs work across all of them.
+const MEDIA_TABLES = [taskMedia, submissionMedia, commentMedia, taskTemplateMedia, petMessageMedia] as const;
+
+// Matches a row by its original file or any file derived from it.
+function usesMediaPath(table: (typeof MEDIA_TABLES)[number], path: string) {
+  return or(
+    eq(table.filePath, path),
+    eq(table.thumbnailPath, path),
+    eq(table.mediumPath, path),
+    eq(table.playbackPath, path),
+    eq(table.posterPath, path),
+  );
+}
+
+// A task to create from a template, with its demo media.
+export type TaskSetup = {
+  task: Omit<InsertHomeworkTask, "petId">;
+  media: Omit<InsertTaskMedia, "taskId">[];
+};
+
+// What accepting a client invitation creates: the prepared pet and its
+// starter tasks.
+export type InvitedPetSetup = {
+  pet: InsertPet;
+  tasks: TaskSetup[];
+};
+
+// Closing the phase a program leaves and creating the tasks of the one it
+// moves into.
+export type PhaseChange = {
+  closePhaseId: string | null;
+  closedAt: Date;
+  tasks: TaskSetup[];
+};
+
+// What joining a workspace through an invite link did.
+export type InviteJoinResult =
+  | { status: "joined"; member: WorkspaceMember }
+  | { status: "already-member" }
+  | { status: "invalid" };
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function insertTasks(tx: Transaction, petId: string, tasks: TaskSetup[]): Promise<HomeworkTask[]> {
+  const created: HomeworkTask[] = [];
+  for (const { task, media } of tasks) {
+    const [row] = await tx.insert(homeworkTasks).values({ ...task, petId }).returning();
+    for (const item of media) {
+      await tx.insert(taskMedia).values({ ...item, taskId: row.id });
+    }
+    created.push(row);
+  }
+  return created;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   updateUserRole(id: string, role: string): Promise<User | undefined>;
+  updateUserEmailOptOuts(id: string, emailOptOuts: string[]): Promise<User | undefined>;
   
   getPet(id: string): Promise<PetWithRelations | undefined>;
   getPetsByOwner(ownerId: string): Promise<PetWithRelations[]>;
@@ -33,15 +111,17 @@ export interface IStorage {
   getTask(id: string): Promise<HomeworkTask | undefined>;
   getTaskWithMedia(id: string): Promise<HomeworkTaskWithRelations | undefined>;
   createTask(task: InsertHomeworkTask): Promise<HomeworkTask>;
-  updateTask(id: string, updates: Partial<Pick<HomeworkTask, "title" | "instructions" | "frequency" | "expectedDurationMins" | "isActive" | "preferredDays">>): Promise<HomeworkTask | undefined>;
+  updateTask(id: string, updates: Partial<Pick<HomeworkTask, "title" | "instructions" | "frequency" | "recurrence" | "expectedDurationMins" | "isActive" | "closedAt" | "preferredDays">>): Promise<HomeworkTask | undefined>;
   
   createTaskMedia(media: InsertTaskMedia): Promise<TaskMedia>;
   getTaskMedia(taskId: string): Promise<TaskMedia[]>;
-  deleteTaskMedia(id: string): Promise<void>;
+  deleteTaskMedia(id: string): Promise<TaskMedia | undefined>;
   
   getSubmission(id: string): Promise<HomeworkSubmissionWithRelations | undefined>;
   getSubmissionsByPet(petId: string): Promise<HomeworkSubmissionWithRelations[]>;
   createSubmission(submission: InsertHomeworkSubmission): Promise<HomeworkSubmission>;
+  updateSubmissionStatus(id: string, status: string): Promise<HomeworkSubmission | undefined>;
+  createSubmissionStatusEvent(event: InsertSubmissionStatusEvent): Promise<SubmissionStatusEvent>;
   
   createSubmissionMedia(media: InsertSubmissionMedia): Promise<SubmissionMedia>;
   
@@ -51,18 +131,108 @@ export interface IStorage {
   
   getTimeline(petId: string): Promise<TimelineItem[]>;
   
+  getPetMessages(petId: string): Promise<PetMessageWithRelations[]>;
+  getPetMessage(id: string): Promise<PetMessageWithRelations | undefined>;
+  createPetMessage(message: InsertPetMessage): Promise<PetMessage>;
+  createPetMessageMedia(media: InsertPetMessageMedia): Promise<PetMessageMedia>;
+  markPetMessagesRead(petId: string, userId: string): Promise<void>;
+  getUnreadPetMessageCount(petId: string, userId: string): Promise<number>;
+  
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsByUser(userId: string, limit: number): Promise<NotificationWithRelations[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
+  getReminderSettings(userId: string): Promise<ReminderSettings | undefined>;
+  upsertReminderSettings(settings: InsertReminderSettings): Promise<ReminderSettings>;
+  getActiveTasksWithPets(): Promise<(HomeworkTask & { pet: Pet })[]>;
+  getSubmissionsForTasksSince(taskIds: string[], since: Date): Promise<HomeworkSubmission[]>;
+  claimHomeworkReminder(reminder: InsertHomeworkReminder): Promise<HomeworkReminder | undefined>;
+
+  claimPendingVideo(staleBefore: Date): Promise<string | undefined>;
+  updateVideoProcessing(filePath: string, result: VideoProcessingResult): Promise<void>;
+  getMediaReferences(path: string): Promise<MediaReference[]>;
+  getMediaTemplateWorkspaceIds(path: string): Promise<string[]>;
+  isProfileImage(path: string): Promise<boolean>;
+  createMediaUpload(upload: InsertMediaUpload): Promise<MediaUpload>;
+  getMediaUpload(filePath: string): Promise<MediaUpload | undefined>;
+  getMediaUploadsToCheck(createdBefore: Date, limit: number): Promise<MediaUpload[]>;
+  markMediaUploadChecked(id: string, checkedAt: Date): Promise<void>;
+  deleteMediaUpload(filePath: string): Promise<void>;
+  createReclaimedMedia(reclaimed: InsertReclaimedMedia): Promise<ReclaimedMedia>;
+  getReclaimedMediaReport(since: Date): Promise<ReclaimedMediaReport>;
+
+  createResumableUpload(upload: InsertResumableUpload): Promise<ResumableUpload>;
+  getResumableUpload(id: string): Promise<ResumableUpload | undefined>;
+  updateResumableUpload(id: string, updates: Partial<Pick<ResumableUpload, "uploadOffset" | "media" | "completedAt">>): Promise<ResumableUpload | undefined>;
+  deleteResumableUpload(id: string): Promise<void>;
+  getExpiredResumableUploads(now: Date): Promise<ResumableUpload[]>;
+
+  getPetMediaFiles(petIds: string[]): Promise<PetMediaFile[]>;
+  getMediaPathsMissingSize(limit: number): Promise<string[]>;
+  setMediaSize(filePath: string, sizeBytes: number): Promise<void>;
+  
   createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
   getWorkspace(id: string): Promise<WorkspaceWithRelations | undefined>;
-  getWorkspaceByToken(token: string): Promise<WorkspaceWithRelations | undefined>;
   getWorkspaceByTrainer(trainerId: string): Promise<WorkspaceWithRelations | undefined>;
-  updateWorkspace(id: string, updates: Partial<Pick<Workspace, "businessName" | "bio">>): Promise<Workspace | undefined>;
+  updateWorkspace(id: string, updates: Partial<Pick<Workspace, "businessName" | "bio" | "maxUploadMb" | "storageQuotaMb" | "staffSeeAllPets">>): Promise<Workspace | undefined>;
+  getAllWorkspaces(): Promise<Workspace[]>;
+
+  createWorkspaceInvite(invite: InsertWorkspaceInvite): Promise<WorkspaceInvite>;
+  getWorkspaceInvite(id: string): Promise<WorkspaceInvite | undefined>;
+  getWorkspaceInviteByToken(token: string): Promise<WorkspaceInvite | undefined>;
+  getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]>;
+  updateWorkspaceInvite(id: string, updates: Partial<Pick<WorkspaceInvite, "token" | "revokedAt">>): Promise<WorkspaceInvite | undefined>;
+  joinWorkspaceWithInvite(invite: WorkspaceInvite, userId: string, now: Date): Promise<InviteJoinResult>;
+  createClientInvitation(invitation: InsertClientInvitation): Promise<ClientInvitation>;
+  getClientInvitation(id: string): Promise<ClientInvitation | undefined>;
+  getClientInvitationByToken(token: string): Promise<ClientInvitation | undefined>;
+  getClientInvitations(workspaceId: string): Promise<ClientInvitation[]>;
+  updateClientInvitation(id: string, updates: Partial<Pick<ClientInvitation, "expiresAt" | "lastSentAt" | "petId">>): Promise<ClientInvitation | undefined>;
+  acceptClientInvitation(id: string, userId: string, now: Date, setUp: InvitedPetSetup): Promise<{ pet: Pet; tasks: HomeworkTask[] } | undefined>;
+
+  getDigestSettings(workspaceId: string): Promise<DigestSettings | undefined>;
+  upsertDigestSettings(settings: InsertDigestSettings): Promise<DigestSettings>;
+  getWorkspaceDigests(workspaceId: string, limit: number): Promise<WorkspaceDigest[]>;
+  getWorkspaceDigest(id: string): Promise<WorkspaceDigest | undefined>;
+  getWorkspaceDigestByPeriod(workspaceId: string, periodKey: string): Promise<WorkspaceDigest | undefined>;
+  createWorkspaceDigest(digest: InsertWorkspaceDigest): Promise<WorkspaceDigest | undefined>;
   
   addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
   getWorkspaceMembers(workspaceId: string): Promise<(WorkspaceMember & { user?: User })[]>;
   getUserWorkspaces(userId: string): Promise<WorkspaceMember[]>;
+  getWorkspaceMember(id: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getStaffMemberships(userId: string): Promise<WorkspaceMember[]>;
+  updateWorkspaceMemberRole(id: string, role: WorkspaceStaffRole): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(id: string): Promise<void>;
+  reassignWorkspacePets(workspaceId: string, fromTrainerId: string, toTrainerId: string): Promise<void>;
   
   updateUser(id: string, updates: Partial<Pick<User, "firstName" | "lastName" | "profileImageUrl" | "role" | "onboardingComplete">>): Promise<User | undefined>;
   getPetsByWorkspace(workspaceId: string): Promise<PetWithRelations[]>;
+  
+  getTaskTemplatesByWorkspace(workspaceId: string): Promise<TaskTemplateWithRelations[]>;
+  getTaskTemplate(id: string): Promise<TaskTemplateWithRelations | undefined>;
+  createTaskTemplate(template: InsertTaskTemplate): Promise<TaskTemplate>;
+  updateTaskTemplate(id: string, updates: Partial<Pick<TaskTemplate, "title" | "instructions" | "frequency" | "recurrence" | "expectedDurationMins">>): Promise<TaskTemplate | undefined>;
+  deleteTaskTemplate(id: string): Promise<boolean>;
+  createTaskTemplateMedia(media: InsertTaskTemplateMedia): Promise<TaskTemplateMedia>;
+  
+  getProgramsByWorkspace(workspaceId: string): Promise<TrainingProgramWithRelations[]>;
+  getProgram(id: string): Promise<TrainingProgramWithRelations | undefined>;
+  createProgram(program: InsertTrainingProgram): Promise<TrainingProgram>;
+  createProgramPhase(phase: InsertProgramPhase): Promise<ProgramPhase>;
+  addProgramPhaseTemplate(link: InsertProgramPhaseTemplate): Promise<ProgramPhaseTemplate>;
+  deleteProgram(id: string): Promise<void>;
+  
+  getPetPrograms(petId: string): Promise<PetProgramWithRelations[]>;
+  getPetProgram(id: string): Promise<PetProgramWithRelations | undefined>;
+  getPetProgramsByProgram(programId: string): Promise<PetProgram[]>;
+  getActivePetPrograms(): Promise<PetProgram[]>;
+  createPetProgram(petProgram: InsertPetProgram): Promise<PetProgram>;
+  updatePetProgram(id: string, updates: Partial<Pick<PetProgram, "status" | "currentPhaseIndex" | "phaseStartedAt" | "heldAt" | "completedAt">>): Promise<PetProgram | undefined>;
+  movePetProgramPhase(id: string, from: Pick<PetProgram, "status" | "currentPhaseIndex">, updates: Partial<Pick<PetProgram, "status" | "currentPhaseIndex" | "phaseStartedAt" | "heldAt" | "completedAt">>, change: PhaseChange): Promise<{ petProgram: PetProgram; tasks: HomeworkTask[] } | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -85,6 +255,15 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async updateUserEmailOptOuts(id: string, emailOptOuts: string[]): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailOptOuts, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async getPet(id: string): Promise<PetWithRelations | undefined> {
     const result = await db.query.pets.findFirst({
       where: eq(pets.id, id),
@@ -162,6 +341,7 @@ export class DatabaseStorage implements IStorage {
         pet: true,
         trainer: true,
         media: true,
+        closures: true,
       },
       orderBy: [desc(homeworkTasks.createdAt)],
     });
@@ -190,13 +370,35 @@ export class DatabaseStorage implements IStorage {
     return task;
   }
 
-  async updateTask(id: string, updates: Partial<Pick<HomeworkTask, "title" | "instructions" | "frequency" | "expectedDurationMins" | "isActive" | "preferredDays">>): Promise<HomeworkTask | undefined> {
-    const [task] = await db
-      .update(homeworkTasks)
-      .set(updates)
-      .where(eq(homeworkTasks.id, id))
-      .returning();
-    return task || undefined;
+  // Setting closedAt records a closure; clearing it ends the open one, so the
+  // closed period is kept after the task is reopened.
+  async updateTask(id: string, updates: Partial<Pick<HomeworkTask, "title" | "instructions" | "frequency" | "recurrence" | "expectedDurationMins" | "isActive" | "closedAt" | "preferredDays">>): Promise<HomeworkTask | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(homeworkTasks).where(eq(homeworkTasks.id, id));
+      if (!previous) return undefined;
+
+      const [task] = await tx
+        .update(homeworkTasks)
+        .set(updates)
+        .where(eq(homeworkTasks.id, id))
+        .returning();
+
+      if (updates.closedAt) {
+        await tx.insert(taskClosures).values({ taskId: id, closedAt: updates.closedAt });
+      } else if (updates.closedAt === null && previous.closedAt) {
+        const now = new Date();
+        const reopened = await tx
+          .update(taskClosures)
+          .set({ reopenedAt: now })
+          .where(and(eq(taskClosures.taskId, id), isNull(taskClosures.reopenedAt)))
+          .returning();
+        // Tasks closed before closures were recorded.
+        if (reopened.length === 0) {
+          await tx.insert(taskClosures).values({ taskId: id, closedAt: previous.closedAt, reopenedAt: now });
+        }
+      }
+      return task;
+    });
   }
 
   async createTaskMedia(insertMedia: InsertTaskMedia): Promise<TaskMedia> {
@@ -208,8 +410,9 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(taskMedia).where(eq(taskMedia.taskId, taskId));
   }
 
-  async deleteTaskMedia(id: string): Promise<void> {
-    await db.delete(taskMedia).where(eq(taskMedia.id, id));
+  async deleteTaskMedia(id: string): Promise<TaskMedia | undefined> {
+    const [media] = await db.delete(taskMedia).where(eq(taskMedia.id, id)).returning();
+    return media || undefined;
   }
 
   async getSubmission(id: string): Promise<HomeworkSubmissionWithRelations | undefined> {
@@ -221,10 +424,18 @@ export class DatabaseStorage implements IStorage {
         media: true,
         comments: {
           with: {
-            trainer: true,
+            author: true,
             media: true,
           },
-          orderBy: [desc(trainerComments.createdAt)],
+          orderBy: [asc(trainerComments.createdAt)],
+        },
+        resubmissionOf: true,
+        resubmissions: true,
+        statusHistory: {
+          with: {
+            changedBy: true,
+          },
+          orderBy: [asc(submissionStatusEvents.createdAt)],
         },
       },
     });
@@ -245,9 +456,18 @@ export class DatabaseStorage implements IStorage {
         media: true,
         comments: {
           with: {
-            trainer: true,
+            author: true,
             media: true,
           },
+          orderBy: [asc(trainerComments.createdAt)],
+        },
+        resubmissionOf: true,
+        resubmissions: true,
+        statusHistory: {
+          with: {
+            changedBy: true,
+          },
+          orderBy: [asc(submissionStatusEvents.createdAt)],
         },
       },
       orderBy: [desc(homeworkSubmissions.submittedAt)],
@@ -260,6 +480,20 @@ export class DatabaseStorage implements IStorage {
     return submission;
   }
 
+  async updateSubmissionStatus(id: string, status: string): Promise<HomeworkSubmission | undefined> {
+    const [submission] = await db
+      .update(homeworkSubmissions)
+      .set({ status })
+      .where(eq(homeworkSubmissions.id, id))
+      .returning();
+    return submission || undefined;
+  }
+
+  async createSubmissionStatusEvent(insertEvent: InsertSubmissionStatusEvent): Promise<SubmissionStatusEvent> {
+    const [event] = await db.insert(submissionStatusEvents).values(insertEvent).returning();
+    return event;
+  }
+
   async createSubmissionMedia(insertMedia: InsertSubmissionMedia): Promise<SubmissionMedia> {
     const [media] = await db.insert(submissionMedia).values(insertMedia).returning();
     return media;
@@ -269,10 +503,10 @@ export class DatabaseStorage implements IStorage {
     const result = await db.query.trainerComments.findMany({
       where: eq(trainerComments.submissionId, submissionId),
       with: {
-        trainer: true,
+        author: true,
         media: true,
       },
-      orderBy: [desc(trainerComments.createdAt)],
+      orderBy: [asc(trainerComments.createdAt)],
     });
     return result;
   }
@@ -317,6 +551,16 @@ export class DatabaseStorage implements IStorage {
           });
         }
       }
+
+      if (submission.statusHistory) {
+        for (const event of submission.statusHistory) {
+          timelineItems.push({
+            type: "review",
+            date: event.createdAt,
+            data: { ...event, submission },
+          });
+        }
+      }
     }
 
     timelineItems.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -324,27 +568,389 @@ export class DatabaseStorage implements IStorage {
     return timelineItems;
   }
 
-  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
-    const [workspace] = await db.insert(workspaces).values(insertWorkspace).returning();
-    return workspace;
+  async getPetMessages(petId: string): Promise<PetMessageWithRelations[]> {
+    const result = await db.query.petMessages.findMany({
+      where: eq(petMessages.petId, petId),
+      with: {
+        sender: true,
+        media: true,
+      },
+      orderBy: [asc(petMessages.createdAt)],
+    });
+    return result;
   }
 
-  async getWorkspace(id: string): Promise<WorkspaceWithRelations | undefined> {
-    const result = await db.query.workspaces.findFirst({
-      where: eq(workspaces.id, id),
+  async getPetMessage(id: string): Promise<PetMessageWithRelations | undefined> {
+    const result = await db.query.petMessages.findFirst({
+      where: eq(petMessages.id, id),
       with: {
-        trainer: true,
-        members: {
-          with: { user: true },
-        },
+        sender: true,
+        media: true,
       },
     });
     return result || undefined;
   }
 
-  async getWorkspaceByToken(token: string): Promise<WorkspaceWithRelations | undefined> {
+  async createPetMessage(insertMessage: InsertPetMessage): Promise<PetMessage> {
+    const [message] = await db.insert(petMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async createPetMessageMedia(insertMedia: InsertPetMessageMedia): Promise<PetMessageMedia> {
+    const [media] = await db.insert(petMessageMedia).values(insertMedia).returning();
+    return media;
+  }
+
+  async markPetMessagesRead(petId: string, userId: string): Promise<void> {
+    const lastReadAt = new Date();
+    await db
+      .insert(petMessageReads)
+      .values({ petId, userId, lastReadAt })
+      .onConflictDoUpdate({
+        target: [petMessageReads.petId, petMessageReads.userId],
+        set: { lastReadAt },
+      });
+  }
+
+  async getUnreadPetMessageCount(petId: string, userId: string): Promise<number> {
+    const [read] = await db
+      .select()
+      .from(petMessageReads)
+      .where(and(eq(petMessageReads.petId, petId), eq(petMessageReads.userId, userId)));
+
+    const conditions = [eq(petMessages.petId, petId), ne(petMessages.senderId, userId)];
+    if (read) {
+      conditions.push(gt(petMessages.createdAt, read.lastReadAt));
+    }
+
+    const [result] = await db.select({ count: count() }).from(petMessages).where(and(...conditions));
+    return result?.count || 0;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async getNotificationsByUser(userId: string, limit: number): Promise<NotificationWithRelations[]> {
+    const result = await db.query.notifications.findMany({
+      where: eq(notifications.userId, userId),
+      with: {
+        actor: true,
+        pet: true,
+      },
+      orderBy: [desc(notifications.createdAt)],
+      limit,
+    });
+    return result;
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result?.count || 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getReminderSettings(userId: string): Promise<ReminderSettings | undefined> {
+    const [settings] = await db.select().from(reminderSettings).where(eq(reminderSettings.userId, userId));
+    return settings || undefined;
+  }
+
+  async upsertReminderSettings(insertSettings: InsertReminderSettings): Promise<ReminderSettings> {
+    const { userId, ...updates } = insertSettings;
+    const [settings] = await db
+      .insert(reminderSettings)
+      .values(insertSettings)
+      .onConflictDoUpdate({
+        target: reminderSettings.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getActiveTasksWithPets(): Promise<(HomeworkTask & { pet: Pet })[]> {
+    return await db.query.homeworkTasks.findMany({
+      where: eq(homeworkTasks.isActive, true),
+      with: { pet: true },
+    });
+  }
+
+  async getSubmissionsForTasksSince(taskIds: string[], since: Date): Promise<HomeworkSubmission[]> {
+    if (taskIds.length === 0) return [];
+    return await db
+      .select()
+      .from(homeworkSubmissions)
+      .where(and(inArray(homeworkSubmissions.taskId, taskIds), gte(homeworkSubmissions.submittedAt, since)));
+  }
+
+  async claimHomeworkReminder(insertReminder: InsertHomeworkReminder): Promise<HomeworkReminder | undefined> {
+    const [reminder] = await db
+      .insert(homeworkReminders)
+      .values(insertReminder)
+      .onConflictDoNothing()
+      .returning();
+    return reminder || undefined;
+  }
+
+  // Marks one pending video (or one abandoned by a crashed worker) as being
+  // processed and returns its file path. SKIP LOCKED lets several instances
+  // run the processor without picking the same row.
+  async claimPendingVideo(staleBefore: Date): Promise<string | undefined> {
+    for (const table of MEDIA_TABLES) {
+      const next = db
+        .select({ id: table.id })
+        .from(table)
+        .where(
+          or(
+            eq(table.processingStatus, "PENDING"),
+            and(eq(table.processingStatus, "PROCESSING"), lt(table.processingStartedAt, staleBefore)),
+          ),
+        )
+        .limit(1)
+        .for("update", { skipLocked: true });
+      const [claimed] = await db
+        .update(table)
+        .set({ processingStatus: "PROCESSING", processingStartedAt: new Date() })
+        .where(inArray(table.id, next))
+        .returning({ filePath: table.filePath });
+      if (claimed) return claimed.filePath;
+    }
+    return undefined;
+  }
+
+  // The same file can be attached in several places (e.g. a template and the
+  // tasks created from it), so results are written to every row that uses it.
+  async updateVideoProcessing(filePath: string, result: VideoProcessingResult): Promise<void> {
+    for (const table of MEDIA_TABLES) {
+      await db.update(table).set(result).where(eq(table.filePath, filePath));
+    }
+  }
+
+  // Pets a file (or one of its variants) is attached to, through task demos,
+  // submissions, comments, chat messages or the pet's own photo.
+  async getMediaReferences(path: string): Promise<MediaReference[]> {
+    const taskRefs = await db
+      .select({ petId: homeworkTasks.petId, taskId: homeworkTasks.id })
+      .from(taskMedia)
+      .innerJoin(homeworkTasks, eq(taskMedia.taskId, homeworkTasks.id))
+      .where(usesMediaPath(taskMedia, path));
+    const submissionRefs = await db
+      .select({ petId: homeworkTasks.petId, taskId: homeworkTasks.id, submissionId: homeworkSubmissions.id })
+      .from(submissionMedia)
+      .innerJoin(homeworkSubmissions, eq(submissionMedia.submissionId, homeworkSubmissions.id))
+      .innerJoin(homeworkTasks, eq(homeworkSubmissions.taskId, homeworkTasks.id))
+      .where(usesMediaPath(submissionMedia, path));
+    const commentRefs = await db
+      .select({ petId: homeworkTasks.petId, taskId: homeworkTasks.id, submissionId: homeworkSubmissions.id })
+      .from(commentMedia)
+      .innerJoin(trainerComments, eq(commentMedia.commentId, trainerComments.id))
+      .innerJoin(homeworkSubmissions, eq(trainerComments.submissionId, homeworkSubmissions.id))
+      .innerJoin(homeworkTasks, eq(homeworkSubmissions.taskId, homeworkTasks.id))
+      .where(usesMediaPath(commentMedia, path));
+    const messageRefs = await db
+      .select({ petId: petMessages.petId })
+      .from(petMessageMedia)
+      .innerJoin(petMessages, eq(petMessageMedia.messageId, petMessages.id))
+      .where(usesMediaPath(petMessageMedia, path));
+    const petPhotoRefs = await db.select({ petId: pets.id }).from(pets).where(eq(pets.imageUrl, path));
+    return [...taskRefs, ...submissionRefs, ...commentRefs, ...messageRefs, ...petPhotoRefs];
+  }
+
+  async getMediaTemplateWorkspaceIds(path: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ workspaceId: taskTemplates.workspaceId })
+      .from(taskTemplateMedia)
+      .innerJoin(taskTemplates, eq(taskTemplateMedia.templateId, taskTemplates.id))
+      .where(usesMediaPath(taskTemplateMedia, path));
+    return rows.map((row) => row.workspaceId);
+  }
+
+  async isProfileImage(path: string): Promise<boolean> {
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.profileImageUrl, path)).limit(1);
+    return !!user;
+  }
+
+  async createMediaUpload(insertUpload: InsertMediaUpload): Promise<MediaUpload> {
+    const [upload] = await db.insert(mediaUploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getMediaUpload(filePath: string): Promise<MediaUpload | undefined> {
+    const [upload] = await db.select().from(mediaUploads).where(eq(mediaUploads.filePath, filePath));
+    return upload || undefined;
+  }
+
+  // Uploads past the grace period, never-checked first, then the ones whose
+  // last check is oldest.
+  async getMediaUploadsToCheck(createdBefore: Date, limit: number): Promise<MediaUpload[]> {
+    return await db
+      .select()
+      .from(mediaUploads)
+      .where(lt(mediaUploads.createdAt, createdBefore))
+      .orderBy(sql`${mediaUploads.lastCheckedAt} asc nulls first`)
+      .limit(limit);
+  }
+
+  async markMediaUploadChecked(id: string, checkedAt: Date): Promise<void> {
+    await db.update(mediaUploads).set({ lastCheckedAt: checkedAt }).where(eq(mediaUploads.id, id));
+  }
+
+  async deleteMediaUpload(filePath: string): Promise<void> {
+    await db.delete(mediaUploads).where(eq(mediaUploads.filePath, filePath));
+  }
+
+  async createReclaimedMedia(insertReclaimed: InsertReclaimedMedia): Promise<ReclaimedMedia> {
+    const [reclaimed] = await db.insert(reclaimedMedia).values(insertReclaimed).returning();
+    return reclaimed;
+  }
+
+  async getReclaimedMediaReport(since: Date): Promise<ReclaimedMediaReport> {
+    const totals = await db
+      .select({ reason: reclaimedMedia.reason, bytes: sum(reclaimedMedia.bytes), files: count() })
+      .from(reclaimedMedia)
+      .groupBy(reclaimedMedia.reason);
+    const [recentTotals] = await db
+      .select({ bytes: sum(reclaimedMedia.bytes), files: count() })
+      .from(reclaimedMedia)
+      .where(gte(reclaimedMedia.reclaimedAt, since));
+    const recent = await db.select().from(reclaimedMedia).orderBy(desc(reclaimedMedia.reclaimedAt)).limit(50);
+
+    const byReason: ReclaimedMediaReport["byReason"] = {
+      ORPHANED: { bytes: 0, files: 0 },
+      DELETED: { bytes: 0, files: 0 },
+    };
+    for (const row of totals) {
+      byReason[row.reason as MediaReclaimReason] = { bytes: Number(row.bytes ?? 0), files: row.files };
+    }
+
+    return {
+      totalBytes: byReason.ORPHANED.bytes + byReason.DELETED.bytes,
+      totalFiles: byReason.ORPHANED.files + byReason.DELETED.files,
+      byReason,
+      last30Days: { bytes: Number(recentTotals?.bytes ?? 0), files: recentTotals?.files ?? 0 },
+      recent,
+    };
+  }
+
+  // Files attached to the given pets through task demos, submissions, comments
+  // and chat. A file attached twice to one pet is listed once.
+  async getPetMediaFiles(petIds: string[]): Promise<PetMediaFile[]> {
+    if (petIds.length === 0) return [];
+
+    const taskFiles = await db
+      .selectDistinct({ petId: homeworkTasks.petId, filePath: taskMedia.filePath, sizeBytes: taskMedia.sizeBytes })
+      .from(taskMedia)
+      .innerJoin(homeworkTasks, eq(taskMedia.taskId, homeworkTasks.id))
+      .where(inArray(homeworkTasks.petId, petIds));
+    const submissionFiles = await db
+      .selectDistinct({ petId: homeworkTasks.petId, filePath: submissionMedia.filePath, sizeBytes: submissionMedia.sizeBytes })
+      .from(submissionMedia)
+      .innerJoin(homeworkSubmissions, eq(submissionMedia.submissionId, homeworkSubmissions.id))
+      .innerJoin(homeworkTasks, eq(homeworkSubmissions.taskId, homeworkTasks.id))
+      .where(inArray(homeworkTasks.petId, petIds));
+    const commentFiles = await db
+      .selectDistinct({ petId: homeworkTasks.petId, filePath: commentMedia.filePath, sizeBytes: commentMedia.sizeBytes })
+      .from(commentMedia)
+      .innerJoin(trainerComments, eq(commentMedia.commentId, trainerComments.id))
+      .innerJoin(homeworkSubmissions, eq(trainerComments.submissionId, homeworkSubmissions.id))
+      .innerJoin(homeworkTasks, eq(homeworkSubmissions.taskId, homeworkTasks.id))
+      .where(inArray(homeworkTasks.petId, petIds));
+    const messageFiles = await db
+      .selectDistinct({ petId: petMessages.petId, filePath: petMessageMedia.filePath, sizeBytes: petMessageMedia.sizeBytes })
+      .from(petMessageMedia)
+      .innerJoin(petMessages, eq(petMessageMedia.messageId, petMessages.id))
+      .where(inArray(petMessages.petId, petIds));
+
+    const photoFiles = await db
+      .select({ petId: pets.id, filePath: mediaUploads.filePath, sizeBytes: mediaUploads.sizeBytes })
+      .from(pets)
+      .innerJoin(mediaUploads, eq(pets.imageUrl, mediaUploads.filePath))
+      .where(inArray(pets.id, petIds));
+
+    const files = new Map<string, PetMediaFile>();
+    for (const file of [...taskFiles, ...submissionFiles, ...commentFiles, ...messageFiles, ...photoFiles]) {
+      files.set(`${file.petId}:${file.filePath}`, file);
+    }
+    return Array.from(files.values());
+  }
+
+  async getMediaPathsMissingSize(limit: number): Promise<string[]> {
+    const paths = new Set<string>();
+    for (const table of MEDIA_TABLES) {
+      if (paths.size >= limit) break;
+      const rows = await db
+        .selectDistinct({ filePath: table.filePath })
+        .from(table)
+        .where(isNull(table.sizeBytes))
+        .limit(limit - paths.size);
+      rows.forEach((row) => paths.add(row.filePath));
+    }
+    return Array.from(paths);
+  }
+
+  async setMediaSize(filePath: string, sizeBytes: number): Promise<void> {
+    for (const table of MEDIA_TABLES) {
+      await db.update(table).set({ sizeBytes }).where(and(eq(table.filePath, filePath), isNull(table.sizeBytes)));
+    }
+  }
+
+  async createResumableUpload(insertUpload: InsertResumableUpload): Promise<ResumableUpload> {
+    const [upload] = await db.insert(resumableUploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getResumableUpload(id: string): Promise<ResumableUpload | undefined> {
+    const [upload] = await db.select().from(resumableUploads).where(eq(resumableUploads.id, id));
+    return upload || undefined;
+  }
+
+  async updateResumableUpload(
+    id: string,
+    updates: Partial<Pick<ResumableUpload, "uploadOffset" | "media" | "completedAt">>,
+  ): Promise<ResumableUpload | undefined> {
+    const [upload] = await db
+      .update(resumableUploads)
+      .set(updates)
+      .where(eq(resumableUploads.id, id))
+      .returning();
+    return upload || undefined;
+  }
+
+  async deleteResumableUpload(id: string): Promise<void> {
+    await db.delete(resumableUploads).where(eq(resumableUploads.id, id));
+  }
+
+  async getExpiredResumableUploads(now: Date): Promise<ResumableUpload[]> {
+    return await db.select().from(resumableUploads).where(lt(resumableUploads.expiresAt, now));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const [workspace] = await db.insert(workspaces).values(insertWorkspace).returning();
+    return workspace;
+  }
+
+  async getWorkspace(id: string): Promise<WorkspaceWithRelations | undefined> {
     const result = await db.query.workspaces.findFirst({
-      where: eq(workspaces.inviteToken, token),
+      where: eq(workspaces.id, id),
       with: {
         trainer: true,
         members: {
@@ -368,7 +974,7 @@ export class DatabaseStorage implements IStorage {
     return result || undefined;
   }
 
-  async updateWorkspace(id: string, updates: Partial<Pick<Workspace, "businessName" | "bio">>): Promise<Workspace | undefined> {
+  async updateWorkspace(id: string, updates: Partial<Pick<Workspace, "businessName" | "bio" | "maxUploadMb" | "storageQuotaMb" | "staffSeeAllPets">>): Promise<Workspace | undefined> {
     const [workspace] = await db
       .update(workspaces)
       .set(updates)
@@ -377,6 +983,199 @@ export class DatabaseStorage implements IStorage {
     return workspace || undefined;
   }
 
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return await db.select().from(workspaces);
+  }
+
+  async createWorkspaceInvite(invite: InsertWorkspaceInvite): Promise<WorkspaceInvite> {
+    const [result] = await db.insert(workspaceInvites).values(invite).returning();
+    return result;
+  }
+
+  async getWorkspaceInvite(id: string): Promise<WorkspaceInvite | undefined> {
+    const [invite] = await db.select().from(workspaceInvites).where(eq(workspaceInvites.id, id));
+    return invite || undefined;
+  }
+
+  async getWorkspaceInviteByToken(token: string): Promise<WorkspaceInvite | undefined> {
+    const [invite] = await db.select().from(workspaceInvites).where(eq(workspaceInvites.token, token));
+    return invite || undefined;
+  }
+
+  async getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    return await db
+      .select()
+      .from(workspaceInvites)
+      .where(eq(workspaceInvites.workspaceId, workspaceId))
+      .orderBy(desc(workspaceInvites.createdAt));
+  }
+
+  async updateWorkspaceInvite(id: string, updates: Partial<Pick<WorkspaceInvite, "token" | "revokedAt">>): Promise<WorkspaceInvite | undefined> {
+    const [invite] = await db
+      .update(workspaceInvites)
+      .set(updates)
+      .where(eq(workspaceInvites.id, id))
+      .returning();
+    return invite || undefined;
+  }
+
+  // Counts a use of the link in the same statement that checks it is still
+  // usable, so two people can't take the last use.
+  // Adds the user as a client and counts the use against the link in one
+  // transaction. Existing members don't use up the link, and if it ran out
+  // in the meantime the membership is rolled back.
+  async joinWorkspaceWithInvite(invite: WorkspaceInvite, userId: string, now: Date): Promise<InviteJoinResult> {
+    try {
+      return await db.transaction(async (tx): Promise<InviteJoinResult> => {
+        const [member] = await tx
+          .insert(workspaceMembers)
+          .values({ workspaceId: invite.workspaceId, userId, role: "OWNER", inviteId: invite.id })
+          .onConflictDoNothing({ target: [workspaceMembers.workspaceId, workspaceMembers.userId] })
+          .returning();
+        if (!member) return { status: "already-member" };
+
+        const [claimed] = await tx
+          .update(workspaceInvites)
+          .set({ useCount: sql`${workspaceInvites.useCount} + 1` })
+          .where(
+            and(
+              eq(workspaceInvites.id, invite.id),
+              isNull(workspaceInvites.revokedAt),
+              or(isNull(workspaceInvites.expiresAt), gt(workspaceInvites.expiresAt, now)),
+              or(isNull(workspaceInvites.maxUses), lt(workspaceInvites.useCount, workspaceInvites.maxUses)),
+            ),
+          )
+          .returning();
+        if (!claimed) tx.rollback();
+        return { status: "joined", member };
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return { status: "invalid" };
+      throw error;
+    }
+  }
+
+  async createClientInvitation(invitation: InsertClientInvitation): Promise<ClientInvitation> {
+    const [result] = await db.insert(clientInvitations).values(invitation).returning();
+    return result;
+  }
+
+  async getClientInvitation(id: string): Promise<ClientInvitation | undefined> {
+    const [invitation] = await db.select().from(clientInvitations).where(eq(clientInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getClientInvitationByToken(token: string): Promise<ClientInvitation | undefined> {
+    const [invitation] = await db.select().from(clientInvitations).where(eq(clientInvitations.token, token));
+    return invitation || undefined;
+  }
+
+  async getClientInvitations(workspaceId: string): Promise<ClientInvitation[]> {
+    return await db
+      .select()
+      .from(clientInvitations)
+      .where(eq(clientInvitations.workspaceId, workspaceId))
+      .orderBy(desc(clientInvitations.createdAt));
+  }
+
+  async updateClientInvitation(
+    id: string,
+    updates: Partial<Pick<ClientInvitation, "expiresAt" | "lastSentAt" | "petId">>,
+  ): Promise<ClientInvitation | undefined> {
+    const [invitation] = await db
+      .update(clientInvitations)
+      .set(updates)
+      .where(eq(clientInvitations.id, id))
+      .returning();
+    return invitation || undefined;
+  }
+
+  // Marks the invitation accepted only if it is still pending, so opening the
+  // link twice can't set the pet up twice. The client membership, pet and
+  // starter tasks are created in the same transaction, so a failure partway
+  // leaves the invitation pending rather than accepted without a pet.
+  async acceptClientInvitation(
+    id: string,
+    userId: string,
+    now: Date,
+    setUp: InvitedPetSetup,
+  ): Promise<{ pet: Pet; tasks: HomeworkTask[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(clientInvitations)
+        .set({ acceptedAt: now, acceptedByUserId: userId })
+        .where(
+          and(
+            eq(clientInvitations.id, id),
+            isNull(clientInvitations.acceptedAt),
+            gt(clientInvitations.expiresAt, now),
+          ),
+        )
+        .returning();
+      if (!invitation) return undefined;
+
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: invitation.workspaceId, userId, role: "OWNER" })
+        .onConflictDoNothing({ target: [workspaceMembers.workspaceId, workspaceMembers.userId] });
+
+      const [pet] = await tx.insert(pets).values(setUp.pet).returning();
+      const tasks = await insertTasks(tx, pet.id, setUp.tasks);
+
+      await tx.update(clientInvitations).set({ petId: pet.id }).where(eq(clientInvitations.id, id));
+      return { pet, tasks };
+    });
+  }
+
+  async getDigestSettings(workspaceId: string): Promise<DigestSettings | undefined> {
+    const [settings] = await db.select().from(digestSettings).where(eq(digestSettings.workspaceId, workspaceId));
+    return settings || undefined;
+  }
+
+  async upsertDigestSettings(insertSettings: InsertDigestSettings): Promise<DigestSettings> {
+    const { workspaceId, ...updates } = insertSettings;
+    const [settings] = await db
+      .insert(digestSettings)
+      .values(insertSettings)
+      .onConflictDoUpdate({
+        target: digestSettings.workspaceId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getWorkspaceDigests(workspaceId: string, limit: number): Promise<WorkspaceDigest[]> {
+    return await db
+      .select()
+      .from(workspaceDigests)
+      .where(eq(workspaceDigests.workspaceId, workspaceId))
+      .orderBy(desc(workspaceDigests.periodEnd))
+      .limit(limit);
+  }
+
+  async getWorkspaceDigest(id: string): Promise<WorkspaceDigest | undefined> {
+    const [digest] = await db.select().from(workspaceDigests).where(eq(workspaceDigests.id, id));
+    return digest || undefined;
+  }
+
+  async getWorkspaceDigestByPeriod(workspaceId: string, periodKey: string): Promise<WorkspaceDigest | undefined> {
+    const [digest] = await db
+      .select()
+      .from(workspaceDigests)
+      .where(and(eq(workspaceDigests.workspaceId, workspaceId), eq(workspaceDigests.periodKey, periodKey)));
+    return digest || undefined;
+  }
+
+  async createWorkspaceDigest(insertDigest: InsertWorkspaceDigest): Promise<WorkspaceDigest | undefined> {
+    const [digest] = await db
+      .insert(workspaceDigests)
+      .values(insertDigest)
+      .onConflictDoNothing()
+      .returning();
+    return digest || undefined;
+  }
+
   async addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
     const [result] = await db.insert(workspaceMembers).values(member).returning();
     return result;
@@ -391,7 +1190,52 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserWorkspaces(userId: string): Promise<WorkspaceMember[]> {
-    return await db.select().from(workspaceMembers).where(eq(workspaceMembers.userId, userId));
+    return await db
+      .select()
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaceMembers.createdAt));
+  }
+
+  async getWorkspaceMember(id: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db.select().from(workspaceMembers).where(eq(workspaceMembers.id, id));
+    return member || undefined;
+  }
+
+  async getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getStaffMemberships(userId: string): Promise<WorkspaceMember[]> {
+    return await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.userId, userId), inArray(workspaceMembers.role, [...WORKSPACE_STAFF_ROLES])))
+      .orderBy(asc(workspaceMembers.createdAt));
+  }
+
+  async updateWorkspaceMemberRole(id: string, role: WorkspaceStaffRole): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(eq(workspaceMembers.id, id))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeWorkspaceMember(id: string): Promise<void> {
+    await db.delete(workspaceMembers).where(eq(workspaceMembers.id, id));
+  }
+
+  async reassignWorkspacePets(workspaceId: string, fromTrainerId: string, toTrainerId: string): Promise<void> {
+    await db
+      .update(pets)
+      .set({ trainerId: toTrainerId })
+      .where(and(eq(pets.workspaceId, workspaceId), eq(pets.trainerId, fromTrainerId)));
   }
 
   async updateUser(id: string, updates: Partial<Pick<User, "firstName" | "lastName" | "profileImageUrl" | "role" | "onboardingComplete">>): Promise<User | undefined> {
@@ -414,6 +1258,227 @@ export class DatabaseStorage implements IStorage {
     });
     return result;
   }
+
+  async getTaskTemplatesByWorkspace(workspaceId: string): Promise<TaskTemplateWithRelations[]> {
+    const result = await db.query.taskTemplates.findMany({
+      where: eq(taskTemplates.workspaceId, workspaceId),
+      with: {
+        createdBy: true,
+        media: true,
+      },
+      orderBy: [asc(taskTemplates.title)],
+    });
+    return result;
+  }
+
+  async getTaskTemplate(id: string): Promise<TaskTemplateWithRelations | undefined> {
+    const result = await db.query.taskTemplates.findFirst({
+      where: eq(taskTemplates.id, id),
+      with: {
+        createdBy: true,
+        media: true,
+      },
+    });
+    return result || undefined;
+  }
+
+  async createTaskTemplate(insertTemplate: InsertTaskTemplate): Promise<TaskTemplate> {
+    const [template] = await db.insert(taskTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateTaskTemplate(id: string, updates: Partial<Pick<TaskTemplate, "title" | "instructions" | "frequency" | "recurrence" | "expectedDurationMins">>): Promise<TaskTemplate | undefined> {
+    const [template] = await db
+      .update(taskTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(taskTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  // Deletes nothing and returns false while a program phase uses the
+  // template. The row lock keeps a phase from linking it in the meantime.
+  async deleteTaskTemplate(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: taskTemplates.id }).from(taskTemplates).where(eq(taskTemplates.id, id)).for("update");
+      const notInProgram = notExists(
+        tx.select({ id: programPhaseTemplates.id }).from(programPhaseTemplates).where(eq(programPhaseTemplates.templateId, id)),
+      );
+      await tx.delete(taskTemplateMedia).where(and(eq(taskTemplateMedia.templateId, id), notInProgram));
+      const deleted = await tx
+        .delete(taskTemplates)
+        .where(and(eq(taskTemplates.id, id), notInProgram))
+        .returning({ id: taskTemplates.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async createTaskTemplateMedia(insertMedia: InsertTaskTemplateMedia): Promise<TaskTemplateMedia> {
+    const [media] = await db.insert(taskTemplateMedia).values(insertMedia).returning();
+    return media;
+  }
+
+  async getProgramsByWorkspace(workspaceId: string): Promise<TrainingProgramWithRelations[]> {
+    const result = await db.query.trainingPrograms.findMany({
+      where: eq(trainingPrograms.workspaceId, workspaceId),
+      with: {
+        createdBy: true,
+        phases: {
+          with: {
+            templates: {
+              with: { template: { with: { media: true } } },
+              orderBy: [asc(programPhaseTemplates.position)],
+            },
+          },
+          orderBy: [asc(programPhases.position)],
+        },
+      },
+      orderBy: [asc(trainingPrograms.name)],
+    });
+    return result;
+  }
+
+  async getProgram(id: string): Promise<TrainingProgramWithRelations | undefined> {
+    const result = await db.query.trainingPrograms.findFirst({
+      where: eq(trainingPrograms.id, id),
+      with: {
+        createdBy: true,
+        phases: {
+          with: {
+            templates: {
+              with: { template: { with: { media: true } } },
+              orderBy: [asc(programPhaseTemplates.position)],
+            },
+          },
+          orderBy: [asc(programPhases.position)],
+        },
+      },
+    });
+    return result || undefined;
+  }
+
+  async createProgram(insertProgram: InsertTrainingProgram): Promise<TrainingProgram> {
+    const [program] = await db.insert(trainingPrograms).values(insertProgram).returning();
+    return program;
+  }
+
+  async createProgramPhase(insertPhase: InsertProgramPhase): Promise<ProgramPhase> {
+    const [phase] = await db.insert(programPhases).values(insertPhase).returning();
+    return phase;
+  }
+
+  async addProgramPhaseTemplate(link: InsertProgramPhaseTemplate): Promise<ProgramPhaseTemplate> {
+    const [result] = await db.insert(programPhaseTemplates).values(link).returning();
+    return result;
+  }
+
+  async deleteProgram(id: string): Promise<void> {
+    const phases = await db.select().from(programPhases).where(eq(programPhases.programId, id));
+    for (const phase of phases) {
+      await db.delete(programPhaseTemplates).where(eq(programPhaseTemplates.phaseId, phase.id));
+    }
+    await db.delete(programPhases).where(eq(programPhases.programId, id));
+    await db.delete(trainingPrograms).where(eq(trainingPrograms.id, id));
+  }
+
+  async getPetPrograms(petId: string): Promise<PetProgramWithRelations[]> {
+    const result = await db.query.petPrograms.findMany({
+      where: eq(petPrograms.petId, petId),
+      with: {
+        program: {
+          with: {
+            phases: {
+              orderBy: [asc(programPhases.position)],
+            },
+          },
+        },
+      },
+      orderBy: [desc(petPrograms.createdAt)],
+    });
+    return result;
+  }
+
+  async getPetProgram(id: string): Promise<PetProgramWithRelations | undefined> {
+    const result = await db.query.petPrograms.findFirst({
+      where: eq(petPrograms.id, id),
+      with: {
+        program: {
+          with: {
+            phases: {
+              orderBy: [asc(programPhases.position)],
+            },
+          },
+        },
+      },
+    });
+    return result || undefined;
+  }
+
+  async getPetProgramsByProgram(programId: string): Promise<PetProgram[]> {
+    return await db.select().from(petPrograms).where(eq(petPrograms.programId, programId));
+  }
+
+  async getActivePetPrograms(): Promise<PetProgram[]> {
+    return await db.select().from(petPrograms).where(eq(petPrograms.status, "ACTIVE"));
+  }
+
+  async createPetProgram(insertPetProgram: InsertPetProgram): Promise<PetProgram> {
+    const [petProgram] = await db.insert(petPrograms).values(insertPetProgram).returning();
+    return petProgram;
+  }
+
+  async updatePetProgram(id: string, updates: Partial<Pick<PetProgram, "status" | "currentPhaseIndex" | "phaseStartedAt" | "heldAt" | "completedAt">>): Promise<PetProgram | undefined> {
+    const [petProgram] = await db
+      .update(petPrograms)
+      .set(updates)
+      .where(eq(petPrograms.id, id))
+      .returning();
+    return petProgram || undefined;
+  }
+
+  // Only applies while the program is still in the phase and status the
+  // caller read, so two concurrent advances can't both move it on. Closing
+  // the old phase's tasks and creating the new phase's happen in the same
+  // transaction, so the program never ends up between phases.
+  async movePetProgramPhase(
+    id: string,
+    from: Pick<PetProgram, "status" | "currentPhaseIndex">,
+    updates: Partial<Pick<PetProgram, "status" | "currentPhaseIndex" | "phaseStartedAt" | "heldAt" | "completedAt">>,
+    change: PhaseChange,
+  ): Promise<{ petProgram: PetProgram; tasks: HomeworkTask[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [petProgram] = await tx
+        .update(petPrograms)
+        .set(updates)
+        .where(
+          and(
+            eq(petPrograms.id, id),
+            eq(petPrograms.currentPhaseIndex, from.currentPhaseIndex),
+            eq(petPrograms.status, from.status),
+          ),
+        )
+        .returning();
+      if (!petProgram) return undefined;
+
+      if (change.closePhaseId) {
+        const closed = await tx
+          .update(homeworkTasks)
+          .set({ isActive: false, closedAt: change.closedAt })
+          .where(and(
+            eq(homeworkTasks.petProgramId, id),
+            eq(homeworkTasks.programPhaseId, change.closePhaseId),
+            eq(homeworkTasks.isActive, true),
+          ))
+          .returning({ id: homeworkTasks.id });
+        if (closed.length > 0) {
+          await tx.insert(taskClosures).values(closed.map((task) => ({ taskId: task.id, closedAt: change.closedAt })));
+        }
+      }
+
+      const tasks = await insertTasks(tx, petProgram.petId, change.tasks);
+      return { petProgram, tasks };
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { computeCompliance, type ComplianceTask } from "./compliance";
+
+// A daily task created on June 1st, checked over June 1st–10th from June 20th.
+const task = (overrides: Partial<ComplianceTask> = {}): ComplianceTask => ({
+  id: "task",
+  title: "Sit",
+  frequency: "Daily",
+  recurrence: null,
+  preferredDays: null,
+  isActive: true,
+  closedAt: null,
+  createdAt: new Date(2026, 5, 1, 9),
+  ...overrides,
+});
+
+const day = (date: number, hour = 12) => new Date(2026, 5, date, hour);
+const report = (tasks: ComplianceTask[], submissions: { status: string; submittedAt: Date }[] = []) =>
+  computeCompliance(
+    tasks,
+    submissions.map((submission) => ({ taskId: "task", ...submission })),
+    day(1, 0),
+    day(10, 0),
+    day(20),
+  );
+
+describe("computeCompliance", () => {
+  it("counts pending and approved submissions as completions", () => {
+    const result = report([task()], [
+      { status: "COMPLETED", submittedAt: day(1) },
+      { status: "APPROVED", submittedAt: day(2) },
+    ]);
+    expect(result.completed).toBe(2);
+    expect(result.days[0].status).toBe("complete");
+    expect(result.days[1].status).toBe("complete");
+  });
+
+  it("doesn't count submissions sent back for more work", () => {
+    const result = report([task()], [
+      { status: "NEEDS_WORK", submittedAt: day(1) },
+      { status: "RESUBMITTED", submittedAt: day(2) },
+      { status: "COMPLETED", submittedAt: day(3) },
+    ]);
+    expect(result.completed).toBe(1);
+    expect(result.days.slice(0, 3).map((d) => d.status)).toEqual(["partial", "partial", "complete"]);
+  });
+
+  it("leaves out the period a reopened task was closed", () => {
+    const result = report([
+      task({ closures: [{ closedAt: day(3), reopenedAt: day(6) }] }),
+    ]);
+    expect(result.days.map((d) => d.expected)).toEqual([1, 1, 0, 0, 0, 1, 1, 1, 1, 1]);
+    expect(result.expected).toBe(7);
+  });
+
+  it("treats closedAt without a recorded closure as still closed", () => {
+    const result = report([task({ isActive: false, closedAt: day(4) })]);
+    expect(result.days.map((d) => d.expected)).toEqual([1, 1, 1, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it("expects nothing from tasks closed before closedAt was tracked", () => {
+    expect(report([task({ isActive: false })]).expected).toBe(0);
+  });
+});
@@ -0,0 +1,198 @@
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import {
+  getTaskRecurrence,
+  occursOn,
+  toDateKey,
+  MAX_EXPANSION_DAYS,
+  type RecurrenceRule,
+} from "./recurrence";
+
+export type ComplianceStatus = "none" | "future" | "complete" | "partial" | "missed";
+
+// Submissions that count as doing the task. Ones sent back as NEEDS_WORK (or
+// replaced by a resubmission) only make the day partial.
+export const COMPLETION_STATUSES: readonly string[] = ["COMPLETED", "APPROVED"];
+
+export type ComplianceClosure = {
+  closedAt: Date | string;
+  reopenedAt: Date | string | null;
+};
+
+export type ComplianceTask = {
+  id: string;
+  title: string;
+  frequency: string;
+  recurrence: RecurrenceRule | null;
+  preferredDays: string[] | null;
+  isActive: boolean;
+  closedAt: Date | string | null;
+  closures?: ComplianceClosure[];
+  createdAt: Date | string;
+};
+
+export type ComplianceSubmission = {
+  taskId: string;
+  status: string;
+  submittedAt: Date | string;
+};
+
+export type DayTaskCompliance = {
+  taskId: string;
+  expected: number;
+  completed: number;
+};
+
+export type DayCompliance = {
+  date: string;
+  expected: number;
+  completed: number;
+  status: ComplianceStatus;
+  tasks: DayTaskCompliance[];
+};
+
+export type TaskCompliance = {
+  taskId: string;
+  title: string;
+  isActive: boolean;
+  expected: number;
+  completed: number;
+  rate: number | null;
+};
+
+export type ComplianceReport = {
+  from: string;
+  to: string;
+  expected: number;
+  completed: number;
+  rate: number | null;
+  days: DayCompliance[];
+  tasks: TaskCompliance[];
+};
+
+// Every period the task was closed. Tasks closed before closures were
+// recorded only have closedAt, which is treated as a closure still open.
+function closedPeriods(task: ComplianceTask): ComplianceClosure[] {
+  const closures = task.closures ?? [];
+  if (!task.isActive && task.closedAt && !closures.some((closure) => !closure.reopenedAt)) {
+    return [...closures, { closedAt: task.closedAt, reopenedAt: null }];
+  }
+  return closures;
+}
+
+// A task isn't expected from the day it was closed until the day it was
+// reopened. Tasks closed before `closedAt` was tracked have no window at all,
+// which matches how the calendar used to hide closed tasks entirely.
+function isClosedOn(task: ComplianceTask, key: string): boolean {
+  if (!task.isActive && !task.closedAt) return true;
+  return closedPeriods(task).some(
+    (closure) =>
+      key >= toDateKey(closure.closedAt) && (!closure.reopenedAt || key < toDateKey(closure.reopenedAt)),
+  );
+}
+
+export function expectedCountOn(task: ComplianceTask, day: Date): number {
+  const key = toDateKey(day);
+  if (key < toDateKey(task.createdAt)) return 0;
+  if (isClosedOn(task, key)) return 0;
+
+  const rule = getTaskRecurrence(task);
+  return occursOn(rule, day, task.preferredDays) ? rule.timesPerDay : 0;
+}
+
+function dayStatus(expected: number, completed: number, submitted: number, isFuture: boolean): ComplianceStatus {
+  if (expected === 0) return "none";
+  if (isFuture) return "future";
+  if (completed >= expected) return "complete";
+  if (submitted > 0) return "partial";
+  return "missed";
+}
+
+function toRate(completed: number, expected: number): number | null {
+  return expected > 0 ? completed / expected : null;
+}
+
+export function computeCompliance(
+  tasks: ComplianceTask[],
+  submissions: ComplianceSubmission[],
+  from: Date,
+  to: Date,
+  now: Date = new Date(),
+): ComplianceReport {
+  const submissionCounts = new Map<string, number>();
+  const completionCounts = new Map<string, number>();
+  for (const submission of submissions) {
+    const key = `${submission.taskId}:${toDateKey(submission.submittedAt)}`;
+    submissionCounts.set(key, (submissionCounts.get(key) || 0) + 1);
+    if (COMPLETION_STATUSES.includes(submission.status)) {
+      completionCounts.set(key, (completionCounts.get(key) || 0) + 1);
+    }
+  }
+
+  const taskTotals = new Map(tasks.map((task) => [task.id, { expected: 0, completed: 0 }]));
+  const today = startOfDay(now);
+  const days: DayCompliance[] = [];
+  let expectedTotal = 0;
+  let completedTotal = 0;
+
+  const totalDays = Math.min(differenceInCalendarDays(to, from), MAX_EXPANSION_DAYS - 1);
+  for (let offset = 0; offset <= totalDays; offset++) {
+    const day = addDays(startOfDay(from), offset);
+    const date = toDateKey(day);
+    const isFuture = day > today;
+    const dayTasks: DayTaskCompliance[] = [];
+    let dayExpected = 0;
+    let dayCompleted = 0;
+    let daySubmitted = 0;
+
+    for (const task of tasks) {
+      const expected = expectedCountOn(task, day);
+      if (expected === 0) continue;
+
+      const submitted = submissionCounts.get(`${task.id}:${date}`) || 0;
+      const completed = Math.min(completionCounts.get(`${task.id}:${date}`) || 0, expected);
+      dayTasks.push({ taskId: task.id, expected, completed });
+      dayExpected += expected;
+      dayCompleted += completed;
+      daySubmitted += submitted;
+
+      if (!isFuture) {
+        const totals = taskTotals.get(task.id)!;
+        totals.expected += expected;
+        totals.completed += completed;
+      }
+    }
+
+    if (!isFuture) {
+      expectedTotal += dayExpected;
+      completedTotal += dayCompleted;
+    }
+
+    days.push({
+      date,
+      expected: dayExpected,
+      completed: dayCompleted,
+      status: dayStatus(dayExpected, dayCompleted, daySubmitted, isFuture),
+      tasks: dayTasks,
+    });
+  }
+
+  return {
+    from: toDateKey(from),
+    to: toDateKey(to),
+    expected: expectedTotal,
+    completed: completedTotal,
+    rate: toRate(completedTotal, expectedTotal),
+    days,
+    tasks: tasks.map((task) => {
+      const totals = taskTotals.get(task.id)!;
+      return {
+        taskId: task.id,
+        title: task.title,
+        isActive: task.isActive,
+        expected: totals.expected,
+        completed: totals.completed,
+        rate: toRate(totals.completed, totals.expected),
+      };
+    }),
+  };
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { WEEKDAYS } from "./recurrence";
+import { isValidTimezone } from "./reminders";
+
+export const digestSettingsInputSchema = z.object({
+  enabled: z.boolean(),
+  weekday: z.enum(WEEKDAYS),
+  sendTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be formatted as HH:mm"),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+});
+
+export type DigestSettingsInput = z.infer<typeof digestSettingsInputSchema>;
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettingsInput = {
+  enabled: true,
+  weekday: "Mon",
+  sendTime: "08:00",
+  timezone: "UTC",
+};
+
+export type DigestPetRef = {
+  petId: string;
+  petName: string;
+  ownerName: string | null;
+};
+
+export type DigestSubmission = DigestPetRef & {
+  submissionId: string;
+  taskTitle: string;
+  status: string;
+  submittedAt: string;
+};
+
+export type DigestInactivePet = DigestPetRef & {
+  lastSubmissionAt: string | null;
+  activeTaskCount: number;
+};
+
+export type DigestIdleTask = DigestPetRef & {
+  taskId: string;
+  taskTitle: string;
+  createdAt: string;
+};
+
+// Snapshot stored with each digest so past digests don't change as data does.
+export type WorkspaceDigestData = {
+  periodStart: string;
+  periodEnd: string;
+  petCount: number;
+  submissionsReceived: DigestSubmission[];
+  inactivePets: DigestInactivePet[];
+  unansweredSubmissions: DigestSubmission[];
+  tasksWithoutSubmissions: DigestIdleTask[];
+};
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import type { ClientInvitation, ClientInvitationStatus, InviteStatus, WorkspaceInvite } from "./schema";
+
+export const MAX_INVITE_USES = 10000;
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  ACTIVE: "Active",
+  EXPIRED: "Expired",
+  USED_UP: "Limit reached",
+  REVOKED: "Revoked",
+};
+
+// Why a link that isn't active can't be used, shown to whoever opened it.
+export const INVITE_UNUSABLE_MESSAGES: Record<Exclude<InviteStatus, "ACTIVE">, string> = {
+  EXPIRED: "This invite link has expired. Please ask your trainer for a new one.",
+  USED_UP: "This invite link has already been used the maximum number of times. Please ask your trainer for a new one.",
+  REVOKED: "This invite link is no longer valid. Please ask your trainer for a new one.",
+};
+
+export function inviteStatus(
+  invite: Pick<WorkspaceInvite, "expiresAt" | "maxUses" | "useCount" | "revokedAt">,
+  now: Date = new Date(),
+): InviteStatus {
+  if (invite.revokedAt) return "REVOKED";
+  if (invite.expiresAt && new Date(invite.expiresAt) <= now) return "EXPIRED";
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return "USED_UP";
+  return "ACTIVE";
+}
+
+export const inviteInputSchema = z.object({
+  label: z.string().trim().min(1, "Give the link a name").max(80, "Keep the name under 80 characters"),
+  expiresAt: z.string().datetime({ offset: true, message: "Invalid expiry date" }).nullable().optional(),
+  maxUses: z
+    .number()
+    .int("Max uses must be a whole number")
+    .min(1, "Max uses must be at least 1")
+    .max(MAX_INVITE_USES, `Max uses can't be more than ${MAX_INVITE_USES}`)
+    .nullable()
+    .optional(),
+});
+
+export type InviteInput = z.infer<typeof inviteInputSchema>;
+
+// How long an emailed invitation can be accepted for, counted from when it was
+// last sent.
+export const CLIENT_INVITATION_EXPIRY_DAYS = 14;
+export const MAX_STARTER_TASKS = 10;
+
+export const CLIENT_INVITATION_STATUS_LABELS: Record<ClientInvitationStatus, string> = {
+  PENDING: "Pending",
+  ACCEPTED: "Accepted",
+  EXPIRED: "Expired",
+};
+
+export const CLIENT_INVITATION_UNUSABLE_MESSAGES: Record<Exclude<ClientInvitationStatus, "PENDING">, string> = {
+  ACCEPTED: "This invitation has already been accepted.",
+  EXPIRED: "This invitation has expired. Please ask your trainer to send it again.",
+};
+
+export function clientInvitationStatus(
+  invitation: Pick<ClientInvitation, "acceptedAt" | "expiresAt">,
+  now: Date = new Date(),
+): ClientInvitationStatus {
+  if (invitation.acceptedAt) return "ACCEPTED";
+  if (new Date(invitation.expiresAt) <= now) return "EXPIRED";
+  return "PENDING";
+}
+
+const optionalText = (max: number, message: string) =>
+  z
+    .string()
+    .trim()
+    .max(max, message)
+    .nullable()
+    .optional()
+    .transform((value) => value || null);
+
+export const clientInvitationInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  petName: z.string().trim().min(1, "Enter the pet's name").max(100, "Keep the name under 100 characters"),
+  petSpecies: optionalText(50, "Keep the species under 50 characters"),
+  petBreed: optionalText(100, "Keep the breed under 100 characters"),
+  starterTemplateIds: z
+    .array(z.string())
+    .max(MAX_STARTER_TASKS, `Pick at most ${MAX_STARTER_TASKS} starter tasks`)
+    .default([]),
+});
+
+export type ClientInvitationInput = z.input<typeof clientInvitationInputSchema>;
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+export const ALLOWED_UPLOAD_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+] as const;
+
+// Pet and profile photos go through the single-shot /api/upload endpoint.
+export const PHOTO_UPLOAD_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+export const MAX_PHOTO_UPLOAD_MB = 10;
+
+// Per-file upload limits. Trainers can change theirs within MAX_UPLOAD_MB_LIMIT.
+export const DEFAULT_MAX_UPLOAD_MB = 500;
+export const MAX_UPLOAD_MB_LIMIT = 2048;
+
+// Chunk size the client sends per PATCH; small enough to retry cheaply on a
+// flaky mobile connection.
+export const RESUMABLE_CHUNK_BYTES = 5 * 1024 * 1024;
+
+export const uploadSettingsInputSchema = z.object({
+  maxUploadMb: z.number().int().min(1).max(MAX_UPLOAD_MB_LIMIT),
+});
+
+export type UploadSettingsInput = z.infer<typeof uploadSettingsInputSchema>;
+
+// Storage each workspace's pets may use unless an admin sets a different quota.
+export const DEFAULT_STORAGE_QUOTA_MB = 10 * 1024;
+
+export const storageQuotaInputSchema = z.object({
+  // null resets the workspace to the default.
+  storageQuotaMb: z.number().int().min(1).max(1024 * 1024).nullable(),
+});
+
+export type StorageQuotaInput = z.infer<typeof storageQuotaInputSchema>;
+
+// What the server returns for a stored upload, ready to attach to a task,
+// submission, comment or message.
+export type UploadedMedia = {
+  filePath: string;
+  mediaType: "IMAGE" | "VIDEO";
+  fileName: string;
+  sizeBytes: number;
+  thumbnailPath: string | null;
+  mediumPath: string | null;
+  processingStatus: "PENDING" | null;
+};
+
+// Resized copies generated for every uploaded image, keyed by variant name.
+export const IMAGE_VARIANT_WIDTHS = {
+  thumbnail: 320,
+  medium: 1280,
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANT_WIDTHS;
+
+export type ResponsiveMedia = {
+  filePath: string;
+  thumbnailPath?: string | null;
+  mediumPath?: string | null;
+};
+
+// Builds <img> attributes that let the browser pick the smallest variant for
+// the rendered size. Media stored before variants existed falls back to the
+// original file.
+export function responsiveImageProps(media: ResponsiveMedia, sizes: string) {
+  const candidates: string[] = [];
+  if (media.thumbnailPath) candidates.push(`${media.thumbnailPath} ${IMAGE_VARIANT_WIDTHS.thumbnail}w`);
+  if (media.mediumPath) candidates.push(`${media.mediumPath} ${IMAGE_VARIANT_WIDTHS.medium}w`);
+
+  if (candidates.length === 0) {
+    return { src: media.filePath };
+  }
+  return {
+    src: media.mediumPath || media.thumbnailPath || media.filePath,
+    srcSet: candidates.join(", "),
+    sizes,
+  };
+}
+
+export type PlayableMedia = {
+  filePath: string;
+  playbackPath?: string | null;
+  posterPath?: string | null;
+  durationMs?: number | null;
+  processingStatus?: string | null;
+};
+
+export function isMediaProcessing(media: PlayableMedia): boolean {
+  return media.processingStatus === "PENDING" || media.processingStatus === "PROCESSING";
+}
+
+// The transcoded MP4 once it exists; until then (or if transcoding failed)
+// the original upload.
+export function videoSource(media: PlayableMedia): string {
+  return media.playbackPath || media.filePath;
+}
+
+export function formatVideoDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
@@ -23,9 +23,10 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: text("role"),
   onboardingComplete: boolean("onboarding_complete").default(false),
+  emailOptOuts: text("email_opt_outs").array().default(sql`'{}'::text[]`).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("IDX_user_profile_image_url").on(table.profileImageUrl)]);
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeRecurrence,
+  expandOccurrences,
+  expandTaskOccurrences,
+  occursOn,
+  parseLegacyFrequency,
+  rebaseRecurrence,
+  type RecurrenceRule,
+} from "./recurrence";
+
+// June 1st 2026 is a Monday.
+const day = (date: number, month = 6) => new Date(2026, month - 1, date, 12);
+
+const rule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  freq: "DAILY",
+  interval: 1,
+  byWeekday: null,
+  timesPerDay: 1,
+  startDate: "2026-06-01",
+  endDate: null,
+  ...overrides,
+});
+
+// Dates in June the rule falls on, between the 1st and `last`.
+const juneDates = (r: RecurrenceRule, last = 14, preferredDays?: string[] | null) =>
+  expandOccurrences(r, day(1), day(last), preferredDays)
+    .filter((occurrence) => occurrence.slot === 0)
+    .map((occurrence) => Number(occurrence.date.slice(-2)));
+
+describe("parseLegacyFrequency", () => {
+  it.each([
+    ["Daily", { freq: "DAILY", timesPerDay: 1, byWeekday: null }],
+    ["  DAILY ", { freq: "DAILY", timesPerDay: 1, byWeekday: null }],
+    ["Twice a day", { freq: "DAILY", timesPerDay: 2, byWeekday: null }],
+    ["3x/day", { freq: "DAILY", timesPerDay: 3, byWeekday: null }],
+    ["4x per day", { freq: "DAILY", timesPerDay: 4, byWeekday: null }],
+    ["25x/day", { freq: "DAILY", timesPerDay: 10, byWeekday: null }],
+    ["Weekly", { freq: "WEEKLY", timesPerDay: 1, byWeekday: ["Mon"] }],
+    ["2x/week", { freq: "WEEKLY", timesPerDay: 1, byWeekday: ["Tue", "Fri"] }],
+    ["3x per week", { freq: "WEEKLY", timesPerDay: 1, byWeekday: ["Mon", "Wed", "Fri"] }],
+    ["9x/week", { freq: "WEEKLY", timesPerDay: 1, byWeekday: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] }],
+    ["As needed", { freq: "AS_NEEDED", timesPerDay: 1, byWeekday: null }],
+    ["as-needed", { freq: "AS_NEEDED", timesPerDay: 1, byWeekday: null }],
+    ["Whenever you can", { freq: "DAILY", timesPerDay: 1, byWeekday: null }],
+  ])("%s", (frequency, expected) => {
+    expect(parseLegacyFrequency(frequency, day(3))).toEqual({
+      interval: 1,
+      startDate: "2026-06-03",
+      endDate: null,
+      ...expected,
+    });
+  });
+});
+
+describe("occursOn", () => {
+  it("never schedules as-needed tasks", () => {
+    expect(occursOn(rule({ freq: "AS_NEEDED" }), day(1))).toBe(false);
+  });
+
+  it("respects the start and end dates", () => {
+    const r = rule({ startDate: "2026-06-03", endDate: "2026-06-05" });
+    expect(juneDates(r)).toEqual([3, 4, 5]);
+  });
+
+  it("repeats daily rules every `interval` days from the start", () => {
+    expect(juneDates(rule({ interval: 3 }))).toEqual([1, 4, 7, 10, 13]);
+  });
+
+  it("limits daily rules to their weekdays", () => {
+    expect(juneDates(rule({ byWeekday: ["Sat", "Sun"] }))).toEqual([6, 7, 13, 14]);
+  });
+
+  it("combines a daily interval with weekdays", () => {
+    // Days are counted from the start, so the odd-numbered second week is skipped.
+    expect(juneDates(rule({ interval: 2, byWeekday: ["Mon", "Wed", "Fri"] }), 21)).toEqual([1, 3, 5, 15, 17, 19]);
+  });
+
+  it("falls back to the start date's weekday for weekly rules without days", () => {
+    expect(juneDates(rule({ freq: "WEEKLY", startDate: "2026-06-03" }), 30)).toEqual([3, 10, 17, 24]);
+  });
+
+  it("repeats weekly rules every `interval` weeks, counted Monday to Sunday", () => {
+    // Starting on a Sunday, the next week begins the following day.
+    const r = rule({ freq: "WEEKLY", interval: 2, byWeekday: ["Mon", "Sun"], startDate: "2026-06-07" });
+    expect(juneDates(r, 30)).toEqual([7, 15, 21, 29]);
+  });
+
+  it("prefers the owner's preferred days over the rule's weekdays", () => {
+    const r = rule({ freq: "WEEKLY", byWeekday: ["Mon"] });
+    expect(juneDates(r, 14, ["Tue", "Thu"])).toEqual([2, 4, 9, 11]);
+    expect(juneDates(r, 14, [])).toEqual([1, 8]);
+  });
+});
+
+describe("expandOccurrences", () => {
+  it("emits one slot per time a day", () => {
+    expect(expandOccurrences(rule({ timesPerDay: 3 }), day(1), day(1))).toEqual([
+      { date: "2026-06-01", slot: 0 },
+      { date: "2026-06-01", slot: 1 },
+      { date: "2026-06-01", slot: 2 },
+    ]);
+  });
+
+  it("caps the range at MAX_EXPANSION_DAYS", () => {
+    expect(expandOccurrences(rule(), day(1), day(1, 6 + 24))).toHaveLength(366);
+  });
+
+  it("reads legacy frequencies and preferred days from tasks", () => {
+    const task = {
+      id: "task",
+      frequency: "Weekly",
+      recurrence: null,
+      preferredDays: ["Wed"],
+      createdAt: day(1),
+    };
+    expect(expandTaskOccurrences(task, day(1), day(14))).toEqual([
+      { taskId: "task", date: "2026-06-03", slot: 0 },
+      { taskId: "task", date: "2026-06-10", slot: 0 },
+    ]);
+  });
+});
+
+describe("rebaseRecurrence", () => {
+  it("moves the start date", () => {
+    expect(rebaseRecurrence(rule(), "2026-07-15")).toEqual(rule({ startDate: "2026-07-15" }));
+  });
+
+  it("keeps the length of the end date window, across months", () => {
+    const rebased = rebaseRecurrence(rule({ endDate: "2026-06-14" }), "2026-06-25");
+    expect(rebased).toMatchObject({ startDate: "2026-06-25", endDate: "2026-07-08" });
+  });
+});
+
+describe("describeRecurrence", () => {
+  it.each([
+    ["Daily", rule()],
+    ["Every 3 days twice a day", rule({ interval: 3, timesPerDay: 2 })],
+    ["Weekly on Mon, Thu", rule({ freq: "WEEKLY", byWeekday: ["Mon", "Thu"] })],
+    ["Every 2 weeks 4x a day until Aug 31", rule({ freq: "WEEKLY", interval: 2, timesPerDay: 4, endDate: "2026-08-31" })],
+    ["As needed", rule({ freq: "AS_NEEDED" })],
+  ])("%s", (expected, r) => {
+    expect(describeRecurrence(r)).toBe(expected);
+  });
+});
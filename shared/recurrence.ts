@@ -0,0 +1,200 @@
+import { z } from "zod";
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  format,
+  getDay,
+  parseISO,
+} from "date-fns";
+
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "AS_NEEDED"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted as yyyy-MM-dd");
+
+export const recurrenceRuleSchema = z
+  .object({
+    freq: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z.number().int().min(1).max(52).default(1),
+    byWeekday: z.array(z.enum(WEEKDAYS)).nullable().default(null),
+    timesPerDay: z.number().int().min(1).max(10).default(1),
+    startDate: dateKeySchema,
+    endDate: dateKeySchema.nullable().default(null),
+  })
+  .refine((rule) => !rule.endDate || rule.endDate >= rule.startDate, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  });
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+export type Occurrence = {
+  date: string;
+  slot: number;
+};
+
+export type TaskOccurrence = Occurrence & {
+  taskId: string;
+};
+
+type SchedulableTask = {
+  id: string;
+  frequency: string;
+  recurrence: RecurrenceRule | null;
+  preferredDays: string[] | null;
+  createdAt: Date | string;
+};
+
+// Upper bound on how many days a single expansion may cover, so a careless
+// `from`/`to` pair can't make the server build millions of occurrences.
+export const MAX_EXPANSION_DAYS = 366;
+
+const LEGACY_WEEKLY_DAYS: Record<number, Weekday[]> = {
+  1: ["Mon"],
+  2: ["Tue", "Fri"],
+  3: ["Mon", "Wed", "Fri"],
+  4: ["Mon", "Tue", "Thu", "Fri"],
+  5: ["Mon", "Tue", "Wed", "Thu", "Fri"],
+  6: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+  7: [...WEEKDAYS],
+};
+
+export function toDateKey(date: Date | string): string {
+  return format(typeof date === "string" ? new Date(date) : date, "yyyy-MM-dd");
+}
+
+export function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(getDay(date) + 6) % 7];
+}
+
+export function parseLegacyFrequency(frequency: string, createdAt: Date | string): RecurrenceRule {
+  const freq = frequency.trim().toLowerCase();
+  const base = {
+    interval: 1,
+    byWeekday: null,
+    timesPerDay: 1,
+    startDate: toDateKey(createdAt),
+    endDate: null,
+  };
+
+  if (freq === "as-needed" || freq === "as needed") {
+    return { ...base, freq: "AS_NEEDED" };
+  }
+  if (freq === "weekly") {
+    return { ...base, freq: "WEEKLY", byWeekday: LEGACY_WEEKLY_DAYS[1] };
+  }
+  if (freq === "twice a day") {
+    return { ...base, freq: "DAILY", timesPerDay: 2 };
+  }
+
+  const perDay = freq.match(/^(\d+)\s*x\s*(?:\/|per\s+)day$/);
+  if (perDay) {
+    return { ...base, freq: "DAILY", timesPerDay: Math.min(Math.max(parseInt(perDay[1], 10), 1), 10) };
+  }
+
+  const perWeek = freq.match(/^(\d+)\s*x\s*(?:\/|per\s+)week$/);
+  if (perWeek) {
+    const count = Math.min(Math.max(parseInt(perWeek[1], 10), 1), 7);
+    return { ...base, freq: "WEEKLY", byWeekday: LEGACY_WEEKLY_DAYS[count] };
+  }
+
+  // Anything else used to show up every day on the calendar, so keep that.
+  return { ...base, freq: "DAILY" };
+}
+
+export function getTaskRecurrence(task: Pick<SchedulableTask, "frequency" | "recurrence" | "createdAt">): RecurrenceRule {
+  return task.recurrence ?? parseLegacyFrequency(task.frequency, task.createdAt);
+}
+
+// Moves a rule to a new start date, keeping the length of any end date window.
+export function rebaseRecurrence(rule: RecurrenceRule, startDate: string): RecurrenceRule {
+  if (!rule.endDate) {
+    return { ...rule, startDate };
+  }
+  const span = differenceInCalendarDays(parseISO(rule.endDate), parseISO(rule.startDate));
+  return { ...rule, startDate, endDate: toDateKey(addDays(parseISO(startDate), span)) };
+}
+
+export function occursOn(rule: RecurrenceRule, date: Date, preferredDays?: string[] | null): boolean {
+  if (rule.freq === "AS_NEEDED") return false;
+
+  const key = toDateKey(date);
+  if (key < rule.startDate) return false;
+  if (rule.endDate && key > rule.endDate) return false;
+
+  const start = parseISO(rule.startDate);
+  const weekday = weekdayOf(date);
+  const days = preferredDays && preferredDays.length > 0 ? preferredDays : rule.byWeekday;
+
+  if (rule.freq === "DAILY") {
+    if (days && days.length > 0 && !days.includes(weekday)) return false;
+    return differenceInCalendarDays(date, start) % rule.interval === 0;
+  }
+
+  const weeklyDays = days && days.length > 0 ? days : [weekdayOf(start)];
+  if (!weeklyDays.includes(weekday)) return false;
+  return differenceInCalendarWeeks(date, start, { weekStartsOn: 1 }) % rule.interval === 0;
+}
+
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  preferredDays?: string[] | null,
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const totalDays = Math.min(differenceInCalendarDays(to, from), MAX_EXPANSION_DAYS - 1);
+
+  for (let offset = 0; offset <= totalDays; offset++) {
+    const day = addDays(from, offset);
+    if (!occursOn(rule, day, preferredDays)) continue;
+    const date = toDateKey(day);
+    for (let slot = 0; slot < rule.timesPerDay; slot++) {
+      occurrences.push({ date, slot });
+    }
+  }
+
+  return occurrences;
+}
+
+export function taskOccursOn(task: SchedulableTask, date: Date): boolean {
+  return occursOn(getTaskRecurrence(task), date, task.preferredDays);
+}
+
+export function expandTaskOccurrences(task: SchedulableTask, from: Date, to: Date): TaskOccurrence[] {
+  return expandOccurrences(getTaskRecurrence(task), from, to, task.preferredDays).map((occurrence) => ({
+    ...occurrence,
+    taskId: task.id,
+  }));
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (rule.freq === "AS_NEEDED") return "As needed";
+
+  const parts: string[] = [];
+  if (rule.freq === "DAILY") {
+    parts.push(rule.interval === 1 ? "Daily" : `Every ${rule.interval} days`);
+  } else {
+    parts.push(rule.interval === 1 ? "Weekly" : `Every ${rule.interval} weeks`);
+  }
+
+  if (rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`on ${rule.byWeekday.join(", ")}`);
+  }
+
+  if (rule.timesPerDay === 2) {
+    parts.push("twice a day");
+  } else if (rule.timesPerDay > 2) {
+    parts.push(`${rule.timesPerDay}x a day`);
+  }
+
+  if (rule.endDate) {
+    parts.push(`until ${format(parseISO(rule.endDate), "MMM d")}`);
+  }
+
+  return parts.join(" ");
+}
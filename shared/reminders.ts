@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be formatted as HH:mm");
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const reminderSettingsInputSchema = z
+  .object({
+    enabled: z.boolean(),
+    reminderTime: timeOfDaySchema,
+    quietHoursStart: timeOfDaySchema.nullable(),
+    quietHoursEnd: timeOfDaySchema.nullable(),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+  })
+  .refine((input) => !input.quietHoursStart === !input.quietHoursEnd, {
+    message: "Quiet hours need both a start and an end",
+    path: ["quietHoursEnd"],
+  });
+
+export type ReminderSettingsInput = z.infer<typeof reminderSettingsInputSchema>;
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettingsInput = {
+  enabled: true,
+  reminderTime: "18:00",
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+};
+
+export const SNOOZE_OPTIONS_DAYS = [1, 3, 7] as const;
+
+export function toMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(":").map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+// Quiet hours may wrap past midnight (e.g. 22:00–07:00).
+export function isInQuietHours(minutes: number, start: string | null, end: string | null): boolean {
+  if (!start || !end || start === end) return false;
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+// Wall-clock date and minute-of-day for an instant in the given timezone.
+export function getZonedClock(date: Date, timezone: string): { dateKey: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "00";
+
+  return {
+    dateKey: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+  };
+}
@@ -1,17 +1,28 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, integer, bigint, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn, type ExtraConfigColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export * from "./models/auth";
 import { users } from "./models/auth";
+import { recurrenceRuleSchema, type RecurrenceRule } from "./recurrence";
+import type { WorkspaceDigestData } from "./digest";
+import type { UploadedMedia } from "./media";
 
 export const workspaces = pgTable("workspaces", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   trainerUserId: varchar("trainer_user_id", { length: 36 }).notNull().references(() => users.id),
+  // The workspace's original invite token. Joining goes through workspace_invites,
+  // where it became the first link.
   inviteToken: varchar("invite_token", { length: 64 }).notNull().unique(),
   businessName: text("business_name"),
   bio: text("bio"),
+  // Per-file limit for uploads to this workspace's pets; null uses DEFAULT_MAX_UPLOAD_MB.
+  maxUploadMb: integer("max_upload_mb"),
+  // Total media the workspace's pets may store; null uses DEFAULT_STORAGE_QUOTA_MB.
+  storageQuotaMb: integer("storage_quota_mb"),
+  // When false, assistants only see the pets assigned to them.
+  staffSeeAllPets: boolean("staff_see_all_pets").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -21,28 +32,111 @@ export const workspacesRelations = relations(workspaces, ({ one, many }) => ({
     references: [users.id],
   }),
   members: many(workspaceMembers),
+  invites: many(workspaceInvites),
+  clientInvitations: many(clientInvitations),
   pets: many(pets, { relationName: "workspace" }),
+  taskTemplates: many(taskTemplates),
+  programs: many(trainingPrograms),
 }));
 
+// Staff roles for workspace members; pet owners who joined through an invite
+// link are members with the OWNER role. Head trainers manage the staff, the
+// workspace settings and which staff member each pet is assigned to.
+export const WORKSPACE_STAFF_ROLES = ["HEAD_TRAINER", "ASSISTANT"] as const;
+export type WorkspaceStaffRole = (typeof WORKSPACE_STAFF_ROLES)[number];
+
 export const workspaceMembers = pgTable("workspace_members", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
   role: text("role").notNull(),
+  // The invite link a client joined through, if any.
+  inviteId: varchar("invite_id", { length: 36 }).references((): AnyPgColumn => workspaceInvites.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+]);
 
 export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
   workspace: one(workspaces, {
     fields: [workspaceMembers.workspaceId],
     references: [workspaces.id],
   }),
+  invite: one(workspaceInvites, {
+    fields: [workspaceMembers.inviteId],
+    references: [workspaceInvites.id],
+  }),
   user: one(users, {
     fields: [workspaceMembers.userId],
     references: [users.id],
   }),
 }));
 
+// Labeled links pet owners join a workspace through. A link can expire, be
+// limited to a number of uses, get a fresh token or be revoked.
+export const INVITE_STATUSES = ["ACTIVE", "EXPIRED", "USED_UP", "REVOKED"] as const;
+export type InviteStatus = (typeof INVITE_STATUSES)[number];
+
+export const workspaceInvites = pgTable("workspace_invites", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
+  label: text("label").notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at"),
+  maxUses: integer("max_uses"),
+  useCount: integer("use_count").default(0).notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdByUserId: varchar("created_by_user_id", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceInvitesRelations = relations(workspaceInvites, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceInvites.workspaceId],
+    references: [workspaces.id],
+  }),
+  members: many(workspaceMembers),
+}));
+
+export const CLIENT_INVITATION_STATUSES = ["PENDING", "ACCEPTED", "EXPIRED"] as const;
+export type ClientInvitationStatus = (typeof CLIENT_INVITATION_STATUSES)[number];
+
+// An invitation emailed to a client the trainer already knows. The pet and its
+// starter tasks (created from the workspace's templates) are set up from these
+// details when the client accepts, and petId then points at the pet.
+export const clientInvitations = pgTable("client_invitations", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
+  email: text("email").notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  petName: text("pet_name").notNull(),
+  petSpecies: text("pet_species"),
+  petBreed: text("pet_breed"),
+  starterTemplateIds: text("starter_template_ids").array().default(sql`'{}'::text[]`).notNull(),
+  invitedByUserId: varchar("invited_by_user_id", { length: 36 }).notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSentAt: timestamp("last_sent_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedByUserId: varchar("accepted_by_user_id", { length: 36 }).references(() => users.id),
+  petId: varchar("pet_id", { length: 36 }).references(() => pets.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const clientInvitationsRelations = relations(clientInvitations, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [clientInvitations.workspaceId],
+    references: [workspaces.id],
+  }),
+  invitedBy: one(users, {
+    fields: [clientInvitations.invitedByUserId],
+    references: [users.id],
+  }),
+  pet: one(pets, {
+    fields: [clientInvitations.petId],
+    references: [pets.id],
+  }),
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   ownedPets: many(pets, { relationName: "owner" }),
   trainedPets: many(pets, { relationName: "trainer" }),
@@ -64,7 +158,10 @@ export const pets = pgTable("pets", {
   trainerId: varchar("trainer_id", { length: 36 }).references(() => users.id),
   workspaceId: varchar("workspace_id", { length: 36 }).references(() => workspaces.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("pets_workspace_idx").on(table.workspaceId),
+  index("pets_image_url_idx").on(table.imageUrl),
+]);
 
 export const petsRelations = relations(pets, ({ one, many }) => ({
   owner: one(users, {
@@ -83,6 +180,8 @@ export const petsRelations = relations(pets, ({ one, many }) => ({
     relationName: "workspace",
   }),
   tasks: many(homeworkTasks),
+  programs: many(petPrograms),
+  messages: many(petMessages),
 }));
 
 export const homeworkTasks = pgTable("homework_tasks", {
@@ -92,11 +191,52 @@ export const homeworkTasks = pgTable("homework_tasks", {
   title: text("title").notNull(),
   instructions: text("instructions").notNull(),
   frequency: text("frequency").notNull(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
   expectedDurationMins: integer("expected_duration_mins"),
   isActive: boolean("is_active").default(true).notNull(),
+  closedAt: timestamp("closed_at"),
   preferredDays: text("preferred_days").array(),
+  petProgramId: varchar("pet_program_id", { length: 36 }),
+  programPhaseId: varchar("program_phase_id", { length: 36 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("homework_tasks_pet_idx").on(table.petId),
+]);
+
+export const MEDIA_PROCESSING_STATUSES = ["PENDING", "PROCESSING", "READY", "FAILED"] as const;
+export type MediaProcessingStatus = (typeof MEDIA_PROCESSING_STATUSES)[number];
+
+// Size, derived files and metadata shared by every media table. Image variants
+// are written at upload time; videos are transcoded in the background and the
+// original filePath keeps being served until processingStatus is READY.
+function mediaFileColumns() {
+  return {
+    // Bytes of the stored original, counted toward the workspace's storage quota.
+    sizeBytes: bigint("size_bytes", { mode: "number" }),
+    thumbnailPath: text("thumbnail_path"),
+    mediumPath: text("medium_path"),
+    playbackPath: text("playback_path"),
+    posterPath: text("poster_path"),
+    durationMs: integer("duration_ms"),
+    width: integer("width"),
+    height: integer("height"),
+    processingStatus: text("processing_status"),
+    processingStartedAt: timestamp("processing_started_at"),
+  };
+}
+
+// Media access looks a file up by any of its paths, so each one is indexed.
+type MediaPathColumn = "filePath" | "thumbnailPath" | "mediumPath" | "playbackPath" | "posterPath";
+
+function mediaPathIndexes(tableName: string, table: Record<MediaPathColumn, ExtraConfigColumn>) {
+  return [
+    index(`${tableName}_file_path_idx`).on(table.filePath),
+    index(`${tableName}_thumbnail_path_idx`).on(table.thumbnailPath),
+    index(`${tableName}_medium_path_idx`).on(table.mediumPath),
+    index(`${tableName}_playback_path_idx`).on(table.playbackPath),
+    index(`${tableName}_poster_path_idx`).on(table.posterPath),
+  ];
+}
 
 export const taskMedia = pgTable("task_media", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -104,8 +244,13 @@ export const taskMedia = pgTable("task_media", {
   mediaType: text("media_type").notNull(),
   filePath: text("file_path").notNull(),
   fileName: text("file_name"),
+  ...mediaFileColumns(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  ...mediaPathIndexes("task_media", table),
+  // Covers the per-pet file sizes summed for storage usage.
+  index("task_media_usage_idx").on(table.taskId, table.filePath, table.sizeBytes),
+]);
 
 export const taskMediaRelations = relations(taskMedia, ({ one }) => ({
   task: one(homeworkTasks, {
@@ -125,6 +270,24 @@ export const homeworkTasksRelations = relations(homeworkTasks, ({ one, many }) =
   }),
   submissions: many(homeworkSubmissions),
   media: many(taskMedia),
+  closures: many(taskClosures),
+}));
+
+// Each time a task was closed, and when it was reopened (null while it is
+// still closed). homework_tasks.closedAt only holds the current closure, so
+// compliance reads these to leave every closed period out.
+export const taskClosures = pgTable("task_closures", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id", { length: 36 }).notNull().references(() => homeworkTasks.id, { onDelete: "cascade" }),
+  closedAt: timestamp("closed_at").notNull(),
+  reopenedAt: timestamp("reopened_at"),
+});
+
+export const taskClosuresRelations = relations(taskClosures, ({ one }) => ({
+  task: one(homeworkTasks, {
+    fields: [taskClosures.taskId],
+    references: [homeworkTasks.id],
+  }),
 }));
 
 export const homeworkSubmissions = pgTable("homework_submissions", {
@@ -133,9 +296,18 @@ export const homeworkSubmissions = pgTable("homework_submissions", {
   submittedByUserId: varchar("submitted_by_user_id", { length: 36 }).notNull().references(() => users.id),
   note: text("note"),
   status: text("status").default("COMPLETED").notNull(),
+  resubmissionOfId: varchar("resubmission_of_id", { length: 36 }).references((): AnyPgColumn => homeworkSubmissions.id),
   submittedAt: timestamp("submitted_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("homework_submissions_task_idx").on(table.taskId),
+]);
+
+// COMPLETED is the original "submitted, not yet reviewed" state and is kept
+// as-is so existing rows don't need rewriting.
+export const SUBMISSION_STATUSES = ["COMPLETED", "APPROVED", "NEEDS_WORK", "RESUBMITTED"] as const;
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+export const REVIEW_STATUSES = ["APPROVED", "NEEDS_WORK"] as const;
 
 export const homeworkSubmissionsRelations = relations(homeworkSubmissions, ({ one, many }) => ({
   task: one(homeworkTasks, {
@@ -148,6 +320,33 @@ export const homeworkSubmissionsRelations = relations(homeworkSubmissions, ({ on
   }),
   media: many(submissionMedia),
   comments: many(trainerComments),
+  resubmissionOf: one(homeworkSubmissions, {
+    fields: [homeworkSubmissions.resubmissionOfId],
+    references: [homeworkSubmissions.id],
+    relationName: "resubmission",
+  }),
+  resubmissions: many(homeworkSubmissions, { relationName: "resubmission" }),
+  statusHistory: many(submissionStatusEvents),
+}));
+
+export const submissionStatusEvents = pgTable("submission_status_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  submissionId: varchar("submission_id", { length: 36 }).notNull().references(() => homeworkSubmissions.id),
+  changedByUserId: varchar("changed_by_user_id", { length: 36 }).notNull().references(() => users.id),
+  status: text("status").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const submissionStatusEventsRelations = relations(submissionStatusEvents, ({ one }) => ({
+  submission: one(homeworkSubmissions, {
+    fields: [submissionStatusEvents.submissionId],
+    references: [homeworkSubmissions.id],
+  }),
+  changedBy: one(users, {
+    fields: [submissionStatusEvents.changedByUserId],
+    references: [users.id],
+  }),
 }));
 
 export const submissionMedia = pgTable("submission_media", {
@@ -156,8 +355,12 @@ export const submissionMedia = pgTable("submission_media", {
   mediaType: text("media_type").notNull(),
   filePath: text("file_path").notNull(),
   fileName: text("file_name"),
+  ...mediaFileColumns(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  ...mediaPathIndexes("submission_media", table),
+  index("submission_media_usage_idx").on(table.submissionId, table.filePath, table.sizeBytes),
+]);
 
 export const submissionMediaRelations = relations(submissionMedia, ({ one }) => ({
   submission: one(homeworkSubmissions, {
@@ -166,23 +369,35 @@ export const submissionMediaRelations = relations(submissionMedia, ({ one }) =>
   }),
 }));
 
+// Historically trainer-only; owners post here too now. The author column
+// keeps its original "trainer_id" name so existing rows stay valid.
 export const trainerComments = pgTable("trainer_comments", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   submissionId: varchar("submission_id", { length: 36 }).notNull().references(() => homeworkSubmissions.id),
-  trainerId: varchar("trainer_id", { length: 36 }).notNull().references(() => users.id),
+  authorId: varchar("trainer_id", { length: 36 }).notNull().references(() => users.id),
+  authorRole: text("author_role").default("TRAINER").notNull(),
+  parentCommentId: varchar("parent_comment_id", { length: 36 }).references((): AnyPgColumn => trainerComments.id),
   comment: text("comment").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("trainer_comments_submission_idx").on(table.submissionId),
+]);
 
 export const trainerCommentsRelations = relations(trainerComments, ({ one, many }) => ({
   submission: one(homeworkSubmissions, {
     fields: [trainerComments.submissionId],
     references: [homeworkSubmissions.id],
   }),
-  trainer: one(users, {
-    fields: [trainerComments.trainerId],
+  author: one(users, {
+    fields: [trainerComments.authorId],
     references: [users.id],
   }),
+  parent: one(trainerComments, {
+    fields: [trainerComments.parentCommentId],
+    references: [trainerComments.id],
+    relationName: "replies",
+  }),
+  replies: many(trainerComments, { relationName: "replies" }),
   media: many(commentMedia),
 }));
 
@@ -192,8 +407,12 @@ export const commentMedia = pgTable("comment_media", {
   mediaType: varchar("media_type", { length: 10 }).notNull(),
   filePath: text("file_path").notNull(),
   fileName: text("file_name"),
+  ...mediaFileColumns(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  ...mediaPathIndexes("comment_media", table),
+  index("comment_media_usage_idx").on(table.commentId, table.filePath, table.sizeBytes),
+]);
 
 export const commentMediaRelations = relations(commentMedia, ({ one }) => ({
   comment: one(trainerComments, {
@@ -202,6 +421,344 @@ export const commentMediaRelations = relations(commentMedia, ({ one }) => ({
   }),
 }));
 
+export const taskTemplates = pgTable("task_templates", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
+  createdByUserId: varchar("created_by_user_id", { length: 36 }).notNull().references(() => users.id),
+  title: text("title").notNull(),
+  instructions: text("instructions").notNull(),
+  frequency: text("frequency").notNull(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
+  expectedDurationMins: integer("expected_duration_mins"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const taskTemplatesRelations = relations(taskTemplates, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [taskTemplates.workspaceId],
+    references: [workspaces.id],
+  }),
+  createdBy: one(users, {
+    fields: [taskTemplates.createdByUserId],
+    references: [users.id],
+  }),
+  media: many(taskTemplateMedia),
+}));
+
+export const taskTemplateMedia = pgTable("task_template_media", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id", { length: 36 }).notNull().references(() => taskTemplates.id),
+  mediaType: text("media_type").notNull(),
+  filePath: text("file_path").notNull(),
+  fileName: text("file_name"),
+  ...mediaFileColumns(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => mediaPathIndexes("task_template_media", table));
+
+export const taskTemplateMediaRelations = relations(taskTemplateMedia, ({ one }) => ({
+  template: one(taskTemplates, {
+    fields: [taskTemplateMedia.templateId],
+    references: [taskTemplates.id],
+  }),
+}));
+
+export const trainingPrograms = pgTable("training_programs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
+  createdByUserId: varchar("created_by_user_id", { length: 36 }).notNull().references(() => users.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const trainingProgramsRelations = relations(trainingPrograms, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [trainingPrograms.workspaceId],
+    references: [workspaces.id],
+  }),
+  createdBy: one(users, {
+    fields: [trainingPrograms.createdByUserId],
+    references: [users.id],
+  }),
+  phases: many(programPhases),
+}));
+
+export const programPhases = pgTable("program_phases", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  programId: varchar("program_id", { length: 36 }).notNull().references(() => trainingPrograms.id),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  durationWeeks: integer("duration_weeks").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const programPhasesRelations = relations(programPhases, ({ one, many }) => ({
+  program: one(trainingPrograms, {
+    fields: [programPhases.programId],
+    references: [trainingPrograms.id],
+  }),
+  templates: many(programPhaseTemplates),
+}));
+
+export const programPhaseTemplates = pgTable("program_phase_templates", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  phaseId: varchar("phase_id", { length: 36 }).notNull().references(() => programPhases.id),
+  templateId: varchar("template_id", { length: 36 }).notNull().references(() => taskTemplates.id, { onDelete: "restrict" }),
+  position: integer("position").notNull(),
+});
+
+export const programPhaseTemplatesRelations = relations(programPhaseTemplates, ({ one }) => ({
+  phase: one(programPhases, {
+    fields: [programPhaseTemplates.phaseId],
+    references: [programPhases.id],
+  }),
+  template: one(taskTemplates, {
+    fields: [programPhaseTemplates.templateId],
+    references: [taskTemplates.id],
+  }),
+}));
+
+export const petPrograms = pgTable("pet_programs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  petId: varchar("pet_id", { length: 36 }).notNull().references(() => pets.id),
+  programId: varchar("program_id", { length: 36 }).notNull().references(() => trainingPrograms.id),
+  assignedByUserId: varchar("assigned_by_user_id", { length: 36 }).notNull().references(() => users.id),
+  status: text("status").default("ACTIVE").notNull(),
+  currentPhaseIndex: integer("current_phase_index").default(0).notNull(),
+  phaseStartedAt: timestamp("phase_started_at").defaultNow().notNull(),
+  heldAt: timestamp("held_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const petProgramsRelations = relations(petPrograms, ({ one }) => ({
+  pet: one(pets, {
+    fields: [petPrograms.petId],
+    references: [pets.id],
+  }),
+  program: one(trainingPrograms, {
+    fields: [petPrograms.programId],
+    references: [trainingPrograms.id],
+  }),
+}));
+
+export const petMessages = pgTable("pet_messages", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  petId: varchar("pet_id", { length: 36 }).notNull().references(() => pets.id),
+  senderId: varchar("sender_id", { length: 36 }).notNull().references(() => users.id),
+  senderRole: text("sender_role").notNull(),
+  body: text("body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("pet_messages_pet_idx").on(table.petId),
+]);
+
+export const petMessagesRelations = relations(petMessages, ({ one, many }) => ({
+  pet: one(pets, {
+    fields: [petMessages.petId],
+    references: [pets.id],
+  }),
+  sender: one(users, {
+    fields: [petMessages.senderId],
+    references: [users.id],
+  }),
+  media: many(petMessageMedia),
+}));
+
+export const petMessageMedia = pgTable("pet_message_media", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id", { length: 36 }).notNull().references(() => petMessages.id),
+  mediaType: text("media_type").notNull(),
+  filePath: text("file_path").notNull(),
+  fileName: text("file_name"),
+  ...mediaFileColumns(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  ...mediaPathIndexes("pet_message_media", table),
+  index("pet_message_media_usage_idx").on(table.messageId, table.filePath, table.sizeBytes),
+]);
+
+export const petMessageMediaRelations = relations(petMessageMedia, ({ one }) => ({
+  message: one(petMessages, {
+    fields: [petMessageMedia.messageId],
+    references: [petMessages.id],
+  }),
+}));
+
+// One row per participant per pet; messages newer than lastReadAt are unread.
+export const petMessageReads = pgTable("pet_message_reads", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  petId: varchar("pet_id", { length: 36 }).notNull().references(() => pets.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  lastReadAt: timestamp("last_read_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("pet_message_reads_pet_user_idx").on(table.petId, table.userId),
+]);
+
+export const NOTIFICATION_TYPES = [
+  "TASK_CREATED",
+  "TASK_CLOSED",
+  "TASK_REOPENED",
+  "SUBMISSION_CREATED",
+  "SUBMISSION_REVIEWED",
+  "COMMENT_CREATED",
+  "HOMEWORK_REMINDER",
+  "WEEKLY_DIGEST",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Pushed to open pet pages over /api/pets/:id/events (see server/realtime.ts).
+export const PET_EVENT_TYPES = [
+  "task.created",
+  "task.updated",
+  "submission.created",
+  "submission.updated",
+  "comment.created",
+  "media.processed",
+] as const;
+export type PetEventType = (typeof PET_EVENT_TYPES)[number];
+
+export type PetEvent = {
+  petId: string;
+  type: PetEventType;
+  taskId?: string;
+  submissionId?: string;
+  at: string;
+};
+
+// Events a user can opt out of receiving by email (stored in users.emailOptOuts).
+export const EMAIL_EVENTS = ["TASK_ASSIGNED", "SUBMISSION_RECEIVED", "TRAINER_COMMENTED", "HOMEWORK_REMINDER", "WEEKLY_DIGEST"] as const;
+export type EmailEvent = (typeof EMAIL_EVENTS)[number];
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  actorId: varchar("actor_id", { length: 36 }).references(() => users.id),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  body: text("body"),
+  petId: varchar("pet_id", { length: 36 }).references(() => pets.id),
+  taskId: varchar("task_id", { length: 36 }).references(() => homeworkTasks.id),
+  submissionId: varchar("submission_id", { length: 36 }).references(() => homeworkSubmissions.id),
+  link: text("link").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "recipient",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+    relationName: "actor",
+  }),
+  pet: one(pets, {
+    fields: [notifications.petId],
+    references: [pets.id],
+  }),
+}));
+
+// One row per owner; times are "HH:mm" in the owner's IANA timezone.
+export const reminderSettings = pgTable("reminder_settings", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  enabled: boolean("enabled").default(true).notNull(),
+  reminderTime: text("reminder_time").default("18:00").notNull(),
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timezone: text("timezone").default("UTC").notNull(),
+  snoozedUntil: timestamp("snoozed_until"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("reminder_settings_user_idx").on(table.userId),
+]);
+
+// Ledger of reminders already sent. The unique index is what keeps a restart
+// (or a second instance) from reminding the same owner twice for a pet and day.
+export const homeworkReminders = pgTable("homework_reminders", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  petId: varchar("pet_id", { length: 36 }).notNull().references(() => pets.id),
+  dueDate: text("due_date").notNull(),
+  taskIds: text("task_ids").array().notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("homework_reminders_user_pet_date_idx").on(table.userId, table.petId, table.dueDate),
+]);
+
+export const digestSettings = pgTable("digest_settings", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
+  enabled: boolean("enabled").default(true).notNull(),
+  weekday: text("weekday").default("Mon").notNull(),
+  sendTime: text("send_time").default("08:00").notNull(),
+  timezone: text("timezone").default("UTC").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("digest_settings_workspace_idx").on(table.workspaceId),
+]);
+
+// periodKey is the workspace-local date the digest was sent for; the unique
+// index stops a restart from producing a second digest for the same week.
+export const workspaceDigests = pgTable("workspace_digests", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id),
+  periodKey: text("period_key").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  data: jsonb("data").$type<WorkspaceDigestData>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_digests_workspace_period_idx").on(table.workspaceId, table.periodKey),
+]);
+
+// One row per uploaded original. Media is only served to people who can see
+// where it is attached; this records the uploader so they can also see it
+// before it is attached (e.g. a pet photo preview). The orphan reconciler
+// walks this table, oldest check first, to find files nothing links to.
+export const mediaUploads = pgTable("media_uploads", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  filePath: text("file_path").notNull().unique(),
+  uploadedByUserId: varchar("uploaded_by_user_id", { length: 36 }).notNull().references(() => users.id),
+  sizeBytes: bigint("size_bytes", { mode: "number" }),
+  lastCheckedAt: timestamp("last_checked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A chunked upload in progress. Bytes are staged on the instance's disk until
+// uploadOffset reaches size, then moved into the media store; media holds the
+// stored result so the client can attach it.
+export const resumableUploads = pgTable("resumable_uploads", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  petId: varchar("pet_id", { length: 36 }).notNull().references(() => pets.id),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  uploadOffset: bigint("upload_offset", { mode: "number" }).default(0).notNull(),
+  media: jsonb("media").$type<UploadedMedia>(),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const MEDIA_RECLAIM_REASONS = ["ORPHANED", "DELETED"] as const;
+export type MediaReclaimReason = (typeof MEDIA_RECLAIM_REASONS)[number];
+
+// Ledger of files removed from the media store, for the admin storage report.
+export const reclaimedMedia = pgTable("reclaimed_media", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  filePath: text("file_path").notNull(),
+  bytes: integer("bytes").notNull(),
+  reason: text("reason").notNull(),
+  reclaimedAt: timestamp("reclaimed_at").defaultNow().notNull(),
+});
+
 export const insertPetSchema = createInsertSchema(pets).omit({
   id: true,
   createdAt: true,
@@ -210,6 +767,8 @@ export const insertPetSchema = createInsertSchema(pets).omit({
 export const insertHomeworkTaskSchema = createInsertSchema(homeworkTasks).omit({
   id: true,
   createdAt: true,
+}).extend({
+  recurrence: recurrenceRuleSchema.nullable().optional(),
 });
 
 export const insertHomeworkSubmissionSchema = createInsertSchema(homeworkSubmissions).omit({
@@ -233,6 +792,11 @@ export const insertTrainerCommentSchema = createInsertSchema(trainerComments).om
   createdAt: true,
 });
 
+export const insertSubmissionStatusEventSchema = createInsertSchema(submissionStatusEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertCommentMediaSchema = createInsertSchema(commentMedia).omit({
   id: true,
   createdAt: true,
@@ -248,17 +812,135 @@ export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).
   createdAt: true,
 });
 
+export const insertWorkspaceInviteSchema = createInsertSchema(workspaceInvites).omit({
+  id: true,
+  useCount: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertClientInvitationSchema = createInsertSchema(clientInvitations).omit({
+  id: true,
+  acceptedAt: true,
+  acceptedByUserId: true,
+  petId: true,
+  createdAt: true,
+});
+
+export const insertTaskTemplateSchema = createInsertSchema(taskTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+});
+
+export const insertTaskTemplateMediaSchema = createInsertSchema(taskTemplateMedia).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTrainingProgramSchema = createInsertSchema(trainingPrograms).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProgramPhaseSchema = createInsertSchema(programPhases).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProgramPhaseTemplateSchema = createInsertSchema(programPhaseTemplates).omit({
+  id: true,
+});
+
+export const insertPetProgramSchema = createInsertSchema(petPrograms).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPetMessageSchema = createInsertSchema(petMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPetMessageMediaSchema = createInsertSchema(petMessageMedia).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReminderSettingsSchema = createInsertSchema(reminderSettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertHomeworkReminderSchema = createInsertSchema(homeworkReminders).omit({
+  id: true,
+  sentAt: true,
+});
+
+export const insertDigestSettingsSchema = createInsertSchema(digestSettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
 export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
 export type Workspace = typeof workspaces.$inferSelect;
 
 export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
 export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
 
+export type InsertWorkspaceInvite = z.infer<typeof insertWorkspaceInviteSchema>;
+export type WorkspaceInvite = typeof workspaceInvites.$inferSelect;
+
+export type WorkspaceInviteWithMembers = WorkspaceInvite & {
+  status: InviteStatus;
+  members: (WorkspaceMember & { user?: User })[];
+};
+
+export type InsertClientInvitation = z.infer<typeof insertClientInvitationSchema>;
+export type ClientInvitation = typeof clientInvitations.$inferSelect;
+
+export type ClientInvitationWithStatus = ClientInvitation & {
+  status: ClientInvitationStatus;
+};
+
 export type WorkspaceWithRelations = Workspace & {
   trainer?: User;
   members?: (WorkspaceMember & { user?: User })[];
 };
 
+export type StaffMember = WorkspaceMember & {
+  user?: User;
+  assignedPets: number;
+};
+
+export type WorkspaceStaff = {
+  workspaceId: string;
+  myRole: WorkspaceStaffRole | null;
+  staffSeeAllPets: boolean;
+  members: StaffMember[];
+};
+
+export type WorkspaceMembershipSummary = {
+  workspaceId: string;
+  name: string;
+  role: string;
+};
+
+// The workspace a user is acting in and the role that gives them there:
+// TRAINER for staff memberships, OWNER for clients, ADMIN for admins.
+export type WorkspaceContext = {
+  activeWorkspaceId: string | null;
+  role: string | null;
+  memberships: WorkspaceMembershipSummary[];
+};
+
 export type InsertPet = z.infer<typeof insertPetSchema>;
 export type Pet = typeof pets.$inferSelect;
 
@@ -270,6 +952,23 @@ export type HomeworkSubmission = typeof homeworkSubmissions.$inferSelect;
 
 export type InsertTaskMedia = z.infer<typeof insertTaskMediaSchema>;
 export type TaskMedia = typeof taskMedia.$inferSelect;
+export type TaskClosure = typeof taskClosures.$inferSelect;
+
+export type VideoProcessingResult = Pick<TaskMedia, "playbackPath" | "posterPath" | "durationMs" | "width" | "height" | "processingStatus">;
+
+// Where a stored file is attached; used to tell open pet pages it changed.
+export type MediaReference = {
+  petId: string;
+  taskId?: string;
+  submissionId?: string;
+};
+
+// A file attached somewhere on a pet, for storage accounting.
+export type PetMediaFile = {
+  petId: string;
+  filePath: string;
+  sizeBytes: number | null;
+};
 
 export type InsertSubmissionMedia = z.infer<typeof insertSubmissionMediaSchema>;
 export type SubmissionMedia = typeof submissionMedia.$inferSelect;
@@ -280,6 +979,111 @@ export type TrainerComment = typeof trainerComments.$inferSelect;
 export type InsertCommentMedia = z.infer<typeof insertCommentMediaSchema>;
 export type CommentMedia = typeof commentMedia.$inferSelect;
 
+export type InsertSubmissionStatusEvent = z.infer<typeof insertSubmissionStatusEventSchema>;
+export type SubmissionStatusEvent = typeof submissionStatusEvents.$inferSelect;
+
+export type InsertTaskTemplate = z.infer<typeof insertTaskTemplateSchema>;
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+
+export type InsertTaskTemplateMedia = z.infer<typeof insertTaskTemplateMediaSchema>;
+export type TaskTemplateMedia = typeof taskTemplateMedia.$inferSelect;
+
+export type TaskTemplateWithRelations = TaskTemplate & {
+  createdBy?: User;
+  media?: TaskTemplateMedia[];
+};
+
+export type InsertTrainingProgram = z.infer<typeof insertTrainingProgramSchema>;
+export type TrainingProgram = typeof trainingPrograms.$inferSelect;
+
+export type InsertProgramPhase = z.infer<typeof insertProgramPhaseSchema>;
+export type ProgramPhase = typeof programPhases.$inferSelect;
+
+export type InsertProgramPhaseTemplate = z.infer<typeof insertProgramPhaseTemplateSchema>;
+export type ProgramPhaseTemplate = typeof programPhaseTemplates.$inferSelect;
+
+export type InsertPetProgram = z.infer<typeof insertPetProgramSchema>;
+export type PetProgram = typeof petPrograms.$inferSelect;
+
+export type ProgramPhaseWithRelations = ProgramPhase & {
+  templates?: (ProgramPhaseTemplate & { template?: TaskTemplateWithRelations })[];
+};
+
+export type TrainingProgramWithRelations = TrainingProgram & {
+  createdBy?: User;
+  phases?: ProgramPhaseWithRelations[];
+};
+
+export type PetProgramWithRelations = PetProgram & {
+  program?: TrainingProgramWithRelations;
+};
+
+export type InsertPetMessage = z.infer<typeof insertPetMessageSchema>;
+export type PetMessage = typeof petMessages.$inferSelect;
+
+export type InsertPetMessageMedia = z.infer<typeof insertPetMessageMediaSchema>;
+export type PetMessageMedia = typeof petMessageMedia.$inferSelect;
+
+export type PetMessageWithRelations = PetMessage & {
+  sender?: User;
+  media?: PetMessageMedia[];
+};
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export type InsertReminderSettings = z.infer<typeof insertReminderSettingsSchema>;
+export type ReminderSettings = typeof reminderSettings.$inferSelect;
+
+export type InsertHomeworkReminder = z.infer<typeof insertHomeworkReminderSchema>;
+export type HomeworkReminder = typeof homeworkReminders.$inferSelect;
+
+export type InsertDigestSettings = z.infer<typeof insertDigestSettingsSchema>;
+export type DigestSettings = typeof digestSettings.$inferSelect;
+
+// Typed from the table rather than drizzle-zod so `data` keeps its shape.
+export type InsertWorkspaceDigest = typeof workspaceDigests.$inferInsert;
+
+export type MediaUpload = typeof mediaUploads.$inferSelect;
+export type InsertMediaUpload = typeof mediaUploads.$inferInsert;
+
+export type ResumableUpload = typeof resumableUploads.$inferSelect;
+export type InsertResumableUpload = typeof resumableUploads.$inferInsert;
+
+export type ReclaimedMedia = typeof reclaimedMedia.$inferSelect;
+export type InsertReclaimedMedia = typeof reclaimedMedia.$inferInsert;
+
+export type ReclaimedMediaReport = {
+  totalBytes: number;
+  totalFiles: number;
+  byReason: Record<MediaReclaimReason, { bytes: number; files: number }>;
+  last30Days: { bytes: number; files: number };
+  recent: ReclaimedMedia[];
+};
+
+export type PetStorageUsage = {
+  petId: string;
+  petName: string;
+  files: number;
+  bytes: number;
+};
+
+export type WorkspaceStorageUsage = {
+  workspaceId: string;
+  workspaceName: string;
+  trainerName: string | null;
+  usedBytes: number;
+  quotaBytes: number;
+  files: number;
+  pets: PetStorageUsage[];
+};
+export type WorkspaceDigest = typeof workspaceDigests.$inferSelect;
+
+export type NotificationWithRelations = Notification & {
+  actor?: User | null;
+  pet?: Pet | null;
+};
+
 export type PetWithRelations = Pet & {
   owner?: User;
   trainer?: User | null;
@@ -291,6 +1095,7 @@ export type HomeworkTaskWithRelations = HomeworkTask & {
   trainer?: User;
   submissions?: HomeworkSubmissionWithRelations[];
   media?: TaskMedia[];
+  closures?: TaskClosure[];
 };
 
 export type HomeworkSubmissionWithRelations = HomeworkSubmission & {
@@ -298,17 +1103,25 @@ export type HomeworkSubmissionWithRelations = HomeworkSubmission & {
   submittedBy?: User;
   media?: SubmissionMedia[];
   comments?: TrainerCommentWithRelations[];
+  resubmissionOf?: HomeworkSubmission | null;
+  resubmissions?: HomeworkSubmission[];
+  statusHistory?: SubmissionStatusEventWithRelations[];
+};
+
+export type SubmissionStatusEventWithRelations = SubmissionStatusEvent & {
+  changedBy?: User;
+  submission?: HomeworkSubmissionWithRelations;
 };
 
 export type TrainerCommentWithRelations = TrainerComment & {
-  trainer?: User;
+  author?: User;
   media?: CommentMedia[];
 };
 
 export type TimelineItem = {
-  type: "task" | "submission" | "comment";
+  type: "task" | "submission" | "comment" | "review";
   date: Date;
-  data: HomeworkTaskWithRelations | HomeworkSubmissionWithRelations | TrainerCommentWithRelations;
+  data: HomeworkTaskWithRelations | HomeworkSubmissionWithRelations | TrainerCommentWithRelations | SubmissionStatusEventWithRelations;
 };
 
 import type { User } from "./models/auth";
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { WORKSPACE_STAFF_ROLES, type WorkspaceStaffRole } from "./schema";
+
+export const STAFF_ROLE_LABELS: Record<WorkspaceStaffRole, string> = {
+  HEAD_TRAINER: "Head trainer",
+  ASSISTANT: "Assistant",
+};
+
+// Labels for every membership role, clients included.
+export const MEMBERSHIP_ROLE_LABELS: Record<string, string> = {
+  ...STAFF_ROLE_LABELS,
+  OWNER: "Client",
+};
+
+export function isStaffRole(role: string | null | undefined): role is WorkspaceStaffRole {
+  return (WORKSPACE_STAFF_ROLES as readonly string[]).includes(role ?? "");
+}
+
+export const addStaffInputSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+  role: z.enum(WORKSPACE_STAFF_ROLES),
+});
+
+export type AddStaffInput = z.infer<typeof addStaffInputSchema>;
+
+export const updateStaffRoleInputSchema = z.object({
+  role: z.enum(WORKSPACE_STAFF_ROLES),
+});
+
+export const staffSettingsInputSchema = z.object({
+  staffSeeAllPets: z.boolean(),
+});
+
+export type StaffSettingsInput = z.infer<typeof staffSettingsInputSchema>;
+
+export const assignPetInputSchema = z.object({
+  trainerId: z.string().min(1, "Choose a staff member"),
+});
+
+export const activeWorkspaceInputSchema = z.object({
+  workspaceId: z.string().min(1, "Choose a workspace"),
+});